@@ -1,9 +1,9 @@
 
 'use client';
 
-import {useState, useEffect} from 'react';
+import {useState, useEffect, useMemo, useRef} from 'react';
 import type {LatLngLiteral} from 'leaflet';
-import {cellToBoundary, polygonToCellsExperimental} from 'h3-js';
+import {cellToBoundary} from 'h3-js';
 import {Layers} from 'lucide-react';
 import dynamic from 'next/dynamic';
 import PolygonForm from '@/components/polygon-form';
@@ -18,25 +18,88 @@ import {
 import {useToast} from '@/hooks/use-toast';
 import {Skeleton} from '@/components/ui/skeleton';
 import PolygonList from '@/components/polygon-list';
+import ExportMenu from '@/components/export-menu';
+import HistoryMenu from '@/components/history-menu';
+import ShareLinkButton from '@/components/share-link-button';
+import MapLayersMenu from '@/components/map-layers-menu';
+import MapSelectionToolbar from '@/components/map-selection-toolbar';
+import HexDataMenu from '@/components/hex-data-menu';
+import ChoroplethLegend from '@/components/choropleth-legend';
+import DataSourceSettings from '@/components/data-source-settings';
 import ScheduleTab from '@/components/scheduling/schedule-tab';
+import SessionMenu from '@/components/session-menu';
+import SessionRestoreDialog from '@/components/session-restore-dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import type { HexagonSchedule, ScheduledHexagon } from '@/types/scheduling';
-import { generateTimeSlots, getNextAvailableTimeSlot, generateScheduleId, getHexagonNumber, createCustomTimeSlot } from '@/lib/scheduling-utils';
-import { getHexagonsForTerminal } from './actions';
+import type { HexagonSchedule, OperatingWindow, RecurrenceRule, ScheduledHexagon, ScheduleException, StopSelectionRequest } from '@/types/scheduling';
+import { generateTimeSlots, getNextAvailableTimeSlot, generateScheduleId, getHexagonNumber, createCustomTimeSlot, DEFAULT_OPERATING_WINDOW, getOperatingWindowsFor } from '@/lib/scheduling-utils';
+import { parseWktFeatures, formatGeometryParseError } from '@/lib/wkt-parser';
+import { countCellsByContainmentMode, DEFAULT_CONTAINMENT_MODE, getGeometryCentroid, polyfillGeometry, toLeafletPolygon } from '@/lib/geometry-utils';
+import type {
+  ContainmentMode,
+  LeafletPolygon,
+  MapViewport,
+  MultiPolygonCoordinates,
+  PolygonData,
+  PolyfillOptions,
+  SelectionMode,
+  SelectionShape,
+  SelectionTool,
+  ViewportRequest,
+} from '@/types/geometry';
+import { getGeometryTimeZone } from '@/lib/time-zones';
+import { getDateKeyWeekday, toDateKey } from '@/lib/recurrence';
+import {
+  deleteSession,
+  generateSessionId,
+  getDefaultSessionName,
+  getSession,
+  hasSessionContent,
+  isSessionStorageAvailable,
+  listSessions,
+  renameSession,
+  saveSession,
+} from '@/lib/session-store';
+import { amendHistory, canRedo, canUndo, createHistory, moveHistory, pushHistory, rewriteHistory, type HistoryStack } from '@/lib/history';
+import { encodeDeepLink, MAX_LINK_CELLS, parseDeepLink, type DeepLinkState } from '@/lib/deep-link';
+import type { SavedSession, ScheduleDraft, SessionSnapshot } from '@/types/session';
+import {
+  BUILT_IN_BASEMAPS,
+  DEFAULT_BASEMAP_ID,
+  DEFAULT_MAP_OVERLAYS,
+  OFFLINE_BASEMAP_ID,
+  createOfflineBasemap,
+  loadCustomBasemaps,
+  loadSelectedBasemapId,
+  saveCustomBasemaps,
+  saveSelectedBasemapId,
+} from '@/lib/basemaps';
+import { haversineKm } from '@/lib/route-optimizer';
+import { applySelectionMode, DEFAULT_RING_RADIUS, getShapeCells } from '@/lib/map-selection';
+import type { Basemap, MapOverlays, MapSettings, TerminalOutline } from '@/types/map-layers';
+import { buildChoropleth, DEFAULT_CHOROPLETH_SETTINGS } from '@/lib/hex-attributes';
+import type { ChoroplethSettings, HexAttributeLayer } from '@/types/hex-attributes';
+import { fetchGoogleSheetData, fetchRoutesFromGoogleSheet, getHexagonsForTerminal, getMapSettings } from './actions';
 
 const MapComponent = dynamic(() => import('@/components/map-component'), {
   ssr: false,
   loading: () => <Skeleton className="h-full w-full" />,
 });
 
-export type LeafletPolygon = LatLngLiteral[];
+export type { LeafletPolygon };
 
-export type PolygonData = {
-  id: number;
-  leafletPolygon: LeafletPolygon;
-  resolution: number;
-  allH3Indexes: string[];
-};
+// Changes are written this long after the last one, so a burst of clicks is one write
+const AUTOSAVE_DELAY_MS = 1000;
+
+// The address bar follows the workspace this long after the last change, e.g. once panning stops
+const URL_SYNC_DELAY_MS = 500;
+
+// Containment-mode counts take a polyfill per mode, so an edited shape is recounted this long after its last edit
+const CELL_COUNT_DELAY_MS = 500;
+
+// Other terminals whose polygons are this close to the current one are outlined as neighbours
+const NEIGHBOUR_RADIUS_KM = 50;
+
+type SheetOutline = TerminalOutline & { center: { lat: number; lng: number } | null };
 
 type Hexagon = {
   index: string;
@@ -47,9 +110,25 @@ type Hexagon = {
 export default function Home() {
   const [polygons, setPolygons] = useState<PolygonData[]>([]);
   const [selectedH3Indexes, setSelectedH3Indexes] = useState<Set<string>>(new Set());
-  const [renderedHexagons, setRenderedHexagons] = useState<Hexagon[]>([]);
+  const [staleCellCounts, setStaleCellCounts] = useState<Set<number>>(new Set()); // polygons edited since their counts
   const {toast} = useToast();
-  const [mapKey, setMapKey] = useState(Date.now());
+  // The map only moves on a new request (data loaded, a zoom action); otherwise the user's pan and zoom stay
+  const [viewportRequest, setViewportRequest] = useState<ViewportRequest>({type: 'fit-all'});
+  const [mapViewport, setMapViewport] = useState<MapViewport>();
+  const [terminalViewports, setTerminalViewports] = useState<Record<string, MapViewport>>({}); // last view of each terminal
+  const [mapSettings, setMapSettings] = useState<MapSettings>({});
+  const [offlineTilesError, setOfflineTilesError] = useState<string>();
+  const [customBasemaps, setCustomBasemaps] = useState<Basemap[]>([]);
+  const [selectedBasemapId, setSelectedBasemapId] = useState<string | null>(null); // null = not chosen in this browser
+  const [mapOverlays, setMapOverlays] = useState<MapOverlays>(DEFAULT_MAP_OVERLAYS);
+  const [sheetOutlines, setSheetOutlines] = useState<SheetOutline[] | null>(null); // every terminal's polygons, loaded on demand
+  const [selectionTool, setSelectionTool] = useState<SelectionTool | null>(null);
+  const [selectionMode, setSelectionMode] = useState<SelectionMode>('add');
+  const [ringRadius, setRingRadius] = useState(DEFAULT_RING_RADIUS);
+  const [stopSelectionRequest, setStopSelectionRequest] = useState<StopSelectionRequest | null>(null);
+  const [hexAttributes, setHexAttributes] = useState<HexAttributeLayer | null>(null);
+  const [choroplethSettings, setChoroplethSettings] = useState<ChoroplethSettings>(DEFAULT_CHOROPLETH_SETTINGS);
+  const [defaultResolution, setDefaultResolution] = useState(10);
   const [hoveredHexIndex, setHoveredHexIndex] = useState<string | null>(null);
   
   // Scheduling state
@@ -60,88 +139,539 @@ export default function Home() {
   const [scheduleView, setScheduleView] = useState<'list' | 'create' | 'edit'>('list');
   const [selectedTerminalId, setSelectedTerminalId] = useState<string>('');
   const [terminalHexagons, setTerminalHexagons] = useState<string[]>([]);
+  const [sheetDataVersion, setSheetDataVersion] = useState(0); // bumped when sheet data is refreshed
   const [isTimeInputOpen, setIsTimeInputOpen] = useState<boolean>(false);
   const [editingHexagonId, setEditingHexagonId] = useState<string | null>(null);
+  const [operatingWindows, setOperatingWindows] = useState<OperatingWindow[]>([DEFAULT_OPERATING_WINDOW]);
+  const [scheduleDraft, setScheduleDraft] = useState<ScheduleDraft | null>(null);
+
+  // Session state: the workspace is autosaved to IndexedDB under the current session
+  const [currentSession, setCurrentSession] = useState<{id: string; name: string} | null>(null); // null until restore is answered
+  const [savedSessions, setSavedSessions] = useState<SavedSession[]>([]);
+  const [restoreCandidate, setRestoreCandidate] = useState<SavedSession | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const autosaveFailedRef = useRef(false);
+
+  const snapshot = useMemo<SessionSnapshot>(() => ({
+    polygons,
+    selectedH3Indexes: Array.from(selectedH3Indexes),
+    schedules,
+    scheduledHexagons,
+    selectedTerminalId,
+    operatingWindows,
+    draft: scheduleDraft,
+    terminalViewports,
+    hexAttributes,
+  }), [polygons, selectedH3Indexes, schedules, scheduledHexagons, selectedTerminalId, operatingWindows, scheduleDraft, terminalViewports, hexAttributes]);
+
+  // Undo history: handlers name the command they are about to apply, and the next snapshot is recorded under it
+  const [history, setHistory] = useState<HistoryStack<SessionSnapshot>>(() => createHistory(snapshot));
+  const [historyVersion, setHistoryVersion] = useState(0); // bumped on undo/redo so the schedule tab reopens the restored draft
+  const pendingCommandRef = useRef<string | null>(null);
+  const resetHistoryRef = useRef(false);
+
+  const recordCommand = (label: string) => {
+    pendingCommandRef.current = label;
+  };
 
   useEffect(() => {
-    // Update map hexagons when selection changes
-    const selectedHexagons: Hexagon[] = Array.from(selectedH3Indexes).map((index, i) => {
-      const boundary = cellToBoundary(index, true); // Returns [lng, lat]
-      return {
-        index,
-        boundary: boundary.map(([lng, lat]) => ({lat, lng})), // This is the correct mapping for Leaflet
-        number: i + 1,
-      };
-    });
-    setRenderedHexagons(selectedHexagons);
-  }, [selectedH3Indexes]);
+    const label = pendingCommandRef.current;
+    pendingCommandRef.current = null;
+    if (resetHistoryRef.current) {
+      resetHistoryRef.current = false;
+      setHistory(createHistory(snapshot));
+      return;
+    }
+    // Changes that are not commands (typing a name, a save returning its revision) are folded into the current entry
+    setHistory((prev) => (label ? pushHistory(prev, label, snapshot) : amendHistory(prev, snapshot)));
+  }, [snapshot]);
 
-  const handlePolygonSubmit = (data: {wkts: string[]; resolution: number; terminalId?: string}) => {
-    let totalHexagons = 0;
-    const newPolygonsData: PolygonData[] = [];
-    const newH3Indexes: string[] = [];
+  const refreshSavedSessions = async () => {
+    try {
+      setSavedSessions(await listSessions());
+    } catch (error) {
+      console.error('Error listing sessions:', error);
+    }
+  };
 
-    data.wkts.forEach((wktString, i) => {
-      try {
-        const wkt = wktString.trim();
-        if (!wkt.toUpperCase().startsWith('POLYGON')) {
-          throw new Error('Invalid WKT format: Must start with POLYGON.');
-        }
+  // Writes the current session now; an empty session that was never saved is not written
+  const saveCurrentSession = async (): Promise<boolean> => {
+    if (!currentSession || !isSessionStorageAvailable()) return false;
+    if (!lastSavedAt && !hasSessionContent(snapshot)) return false;
 
-        const coordString = wkt.substring(wkt.indexOf('(') + 1, wkt.lastIndexOf(')'));
-        const rings = coordString
-          .slice(1, -1)
-          .split('),(')
-          .map((ring) =>
-            ring.split(',').map((pair) => {
-              const [lng, lat] = pair.trim().split(/\s+/).map(Number);
-              if (isNaN(lng) || isNaN(lat)) {
-                throw new Error(`Invalid coordinate pair found: "${pair.trim()}"`);
-              }
-              return [lng, lat];
-            })
-          );
-
-        if (rings.length === 0 || rings[0].length < 4) {
-          throw new Error('A polygon must have at least 4 coordinate pairs to close the loop.');
-        }
+    const updatedAt = new Date();
+    try {
+      await saveSession({...currentSession, updatedAt, snapshot});
+      autosaveFailedRef.current = false;
+      setLastSavedAt(updatedAt);
+      return true;
+    } catch (error) {
+      console.error('Error saving session:', error);
+      if (!autosaveFailedRef.current) {
+        autosaveFailedRef.current = true;
+        toast({
+          variant: 'destructive',
+          title: 'Autosave Failed',
+          description: 'Changes are not being saved in this browser. Export your work to keep it.',
+        });
+      }
+      return false;
+    }
+  };
+
+  // A shared link opens in a new session; otherwise offer the most recent session
+  useEffect(() => {
+    const link = parseDeepLink(window.location.search);
+    if (link) {
+      setCurrentSession({id: generateSessionId(), name: getDefaultSessionName()});
+      applyDeepLink(link);
+      refreshSavedSessions();
+      return;
+    }
 
-        const first = rings[0][0];
-        const last = rings[0][rings[0].length - 1];
-        if (first[0] !== last[0] || first[1] !== last[1]) {
-          rings[0].push(first);
+    if (!isSessionStorageAvailable()) {
+      setCurrentSession({id: generateSessionId(), name: getDefaultSessionName()});
+      return;
+    }
+
+    listSessions()
+      .then((sessions) => {
+        setSavedSessions(sessions);
+        const [latest] = sessions;
+        if (latest && hasSessionContent(latest.snapshot)) {
+          setRestoreCandidate(latest);
+        } else {
+          setCurrentSession({id: generateSessionId(), name: getDefaultSessionName()});
         }
+      })
+      .catch((error) => {
+        console.error('Error loading sessions:', error);
+        setCurrentSession({id: generateSessionId(), name: getDefaultSessionName()});
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!currentSession) return;
+    const timer = setTimeout(async () => {
+      if (await saveCurrentSession()) refreshSavedSessions();
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [currentSession, snapshot]);
 
-        const newLeafletPolygon: LeafletPolygon = rings[0].map(([lng, lat]) => ({lat, lng}));
+  // resetView = a session was opened, rather than a step of its history put back
+  const applySnapshot = (restored: SessionSnapshot, resetView = true) => {
+    const {draft} = restored;
+    setPolygons(restored.polygons);
+    setSelectedH3Indexes(new Set(restored.selectedH3Indexes));
+    setSchedules(restored.schedules);
+    setScheduledHexagons(restored.scheduledHexagons);
+    setSelectedHexagonsForSchedule(new Set(draft?.hexagons.map(h => h.hexagonId) ?? []));
+    setSelectedTerminalId(restored.selectedTerminalId);
+    setOperatingWindows(restored.operatingWindows);
+    setScheduleDraft(draft);
+    // An open editor is reopened by the schedules tab from the draft
+    setScheduleView(draft ? (draft.scheduleId ? 'edit' : 'create') : 'list');
+    if (draft) {
+      setActiveTab('schedules');
+    } else if (resetView) {
+      setActiveTab('input');
+    }
+    setHexAttributes(restored.hexAttributes ?? null);
+    setEditingHexagonId(null);
+    setIsTimeInputOpen(false);
+    if (resetView) {
+      // Undo keeps the view; opening a session goes back to where its terminal was last viewed
+      const viewports = restored.terminalViewports ?? {};
+      const terminalViewport = viewports[restored.selectedTerminalId];
+      setTerminalViewports(viewports);
+      setViewportRequest(terminalViewport ? {type: 'view', viewport: terminalViewport} : {type: 'fit-all'});
+    }
+  };
 
-        const h3Polygon = rings.map((ring) => ring.map(([lng, lat]) => [lat, lng]));
-        const h3Resolution = data.resolution;
+  const applyDeepLink = async (link: DeepLinkState) => {
+    if (link.resolution !== undefined) setDefaultResolution(link.resolution);
+    if (link.terminalId) setSelectedTerminalId(link.terminalId);
+    if (link.cells) setSelectedH3Indexes(new Set(link.cells));
+    if (link.cellsOverLimit) {
+      toast({
+        variant: 'destructive',
+        title: 'Selection not opened',
+        description: `The link's hexagon selection is larger than ${MAX_LINK_CELLS.toLocaleString()} cells and was left out.`,
+      });
+    }
+    if (link.tab) setActiveTab(link.tab);
+    if (link.viewport) {
+      setViewportRequest({type: 'view', viewport: link.viewport});
+    } else if (link.cells) {
+      setViewportRequest({type: 'fit-cells', cells: link.cells});
+    }
+    if (!link.scheduleId) return;
 
-        const h3Indexes = polygonToCellsExperimental(h3Polygon, h3Resolution, "containmentOverlapping", false);
-        totalHexagons += h3Indexes.length;
+    const result = await fetchRoutesFromGoogleSheet(link.terminalId);
+    const route = result.data?.find((r) => r.id === link.scheduleId);
+    if (!route) {
+      toast({
+        variant: 'destructive',
+        title: 'Linked schedule not found',
+        description: result.success
+          ? `No saved route has the ID "${link.scheduleId}". It may have been deleted.`
+          : result.error,
+      });
+      return;
+    }
 
-        const newPolygonData: PolygonData = {
-          id: Date.now() + Math.random(),
-          leafletPolygon: newLeafletPolygon,
-          resolution: h3Resolution,
-          allH3Indexes: h3Indexes,
-        };
-        newPolygonsData.push(newPolygonData);
-        newH3Indexes.push(...h3Indexes);
+    // Open the linked route in the editor, the same way an edit left open is reopened
+    setSchedules((prev) => [...prev.filter((s) => s.id !== route.id), route]);
+    setScheduleDraft({
+      scheduleId: route.id,
+      name: route.name,
+      hexagons: route.hexagons,
+      operatingWindow: route.operatingWindow,
+      recurrence: route.recurrence,
+      exceptions: route.exceptions,
+    });
+    setScheduleView('edit');
+    setActiveTab('schedules');
+    setHistoryVersion((version) => version + 1);
+  };
+
+  const deepLink = useMemo<DeepLinkState>(() => ({
+    terminalId: selectedTerminalId || undefined,
+    resolution: polygons[polygons.length - 1]?.resolution ?? defaultResolution,
+    cells: Array.from(selectedH3Indexes),
+    scheduleId: scheduleDraft?.scheduleId,
+    tab: activeTab === 'schedules' ? 'schedules' : 'input',
+    viewport: mapViewport,
+  }), [selectedTerminalId, polygons, defaultResolution, selectedH3Indexes, scheduleDraft, activeTab, mapViewport]);
+
+  useEffect(() => {
+    if (!currentSession) return;
+    const timer = setTimeout(() => {
+      const query = encodeDeepLink(deepLink);
+      window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+    }, URL_SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [currentSession, deepLink]);
+
+  const handleViewportChange = (viewport: MapViewport) => {
+    // Leaflet reports a move after every refit, often to the same view
+    const isSame = (prev?: MapViewport) => !!prev && prev.lat === viewport.lat && prev.lng === viewport.lng && prev.zoom === viewport.zoom;
+    setMapViewport((prev) => (isSame(prev) ? prev : viewport));
+    if (selectedTerminalId) {
+      setTerminalViewports((prev) => (isSame(prev[selectedTerminalId]) ? prev : {...prev, [selectedTerminalId]: viewport}));
+    }
+  };
+
+  const handleZoomToPolygon = (polygonId: number) => {
+    setViewportRequest({type: 'fit-polygon', polygonId});
+  };
+
+  const handleZoomToCells = (cells: string[]) => {
+    setViewportRequest({type: 'fit-cells', cells});
+  };
+
+  // Offline tiles and the default view come from the deployment; custom basemaps from this browser
+  useEffect(() => {
+    setCustomBasemaps(loadCustomBasemaps());
+    setSelectedBasemapId(loadSelectedBasemapId());
+    getMapSettings().then((result) => {
+      if (result.data) setMapSettings(result.data);
+      if (!result.success) setOfflineTilesError(result.error);
+    });
+  }, []);
+
+  const basemaps = useMemo<Basemap[]>(() => [
+    ...BUILT_IN_BASEMAPS,
+    ...(mapSettings.offlineTiles ? [createOfflineBasemap(mapSettings.offlineTiles)] : []),
+    ...customBasemaps,
+  ], [mapSettings, customBasemaps]);
+
+  // Without a choice in this browser, a deployment with offline tiles starts on them
+  const basemap = basemaps.find((b) => b.id === selectedBasemapId)
+    ?? basemaps.find((b) => b.id === (mapSettings.offlineTiles ? OFFLINE_BASEMAP_ID : DEFAULT_BASEMAP_ID))
+    ?? BUILT_IN_BASEMAPS[0];
+
+  const handleBasemapChange = (id: string) => {
+    setSelectedBasemapId(id);
+    saveSelectedBasemapId(id);
+  };
+
+  const handleAddBasemap = (added: Basemap) => {
+    const next = [...customBasemaps, added];
+    setCustomBasemaps(next);
+    saveCustomBasemaps(next);
+    handleBasemapChange(added.id);
+  };
+
+  const handleRemoveBasemap = (id: string) => {
+    const next = customBasemaps.filter((b) => b.id !== id);
+    setCustomBasemaps(next);
+    saveCustomBasemaps(next);
+  };
+
+  const handleImportHexAttributes = (layer: HexAttributeLayer) => {
+    recordCommand(`Import hexagon data from ${layer.source}`);
+    setHexAttributes(layer);
+    // Keep the shown attribute when the new data has it too
+    setChoroplethSettings((prev) => ({
+      ...prev,
+      visible: true,
+      attribute: layer.attributes.some(({name}) => name === prev.attribute) ? prev.attribute : null,
+    }));
+    toast({
+      title: 'Hexagon Data Imported',
+      description: `${Object.keys(layer.values).length} cells with ${layer.attributes.length} attribute(s).`,
+    });
+  };
+
+  const handleClearHexAttributes = () => {
+    recordCommand('Remove hexagon data');
+    setHexAttributes(null);
+  };
+
+  const choropleth = useMemo(() => (
+    hexAttributes && choroplethSettings.visible ? buildChoropleth(hexAttributes, choroplethSettings) : null
+  ), [hexAttributes, choroplethSettings]);
+
+  // Every terminal's polygons are read from the sheet the first time the neighbours overlay is turned on
+  useEffect(() => {
+    if (!mapOverlays.neighbouringTerminals || sheetOutlines) return;
+
+    fetchGoogleSheetData().then((result) => {
+      if (!result.success || !result.data) {
+        toast({
+          variant: 'destructive',
+          title: 'Could not load neighbouring terminals',
+          description: result.error,
+        });
+        setMapOverlays((prev) => ({...prev, neighbouringTerminals: false}));
+        return;
+      }
+
+      const rows = result.data;
+      const parsed = parseWktFeatures(rows.map((row) => row['Polygon']));
+      setSheetOutlines(rows.flatMap((row, i) => {
+        const geometry = parsed[i].geometry;
+        if (!geometry) return [];
+        return [{
+          terminalId: row['Terminal ID'],
+          name: row['PS Name'],
+          polygon: toLeafletPolygon(geometry.polygons),
+          center: getGeometryCentroid(geometry.polygons),
+        }];
+      }));
+    });
+  }, [mapOverlays.neighbouringTerminals, sheetOutlines]);
+
+  const goToHistoryEntry = (index: number) => {
+    const next = moveHistory(history, index);
+    if (next.index === history.index) return;
+    pendingCommandRef.current = null;
+    setHistory(next);
+    applySnapshot(next.entries[next.index].state, false);
+    setHistoryVersion((version) => version + 1);
+  };
+
+  const handleUndo = () => {
+    if (canUndo(history)) goToHistoryEntry(history.index - 1);
+  };
+
+  const handleRedo = () => {
+    if (canRedo(history)) goToHistoryEntry(history.index + 1);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const key = event.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      // Text fields keep their own undo for typing
+      if ((event.target as HTMLElement | null)?.closest('input, textarea, [contenteditable="true"]')) return;
+
+      event.preventDefault();
+      if (key === 'y' || event.shiftKey) {
+        handleRedo();
+      } else {
+        handleUndo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history]);
+
+  const openSession = (session: SavedSession) => {
+    // Each session starts its own history
+    resetHistoryRef.current = true;
+    applySnapshot(session.snapshot);
+    setCurrentSession({id: session.id, name: session.name});
+    setLastSavedAt(session.updatedAt);
+  };
 
+  const startNewSession = (name = getDefaultSessionName()) => {
+    resetHistoryRef.current = true;
+    applySnapshot({
+      polygons: [],
+      selectedH3Indexes: [],
+      schedules: [],
+      scheduledHexagons: [],
+      selectedTerminalId,
+      operatingWindows,
+      draft: null,
+      terminalViewports,
+      hexAttributes: null,
+    });
+    setCurrentSession({id: generateSessionId(), name});
+    setLastSavedAt(null);
+  };
+
+  const handleRestoreSession = (session: SavedSession) => {
+    setRestoreCandidate(null);
+    openSession(session);
+    toast({
+      title: 'Session Restored',
+      description: `Restored "${session.name}".`,
+    });
+  };
+
+  const handleStartFresh = () => {
+    // The offered session stays saved and can be opened from the sessions menu
+    setRestoreCandidate(null);
+    setCurrentSession({id: generateSessionId(), name: getDefaultSessionName()});
+  };
+
+  const handleNewSession = async () => {
+    await saveCurrentSession();
+    startNewSession();
+    refreshSavedSessions();
+  };
+
+  const handleSwitchSession = async (id: string) => {
+    await saveCurrentSession();
+    try {
+      const session = await getSession(id);
+      if (!session) throw new Error('The session no longer exists.');
+      openSession(session);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not open session',
+        description: error instanceof Error ? error.message : 'An unknown error occurred.',
+      });
+    }
+    refreshSavedSessions();
+  };
+
+  const handleRenameSession = async (name: string) => {
+    if (!currentSession) return;
+    setCurrentSession({...currentSession, name});
+    // Unsaved sessions take the name on their first autosave
+    if (lastSavedAt) {
+      try {
+        await renameSession(currentSession.id, name);
       } catch (error) {
-        console.error(`Error processing WKT string #${i + 1}:`, wktString, error);
-        const errorMessage = error instanceof Error ? error.message : 'Invalid WKT format.';
+        console.error('Error renaming session:', error);
+      }
+      refreshSavedSessions();
+    }
+  };
+
+  const handleDeleteSession = async () => {
+    if (!currentSession) return;
+    try {
+      await deleteSession(currentSession.id);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not delete session',
+        description: error instanceof Error ? error.message : 'An unknown error occurred.',
+      });
+      return;
+    }
+    toast({
+      title: 'Session Deleted',
+      description: `"${currentSession.name}" has been removed from this browser.`,
+    });
+    startNewSession();
+    refreshSavedSessions();
+  };
+
+  // Cell boundaries never change, so each is computed once however often the selection is toggled
+  const boundaryCache = useRef<Map<string, LatLngLiteral[]>>(new Map());
+
+  const renderedHexagons = useMemo<Hexagon[]>(() => {
+    // Map hexagons follow the selection in the same render, so a fit requested alongside sees them
+    const cache = boundaryCache.current;
+    return Array.from(selectedH3Indexes).map((index, i) => {
+      let boundary = cache.get(index);
+      if (!boundary) {
+        // cellToBoundary returns [lng, lat] with the GeoJSON flag; Leaflet wants {lat, lng}
+        boundary = cellToBoundary(index, true).map(([lng, lat]) => ({lat, lng}));
+        cache.set(index, boundary);
+      }
+      return {index, boundary, number: i + 1};
+    });
+  }, [selectedH3Indexes]);
+
+  const replacePolygonCells = (previousIndexes: string[], h3Indexes: string[]) => {
+    const newIndexSet = new Set(h3Indexes);
+    setSelectedH3Indexes((prev) => {
+      const newSet = new Set(prev);
+      previousIndexes.forEach((index) => {
+        if (!newIndexSet.has(index)) newSet.delete(index);
+      });
+      h3Indexes.forEach((index) => newSet.add(index));
+      return newSet;
+    });
+  };
+
+  const handlePolygonSubmit = (data: {wkts: string[]; resolution: number; containmentMode: ContainmentMode; terminalId?: string; timeZone?: string}) => {
+    let totalHexagons = 0;
+    const newPolygonsData: PolygonData[] = [];
+    const newH3Indexes: string[] = [];
+
+    parseWktFeatures(data.wkts).forEach((result, i) => {
+      result.warnings.forEach((warning) => {
+        console.warn(`Warning in WKT string #${i + 1}:`, formatGeometryParseError(warning));
+      });
+
+      if (!result.geometry) {
+        console.error(`Error processing WKT string #${i + 1}:`, data.wkts[i], result.errors);
         toast({
           variant: 'destructive',
           title: `Error in Polygon #${i + 1}`,
-          description: errorMessage,
+          description: result.errors.map(formatGeometryParseError).join('\n'),
         });
         // Continue to next WKT string instead of stopping
+        return;
       }
+
+      const {polygons: geometry} = result.geometry;
+      const polyfillOptions: PolyfillOptions = {
+        resolution: data.resolution,
+        containmentMode: data.containmentMode,
+        compact: false,
+        uncompactResolution: null,
+      };
+      const h3Indexes = polyfillGeometry(geometry, polyfillOptions);
+      totalHexagons += h3Indexes.length;
+
+      const newPolygonData: PolygonData = {
+        ...polyfillOptions,
+        id: Date.now() + Math.random(),
+        leafletPolygon: toLeafletPolygon(geometry),
+        geometry,
+        allH3Indexes: h3Indexes,
+        cellCounts: countCellsByContainmentMode(geometry, data.resolution),
+        terminalId: data.terminalId,
+        timeZone: data.timeZone ?? getGeometryTimeZone(geometry) ?? undefined,
+        sourceWkt: data.wkts[i].trim(),
+      };
+      newPolygonsData.push(newPolygonData);
+      newH3Indexes.push(...h3Indexes);
     });
 
     if(newPolygonsData.length > 0) {
+      recordCommand(newPolygonsData.length === 1 ? 'Add polygon' : `Add ${newPolygonsData.length} polygons`);
       setPolygons((prev) => [...prev, ...newPolygonsData]);
 
       // Add new indexes to selection
@@ -151,18 +681,21 @@ export default function Home() {
         return newSet;
       });
 
-      // Clear scheduling state when new hexagons are generated
-      // This ensures old scheduled hexagons don't persist when switching terminals
-      setSchedules([]);
+      // Close any schedule in progress so its stops don't carry over to another terminal;
+      // saved schedules are kept, each belongs to its own terminal
       setSelectedHexagonsForSchedule(new Set());
       setScheduledHexagons([]);
+      setScheduleDraft(null);
+      setScheduleView('list');
       
       // Switch to polygons tab if currently on schedules
       if (activeTab === 'schedules') {
         setActiveTab('polygons');
       }
 
-      setMapKey(Date.now());
+      // Loaded data is fitted, unless this terminal has been viewed before
+      const terminalViewport = data.terminalId ? terminalViewports[data.terminalId] : undefined;
+      setViewportRequest(terminalViewport ? {type: 'view', viewport: terminalViewport} : {type: 'fit-all'});
 
       // Set the terminal ID if provided
       if (data.terminalId) {
@@ -171,12 +704,13 @@ export default function Home() {
 
       toast({
         title: `${newPolygonsData.length} Polygon(s) Added!`,
-        description: `Generated ${totalHexagons} H3 hexagons at resolution ${data.resolution}. Previous schedules have been cleared.`,
+        description: `Generated ${totalHexagons} H3 hexagons at resolution ${data.resolution}.`,
       });
     }
   };
 
   const handleHexagonSelectionChange = (index: string, isSelected: boolean) => {
+    recordCommand(isSelected ? 'Select hexagon' : 'Deselect hexagon');
     setSelectedH3Indexes((prevSelected) => {
       const newSelected = new Set(prevSelected);
       if (isSelected) {
@@ -189,6 +723,7 @@ export default function Home() {
   };
 
   const handleSelectAllInPolygon = (polygonIndexes: string[], selectAll: boolean) => {
+    recordCommand(selectAll ? 'Select all in polygon' : 'Deselect all in polygon');
     setSelectedH3Indexes((prev) => {
       const newSet = new Set(prev);
       if (selectAll) {
@@ -205,6 +740,7 @@ export default function Home() {
   };
 
   const handleRemovePolygon = (polygonId: number) => {
+    recordCommand('Remove polygon');
     setPolygons((prev) => prev.filter((p) => p.id !== polygonId));
     // Optional: remove its hexes from selection as well
     const polygonToRemove = polygons.find((p) => p.id === polygonId);
@@ -227,15 +763,96 @@ export default function Home() {
     }
   };
 
+  const handleDrawnPolygonCreate = (geometry: MultiPolygonCoordinates) => {
+    // Drawn zones reuse the most recent polygon's polyfill settings so they line up with existing cells
+    const lastPolygon = polygons[polygons.length - 1];
+    const polyfillOptions: PolyfillOptions = lastPolygon
+      ? {
+          resolution: lastPolygon.resolution,
+          containmentMode: lastPolygon.containmentMode,
+          compact: lastPolygon.compact,
+          uncompactResolution: lastPolygon.uncompactResolution,
+        }
+      : {resolution: defaultResolution, containmentMode: DEFAULT_CONTAINMENT_MODE, compact: false, uncompactResolution: null};
+    const h3Indexes = polyfillGeometry(geometry, polyfillOptions);
+
+    const newPolygonData: PolygonData = {
+      ...polyfillOptions,
+      id: Date.now() + Math.random(),
+      leafletPolygon: toLeafletPolygon(geometry),
+      geometry,
+      allH3Indexes: h3Indexes,
+      cellCounts: countCellsByContainmentMode(geometry, polyfillOptions.resolution),
+      terminalId: selectedTerminalId || undefined,
+      timeZone: (selectedTerminalId && getTerminalTimeZone(selectedTerminalId)) || getGeometryTimeZone(geometry) || undefined,
+    };
+
+    recordCommand('Draw polygon');
+    setPolygons((prev) => [...prev, newPolygonData]);
+    setSelectedH3Indexes((prev) => {
+      const newSet = new Set(prev);
+      h3Indexes.forEach((index) => newSet.add(index));
+      return newSet;
+    });
+
+    toast({
+      title: 'Polygon Drawn',
+      description: `Generated ${h3Indexes.length} H3 hexagons at resolution ${polyfillOptions.resolution}.`,
+    });
+  };
+
+  const handlePolygonEdit = (polygonId: number, geometry: MultiPolygonCoordinates) => {
+    const polygonToEdit = polygons.find((p) => p.id === polygonId);
+    if (!polygonToEdit) return;
+
+    // Re-run the polyfill live so the hexagons follow the new boundary; the mode counts follow once editing settles
+    const h3Indexes = polyfillGeometry(geometry, polygonToEdit);
+
+    recordCommand('Edit polygon');
+    setPolygons((prev) => prev.map((p) => (
+      p.id === polygonId
+        ? {...p, geometry, leafletPolygon: toLeafletPolygon(geometry), allH3Indexes: h3Indexes}
+        : p
+    )));
+    setStaleCellCounts((prev) => new Set(prev).add(polygonId));
+    replacePolygonCells(polygonToEdit.allH3Indexes, h3Indexes);
+  };
+
+  useEffect(() => {
+    if (staleCellCounts.size === 0) return;
+    const timer = setTimeout(() => {
+      setPolygons((prev) => prev.map((p) => (
+        staleCellCounts.has(p.id) ? {...p, cellCounts: countCellsByContainmentMode(p.geometry, p.resolution)} : p
+      )));
+      setStaleCellCounts(new Set());
+    }, CELL_COUNT_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [staleCellCounts]);
+
+  const handlePolyfillOptionsChange = (polygonId: number, options: Partial<PolyfillOptions>) => {
+    const polygonToUpdate = polygons.find((p) => p.id === polygonId);
+    if (!polygonToUpdate) return;
+
+    const updated = {...polygonToUpdate, ...options};
+    const h3Indexes = polyfillGeometry(updated.geometry, updated);
+
+    recordCommand('Change polyfill options');
+    setPolygons((prev) => prev.map((p) => (p.id === polygonId ? {...updated, allH3Indexes: h3Indexes} : p)));
+    replacePolygonCells(polygonToUpdate.allH3Indexes, h3Indexes);
+  };
+
   const handleClearAll = () => {
+    recordCommand('Clear all');
     setPolygons([]);
     setSelectedH3Indexes(new Set());
-    setMapKey(Date.now());
+    setViewportRequest({type: 'fit-all'});
     
     // Reset scheduling state when polygons are cleared
     setSchedules([]);
     setSelectedHexagonsForSchedule(new Set());
     setScheduledHexagons([]);
+    setScheduleDraft(null);
+    setScheduleView('list');
     
     // Switch back to polygons tab if currently on schedules
     if (activeTab === 'schedules') {
@@ -244,21 +861,52 @@ export default function Home() {
     
     toast({
       title: 'Cleared All Polygons',
-      description: 'The map, list, and schedules have been reset.',
+      description: 'The map, list, and schedules have been reset. Press Ctrl+Z to undo.',
     });
   };
 
   // Scheduling functions
-  const handleScheduleCreate = (name: string, hexagons: ScheduledHexagon[], terminalId?: string) => {
+  const getTerminalTimeZone = (terminalId: string): string | undefined => {
+    return polygons.find((p) => p.terminalId === terminalId && p.timeZone)?.timeZone;
+  };
+
+  const getTerminalLocation = (terminalId: string) => {
+    const terminalPolygons = polygons.filter((p) => p.terminalId === terminalId);
+    return getGeometryCentroid(terminalPolygons.flatMap((p) => p.geometry)) ?? undefined;
+  };
+
+  // Without a located terminal every other terminal counts as a neighbour
+  const neighbourOutlines = useMemo<TerminalOutline[]>(() => {
+    const location = getTerminalLocation(selectedTerminalId);
+    return (sheetOutlines ?? []).filter((outline) => (
+      outline.terminalId !== selectedTerminalId
+      && (!location || !outline.center || haversineKm(location, outline.center) <= NEIGHBOUR_RADIUS_KM)
+    ));
+  }, [sheetOutlines, selectedTerminalId, polygons]);
+
+  const handleScheduleCreate = (
+    name: string,
+    hexagons: ScheduledHexagon[],
+    terminalId: string | undefined,
+    operatingWindow: OperatingWindow,
+    recurrence: RecurrenceRule,
+    exceptions: ScheduleException[]
+  ) => {
+    const scheduleTerminalId = terminalId || selectedTerminalId || '';
     const newSchedule: HexagonSchedule = {
       id: generateScheduleId(),
       name,
-      terminalId: terminalId || selectedTerminalId || '',
+      terminalId: scheduleTerminalId,
+      operatingWindow,
+      timeZone: getTerminalTimeZone(scheduleTerminalId),
+      recurrence,
+      exceptions,
       hexagons,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
     
+    recordCommand(`Create schedule "${name}"`);
     setSchedules(prev => [...prev, newSchedule]);
     setSelectedHexagonsForSchedule(new Set());
     setScheduledHexagons([]);
@@ -270,6 +918,7 @@ export default function Home() {
   };
 
   const handleScheduleUpdate = (id: string, updates: Partial<HexagonSchedule>) => {
+    recordCommand(`Update schedule "${updates.name ?? schedules.find(s => s.id === id)?.name ?? ''}"`);
     setSchedules(prev => prev.map(schedule => {
       if (schedule.id === id) {
         const updatedSchedule = { ...schedule, ...updates, updatedAt: new Date() };
@@ -293,7 +942,29 @@ export default function Home() {
     });
   };
 
-  const handleScheduleDelete = (id: string) => {
+  // A save went through: the schedule now holds what was saved (merged stops included) and its new revision
+  const handleRouteSaved = (route: HexagonSchedule) => {
+    setSchedules(prev => prev.map(schedule => schedule.id === route.id
+      ? {
+          ...schedule,
+          hexagons: route.hexagons.map(hexagon => ({
+            ...hexagon,
+            polygonId: polygons.find(p => p.allH3Indexes.includes(hexagon.hexagonId))?.id || hexagon.polygonId,
+          })),
+          base: route.base,
+        }
+      : schedule));
+  };
+
+  const handleScheduleDelete = (id: string, removedSavedRows: boolean) => {
+    if (removedSavedRows) {
+      // The saved rows are gone, so a copy brought back by undo is a new route; saving it creates the rows again
+      setHistory((prev) => rewriteHistory(prev, (state) => ({
+        ...state,
+        schedules: state.schedules.map(schedule => (schedule.id === id ? {...schedule, base: undefined} : schedule)),
+      })));
+    }
+    recordCommand(`Delete schedule "${schedules.find(s => s.id === id)?.name ?? ''}"`);
     setSchedules(prev => prev.filter(schedule => schedule.id !== id));
     
     toast({
@@ -302,30 +973,23 @@ export default function Home() {
     });
   };
 
-  const handleScheduleDuplicate = (id: string) => {
+  // The schedule tab picks the copy's days; a copy that would overlap is opened in the editor instead
+  const handleScheduleDuplicate = (id: string, duplicatedRecurrence: RecurrenceRule) => {
     const scheduleToDuplicate = schedules.find(s => s.id === id);
     if (!scheduleToDuplicate) return;
 
-    // Enforce one route per terminal
-    const terminalIdForSchedule = scheduleToDuplicate.terminalId || '';
-    const alreadyHasRouteForTerminal = schedules.some(s => s.terminalId === terminalIdForSchedule);
-    if (alreadyHasRouteForTerminal) {
-      toast({
-        variant: 'destructive',
-        title: 'Limit Reached',
-        description: 'Only one route per terminal is allowed. Edit the existing route instead.',
-      });
-      return;
-    }
-
     const duplicatedSchedule: HexagonSchedule = {
       ...scheduleToDuplicate,
       id: generateScheduleId(),
       name: `${scheduleToDuplicate.name} (Copy)`,
+      base: undefined, // a new route, not saved yet
+      recurrence: duplicatedRecurrence,
+      exceptions: [],
       createdAt: new Date(),
       updatedAt: new Date(),
     };
     
+    recordCommand(`Duplicate schedule "${scheduleToDuplicate.name}"`);
     setSchedules(prev => [...prev, duplicatedSchedule]);
     
     toast({
@@ -352,6 +1016,7 @@ export default function Home() {
     // Merge loaded routes with existing schedules
     // Avoid duplicates by checking IDs
     // Also fix polygonId for each hexagon
+    recordCommand('Load routes');
     setSchedules(prev => {
       const existingIds = new Set(prev.map(s => s.id));
       const newRoutes = loadedRoutes.filter(route => !existingIds.has(route.id));
@@ -359,6 +1024,7 @@ export default function Home() {
       // Fix polygonId for each hexagon in the loaded routes
       const fixedRoutes = newRoutes.map(route => ({
         ...route,
+        timeZone: route.timeZone ?? getTerminalTimeZone(route.terminalId),
         hexagons: route.hexagons.map(hexagon => ({
           ...hexagon,
           polygonId: polygons.find(p => p.allH3Indexes.includes(hexagon.hexagonId))?.id || 0,
@@ -389,6 +1055,11 @@ export default function Home() {
           setTerminalHexagons(result.data);
         } else {
           console.error('Failed to load hexagons for terminal:', result.error);
+          toast({
+            variant: 'destructive',
+            title: 'Could not load terminal hexagons',
+            description: result.error,
+          });
           setTerminalHexagons([]);
         }
       } catch (error) {
@@ -398,10 +1069,13 @@ export default function Home() {
     };
 
     loadTerminalHexagons();
-  }, [selectedTerminalId]);
+  }, [selectedTerminalId, sheetDataVersion]);
 
   const handleHexagonSelect = (hexagonId: string) => {
-    const allTimeSlots = generateTimeSlots();
+    // The window picked in the editor; with no route open, today's window at the terminal, in its zone
+    const today = getDateKeyWeekday(toDateKey(new Date(), getTerminalTimeZone(selectedTerminalId)));
+    const operatingWindow = scheduleDraft?.operatingWindow ?? getOperatingWindowsFor(operatingWindows, selectedTerminalId, today)[0];
+    const allTimeSlots = generateTimeSlots(operatingWindow);
     const assignedTimeSlots = scheduledHexagons.map(h => h.timeSlot);
     const nextSlot = getNextAvailableTimeSlot(allTimeSlots, assignedTimeSlots);
     
@@ -435,6 +1109,7 @@ export default function Home() {
     
     if (isScheduled) {
       // If already scheduled, deselect it
+      recordCommand('Unschedule hexagon');
       handleHexagonDeselect(hexagonId);
     } else {
       // If not scheduled, add it to selected hexagons (this will trigger time input in ScheduleEditor)
@@ -451,6 +1126,11 @@ export default function Home() {
     });
   };
 
+  const handleOperatingWindowsChange = (windows: OperatingWindow[]) => {
+    recordCommand('Edit operating windows');
+    setOperatingWindows(windows);
+  };
+
   const handleHexagonSelectWithCustomTime = (hexagonId: string, timeSlot: any, duration: number) => {
     const hexagonNumber = getHexagonNumber(hexagonId, Array.from(selectedH3Indexes));
     const polygonId = polygons.find(p => p.allH3Indexes.includes(hexagonId))?.id || 0;
@@ -472,14 +1152,63 @@ export default function Home() {
   const sessionHexagons = Array.from(selectedH3Indexes);
   const availableHexagons = Array.from(new Set([...sessionHexagons, ...terminalHexagons]));
 
+  const isEditingRoute = activeTab === 'schedules' && (scheduleView === 'create' || scheduleView === 'edit');
+
+  // Map selection tools pick route stops while a route is open, and polygon hexagons otherwise
+  const handleSelectShape = (shape: SelectionShape) => {
+    try {
+      selectShapeCells(shape);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Selection not applied',
+        description: error instanceof Error ? error.message : 'The shape could not be used to select hexagons.',
+      });
+    }
+  };
+
+  const selectShapeCells = (shape: SelectionShape) => {
+    if (isEditingRoute) {
+      if (isTimeInputOpen) return;
+      const current = scheduledHexagons.map(h => h.hexagonId);
+      const cells = getShapeCells(shape, availableHexagons, ringRadius);
+      const next = applySelectionMode(new Set(current), cells, selectionMode);
+      const add = cells.filter(cell => next.has(cell) && !current.includes(cell));
+      const remove = current.filter(cell => !next.has(cell));
+      if (add.length > 0 || remove.length > 0) setStopSelectionRequest({add, remove});
+      return;
+    }
+
+    const candidates = Array.from(new Set(polygons.flatMap(p => p.allH3Indexes)));
+    const cells = getShapeCells(shape, candidates, ringRadius);
+    if (cells.length === 0 && selectionMode !== 'intersect') return;
+    recordCommand(`Map ${shape.type} (${selectionMode} ${cells.length} hexagons)`);
+    setSelectedH3Indexes(prev => applySelectionMode(prev, cells, selectionMode));
+  };
+
 
   return (
     <ResizableSidebarProvider defaultWidth={320} minWidth={200} maxWidth={500}>
       <ResizableSidebar>
         <ResizableSidebarHeader>
-          <div className="flex items-center gap-3 p-2">
+          <div className="flex flex-wrap items-center gap-3 p-2">
             <Layers className="h-8 w-8 text-primary" />
             <h1 className="font-headline text-xl font-semibold">GeoHex Uberizer</h1>
+            <div className="ml-auto flex items-center gap-1">
+              <SessionMenu
+                currentSession={currentSession}
+                sessions={savedSessions}
+                lastSavedAt={lastSavedAt}
+                onNew={handleNewSession}
+                onSwitch={handleSwitchSession}
+                onRename={handleRenameSession}
+                onDelete={handleDeleteSession}
+              />
+              <ShareLinkButton link={deepLink} />
+              <HistoryMenu history={history} onUndo={handleUndo} onRedo={handleRedo} onJump={goToHistoryEntry} />
+              <DataSourceSettings />
+              <ExportMenu polygons={polygons} selectedH3Indexes={selectedH3Indexes} schedules={schedules} />
+            </div>
           </div>
         </ResizableSidebarHeader>
         <ResizableSidebarContent>
@@ -492,7 +1221,7 @@ export default function Home() {
             </TabsList>
             
             <TabsContent value="input" className="mt-4">
-              <PolygonForm onSubmit={handlePolygonSubmit} />
+              <PolygonForm onSubmit={handlePolygonSubmit} defaultResolution={defaultResolution} />
               <PolygonList
                 polygons={polygons}
                 selectedH3Indexes={selectedH3Indexes}
@@ -500,12 +1229,17 @@ export default function Home() {
                 onSelectAll={handleSelectAllInPolygon}
                 onHexHover={handleHexHover}
                 onRemovePolygon={handleRemovePolygon}
+                onPolyfillOptionsChange={handlePolyfillOptionsChange}
                 onClearAll={handleClearAll}
+                onPolygonSaved={(id, wkt) => setPolygons((prev) => prev.map((p) => (p.id === id ? {...p, sourceWkt: wkt} : p)))}
+                onZoomToPolygon={handleZoomToPolygon}
+                onZoomToHexagon={(index) => handleZoomToCells([index])}
               />
             </TabsContent>
             
             <TabsContent value="schedules" className="mt-4">
               <ScheduleTab
+                key={`${currentSession?.id}-${historyVersion}`}
                 schedules={schedules}
                 availableHexagons={availableHexagons}
                 onScheduleCreate={handleScheduleCreate}
@@ -517,14 +1251,25 @@ export default function Home() {
                 onHexagonSelectWithCustomTime={handleHexagonSelectWithCustomTime}
                 selectedHexagons={selectedHexagonsForSchedule}
                 scheduledHexagons={scheduledHexagons}
+                operatingWindows={operatingWindows}
+                onOperatingWindowsChange={handleOperatingWindowsChange}
                 onRoutesLoaded={handleRoutesLoaded}
+                onRouteSaved={handleRouteSaved}
+                onDataRefreshed={() => setSheetDataVersion(version => version + 1)}
                 onViewChange={handleScheduleViewChange}
                 onLocalScheduledHexagonsChange={handleLocalScheduledHexagonsChange}
                 selectedTerminalId={selectedTerminalId}
+                terminalTimeZone={getTerminalTimeZone(selectedTerminalId)}
+                terminalLocation={getTerminalLocation(selectedTerminalId)}
                 onClearSchedulingState={handleClearSchedulingState}
                 onHexagonVisualSelect={(hexagonId) => setSelectedHexagonsForSchedule(prev => new Set([...prev, hexagonId]))}
                 onTimeInputOpenChange={(open) => setIsTimeInputOpen(open)}
                 onEditHexagonChange={(hexId) => setEditingHexagonId(hexId)}
+                initialDraft={scheduleDraft}
+                onDraftChange={setScheduleDraft}
+                onCommand={recordCommand}
+                onZoomToCells={handleZoomToCells}
+                stopSelectionRequest={stopSelectionRequest}
               />
             </TabsContent>
           </Tabs>
@@ -532,21 +1277,71 @@ export default function Home() {
       </ResizableSidebar>
       <ResizableSidebarInset>
         <main className="relative h-screen w-full">
-          <div className="absolute left-4 top-4 z-10">
+          {/* Above Leaflet's panes, and clear of its zoom control */}
+          <div className="absolute left-14 top-4 z-[1000] flex items-center gap-2">
             <ResizableSidebarTrigger />
+            <MapLayersMenu
+              basemaps={basemaps}
+              selectedBasemapId={basemap.id}
+              onBasemapChange={handleBasemapChange}
+              onAddBasemap={handleAddBasemap}
+              onRemoveBasemap={handleRemoveBasemap}
+              overlays={mapOverlays}
+              onOverlaysChange={setMapOverlays}
+              offlineError={offlineTilesError}
+            />
+            <HexDataMenu
+              layer={hexAttributes}
+              onImport={handleImportHexAttributes}
+              onClear={handleClearHexAttributes}
+              settings={choroplethSettings}
+              onSettingsChange={setChoroplethSettings}
+              mapResolution={polygons[polygons.length - 1]?.resolution}
+            />
           </div>
           <MapComponent
-            key={mapKey}
-            polygons={polygons.map((p) => p.leafletPolygon)}
+            polygons={polygons}
             hexagons={renderedHexagons}
             hoveredHexIndex={hoveredHexIndex}
             scheduledHexagons={scheduledHexagons}
             selectedHexagonsForSchedule={selectedHexagonsForSchedule}
-            onHexagonClick={activeTab === 'schedules' && (scheduleView === 'create' || scheduleView === 'edit') ? handleMapHexagonClick : undefined}
+            onHexagonClick={isEditingRoute ? handleMapHexagonClick : undefined}
             editingHexagonId={editingHexagonId}
+            onPolygonCreate={handleDrawnPolygonCreate}
+            onPolygonEdit={handlePolygonEdit}
+            onPolygonRemove={handleRemovePolygon}
+            viewportRequest={viewportRequest}
+            onViewportChange={handleViewportChange}
+            defaultView={mapSettings.defaultView}
+            basemap={basemap}
+            overlays={mapOverlays}
+            terminalOutlines={neighbourOutlines}
+            selectionTool={selectionTool}
+            onSelectShape={handleSelectShape}
+            choropleth={choropleth}
           />
+          {choropleth && (
+            // Clear of Leaflet's attribution in the corner
+            <div className="absolute bottom-8 right-2 z-[1000]">
+              <ChoroplethLegend legend={choropleth.legend} />
+            </div>
+          )}
+          {(polygons.length > 0 || isEditingRoute) && (
+            <div className="absolute bottom-6 left-4 z-[1000]">
+              <MapSelectionToolbar
+                tool={selectionTool}
+                onToolChange={setSelectionTool}
+                mode={selectionMode}
+                onModeChange={setSelectionMode}
+                ringRadius={ringRadius}
+                onRingRadiusChange={setRingRadius}
+                target={isEditingRoute ? 'stops' : 'hexagons'}
+              />
+            </div>
+          )}
         </main>
       </ResizableSidebarInset>
+      <SessionRestoreDialog session={restoreCandidate} onRestore={handleRestoreSession} onStartFresh={handleStartFresh} />
     </ResizableSidebarProvider>
   );
 }
@@ -0,0 +1,32 @@
+import { readOfflineTile } from '@/lib/offline-tiles';
+
+// Tiles of the offline basemap, at /tiles/{z}/{x}/{y} like any XYZ tile server
+
+const parseTileCoordinate = (value: string): number | null => {
+  return /^\d+$/.test(value) ? parseInt(value, 10) : null;
+};
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ z: string; x: string; y: string }> }
+) {
+  const { z, x, y } = await params;
+  const [zoom, column, row] = [z, x, y].map(parseTileCoordinate);
+  if (zoom === null || column === null || row === null) {
+    return new Response('Tile coordinates must be whole numbers', { status: 400 });
+  }
+
+  try {
+    const tile = await readOfflineTile(zoom, column, row);
+    if (!tile) return new Response(null, { status: 404 });
+    return new Response(new Uint8Array(tile.data), {
+      headers: {
+        'Content-Type': tile.contentType,
+        'Cache-Control': 'public, max-age=86400',
+      },
+    });
+  } catch (error) {
+    console.error('Error reading offline tile:', error);
+    return new Response('Could not read the offline tiles.', { status: 500 });
+  }
+}
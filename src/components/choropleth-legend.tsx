@@ -0,0 +1,32 @@
+'use client';
+
+import type { ChoroplethLegend as Legend } from '@/types/hex-attributes';
+import { formatClassRange } from '@/lib/hex-attributes';
+
+type ChoroplethLegendProps = {
+  legend: Legend;
+};
+
+/**
+ * Key for the hexagon data on the map: one swatch per class or category, with its cell count
+ */
+export default function ChoroplethLegend({ legend }: ChoroplethLegendProps) {
+  const rows = legend.kind === 'numeric'
+    ? legend.classes.map(({ min, max, color, count }) => ({ key: `${min}-${max}`, label: formatClassRange(min, max), color, count }))
+    : legend.categories.map(({ value, color, count }) => ({ key: value, label: value, color, count }));
+
+  return (
+    <div className="max-w-56 rounded-md border bg-background p-2 text-xs shadow-md">
+      <div className="mb-1 truncate font-medium" title={legend.attribute}>{legend.attribute}</div>
+      <ul className="space-y-0.5">
+        {rows.map(({ key, label, color, count }) => (
+          <li key={key} className="flex items-center gap-2">
+            <span className="h-3 w-4 shrink-0 rounded-sm border" style={{ backgroundColor: color }} />
+            <span className="flex-1 truncate">{label}</span>
+            <span className="text-muted-foreground">{count}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface DataFreshnessProps {
+  fetchedAt?: number; // when the server read the data, ms since epoch
+  isRefreshing: boolean;
+  onRefresh: () => void;
+}
+
+/**
+ * "Data as of" line with a button that reloads past the server's sheet cache
+ */
+export default function DataFreshness({ fetchedAt, isRefreshing, onRefresh }: DataFreshnessProps) {
+  return (
+    <div className="flex items-center justify-between text-xs text-muted-foreground">
+      <span>
+        {fetchedAt
+          ? `Data as of ${new Date(fetchedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}`
+          : 'Not loaded yet'}
+      </span>
+      <Button type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={onRefresh} disabled={isRefreshing}>
+        <RefreshCw className={`h-3 w-3 mr-1 ${isRefreshing ? 'animate-spin' : ''}`} />
+        Refresh
+      </Button>
+    </div>
+  );
+}
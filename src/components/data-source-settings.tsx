@@ -0,0 +1,469 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Plus, Settings } from 'lucide-react';
+import { getDataSourceSettings, saveDataSourceSettings, selectDataSourceWorkspace } from '@/app/actions';
+import { DATA_ENVIRONMENTS, DATA_SOURCE_COLUMNS } from '@/lib/data-sources';
+import type {
+  DataEnvironment,
+  DataSourceRegistry,
+  DataSourceRole,
+  DataSourceSet,
+  WorkspaceConfig,
+  WriteTarget,
+} from '@/types/data-sources';
+import type { StorageBackend } from '@/types/storage';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { useToast } from '@/hooks/use-toast';
+
+const ENVIRONMENT_LABELS: Record<DataEnvironment, string> = {
+  staging: 'Staging',
+  production: 'Production',
+};
+
+const ROLE_LABELS: Record<DataSourceRole, string> = {
+  polygons: 'Polygon sheet',
+  routes: 'Route sheet',
+};
+
+const STORAGE_LABELS: Record<StorageBackend, string> = {
+  'google-sheets': 'Google Sheets',
+  sqlite: 'SQLite file',
+  directory: 'CSV folder',
+};
+
+const EMPTY_SOURCES: DataSourceSet = {
+  polygons: { url: '', columns: {} },
+  routes: { url: '', columns: {} },
+  writeTarget: { webhookUrl: '' },
+};
+
+interface SettingsState {
+  activeWorkspaceId: string;
+  envOverrides: string[];
+  configFile: string;
+  writable: boolean;
+}
+
+export default function DataSourceSettings() {
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [registry, setRegistry] = useState<DataSourceRegistry | null>(null);
+  const [settings, setSettings] = useState<SettingsState | null>(null);
+  const [workspaceId, setWorkspaceId] = useState('');
+  const [environment, setEnvironment] = useState<DataEnvironment>('production');
+  const { toast } = useToast();
+
+  const workspace = registry?.workspaces.find(w => w.id === workspaceId);
+  const sources = workspace?.environments[environment];
+  const storageType = sources?.storage?.type ?? 'google-sheets';
+
+  const handleOpenChange = async (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) return;
+
+    setIsLoading(true);
+    const result = await getDataSourceSettings();
+    setIsLoading(false);
+
+    if (!result.success || !result.data) {
+      toast({ variant: 'destructive', title: 'Could not load data sources', description: result.error });
+      return;
+    }
+
+    const { registry: loaded, ...rest } = result.data;
+    const active = loaded.workspaces.find(w => w.id === rest.activeWorkspaceId) ?? loaded.workspaces[0];
+    setRegistry(loaded);
+    setSettings(rest);
+    setWorkspaceId(active?.id ?? '');
+    setEnvironment(active?.environment ?? 'production');
+  };
+
+  const updateWorkspace = (changes: Partial<WorkspaceConfig>) => {
+    setRegistry(prev => prev && {
+      ...prev,
+      workspaces: prev.workspaces.map(w => (w.id === workspaceId ? { ...w, ...changes } : w)),
+    });
+  };
+
+  const updateSources = (changes: Partial<DataSourceSet>) => {
+    if (!workspace) return;
+    updateWorkspace({
+      environments: { ...workspace.environments, [environment]: { ...(sources ?? EMPTY_SOURCES), ...changes } },
+    });
+  };
+
+  const updateWriteTarget = (changes: Partial<WriteTarget>) => {
+    if (!sources) return;
+    const writeTarget = { ...sources.writeTarget, ...changes };
+    // Empty optional targets fall back to the read sheets
+    if (!writeTarget.routesUrl) delete writeTarget.routesUrl;
+    if (!writeTarget.polygonsUrl) delete writeTarget.polygonsUrl;
+    updateSources({ writeTarget });
+  };
+
+  const updateStorage = (type: StorageBackend) => {
+    const path = sources?.storage && sources.storage.type !== 'google-sheets' ? sources.storage.path : '';
+    updateSources({ storage: type === 'google-sheets' ? undefined : { type, path } });
+  };
+
+  const updateSourceUrl = (role: DataSourceRole, url: string) => {
+    if (!sources) return;
+    updateSources({ [role]: { ...sources[role], url } });
+  };
+
+  const updateColumn = (role: DataSourceRole, canonical: string, header: string) => {
+    if (!sources) return;
+    const columns = { ...sources[role].columns };
+    if (header) {
+      columns[canonical] = header;
+    } else {
+      delete columns[canonical];
+    }
+    updateSources({ [role]: { ...sources[role], columns } });
+  };
+
+  const handleAddWorkspace = () => {
+    if (!registry) return;
+    let n = registry.workspaces.length + 1;
+    while (registry.workspaces.some(w => w.id === `workspace-${n}`)) n++;
+
+    // Start from the current workspace's sources so the new one is valid right away
+    const created: WorkspaceConfig = {
+      id: `workspace-${n}`,
+      name: `Workspace ${n}`,
+      environment: workspace?.environment ?? 'production',
+      environments: structuredClone(workspace?.environments ?? { production: EMPTY_SOURCES }),
+    };
+    setRegistry({ ...registry, workspaces: [...registry.workspaces, created] });
+    setWorkspaceId(created.id);
+    setEnvironment(created.environment);
+  };
+
+  const handleRemoveWorkspace = () => {
+    if (!registry || registry.workspaces.length <= 1) return;
+    const workspaces = registry.workspaces.filter(w => w.id !== workspaceId);
+    setRegistry({
+      defaultWorkspaceId: registry.defaultWorkspaceId === workspaceId ? workspaces[0].id : registry.defaultWorkspaceId,
+      workspaces,
+    });
+    setWorkspaceId(workspaces[0].id);
+    setEnvironment(workspaces[0].environment);
+  };
+
+  const handleSave = async () => {
+    if (!registry) return;
+    setIsSaving(true);
+    const result = await saveDataSourceSettings(registry);
+
+    if (result.success && workspaceId !== settings?.activeWorkspaceId) {
+      await selectDataSourceWorkspace(workspaceId);
+    }
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast({ variant: 'destructive', title: 'Could not save data sources', description: result.error });
+      return;
+    }
+
+    toast({ title: 'Data Sources Saved', description: 'Reloading with the new sources.' });
+    window.location.reload();
+  };
+
+  const handleUseInThisBrowser = async () => {
+    const result = await selectDataSourceWorkspace(workspaceId);
+    if (!result.success) {
+      toast({ variant: 'destructive', title: 'Could not switch workspace', description: result.error });
+      return;
+    }
+    window.location.reload();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Data sources">
+          <Settings className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Data Sources</DialogTitle>
+          <DialogDescription>
+            Sheets this app reads polygons and routes from, and where it writes them.
+            {settings && <> Stored in <code className="text-xs">{settings.configFile}</code>.</>}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !registry || !settings ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {settings.envOverrides.length > 0 && (
+              <Alert>
+                <AlertDescription>
+                  The default workspace&apos;s live sources are overridden by {settings.envOverrides.join(', ')}.
+                </AlertDescription>
+              </Alert>
+            )}
+            {!settings.writable && (
+              <Alert>
+                <AlertDescription>
+                  Editing is turned off in this deployment. Set GEOHEX_DATA_SOURCES_EDITABLE=true on the server to allow it.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="workspace-select">Workspace</Label>
+                <Select
+                  value={workspaceId}
+                  onValueChange={(id) => {
+                    setWorkspaceId(id);
+                    setEnvironment(registry.workspaces.find(w => w.id === id)?.environment ?? 'production');
+                  }}
+                >
+                  <SelectTrigger id="workspace-select">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {registry.workspaces.map(w => (
+                      <SelectItem key={w.id} value={w.id}>
+                        {w.name}
+                        {w.id === registry.defaultWorkspaceId && ' (default)'}
+                        {w.id === settings.activeWorkspaceId && ' · in use'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button variant="outline" onClick={handleAddWorkspace} disabled={!settings.writable}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </div>
+
+            {workspace && (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="workspace-name">Name</Label>
+                    <Input
+                      id="workspace-name"
+                      value={workspace.name}
+                      onChange={(e) => updateWorkspace({ name: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="workspace-live">Live Environment</Label>
+                    <Select
+                      value={workspace.environment}
+                      onValueChange={(value) => updateWorkspace({ environment: value as DataEnvironment })}
+                    >
+                      <SelectTrigger id="workspace-live">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DATA_ENVIRONMENTS.map(env => (
+                          <SelectItem key={env} value={env}>{ENVIRONMENT_LABELS[env]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {workspace.id !== registry.defaultWorkspaceId && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setRegistry({ ...registry, defaultWorkspaceId: workspace.id })}
+                    >
+                      Make Default
+                    </Button>
+                  )}
+                  {workspace.id !== settings.activeWorkspaceId && (
+                    <Button size="sm" variant="outline" onClick={handleUseInThisBrowser}>
+                      Use in This Browser
+                    </Button>
+                  )}
+                  {registry.workspaces.length > 1 && (
+                    <Button size="sm" variant="outline" className="text-destructive" onClick={handleRemoveWorkspace}>
+                      Remove
+                    </Button>
+                  )}
+                </div>
+
+                <Separator />
+
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">Sources for</span>
+                  {DATA_ENVIRONMENTS.map(env => (
+                    <Button
+                      key={env}
+                      size="sm"
+                      variant={env === environment ? 'secondary' : 'ghost'}
+                      onClick={() => setEnvironment(env)}
+                    >
+                      {ENVIRONMENT_LABELS[env]}
+                      {env === workspace.environment && <Badge className="ml-2 text-xs">Live</Badge>}
+                    </Button>
+                  ))}
+                </div>
+
+                {!sources ? (
+                  <div className="text-sm text-muted-foreground">
+                    No {ENVIRONMENT_LABELS[environment].toLowerCase()} sources yet.{' '}
+                    <Button
+                      variant="link"
+                      className="h-auto p-0"
+                      onClick={() => updateSources(structuredClone(workspace.environments[workspace.environment] ?? EMPTY_SOURCES))}
+                    >
+                      Copy from {ENVIRONMENT_LABELS[workspace.environment].toLowerCase()}
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    <div className="grid grid-cols-3 gap-2">
+                      <div className="space-y-1">
+                        <Label htmlFor="source-storage">Storage</Label>
+                        <Select value={storageType} onValueChange={(value) => updateStorage(value as StorageBackend)}>
+                          <SelectTrigger id="source-storage">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(STORAGE_LABELS) as StorageBackend[]).map(type => (
+                              <SelectItem key={type} value={type}>{STORAGE_LABELS[type]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {sources.storage && sources.storage.type !== 'google-sheets' && (
+                        <div className="col-span-2 space-y-1">
+                          <Label htmlFor="source-storage-path">
+                            {sources.storage.type === 'sqlite' ? 'Database File' : 'Folder'}
+                          </Label>
+                          <Input
+                            id="source-storage-path"
+                            value={sources.storage.path}
+                            placeholder={sources.storage.type === 'sqlite' ? 'data/geohex.db' : 'data/geohex'}
+                            onChange={(e) => updateSources({ storage: { type: storageType as 'sqlite' | 'directory', path: e.target.value } })}
+                          />
+                        </div>
+                      )}
+                    </div>
+                    {storageType === 'google-sheets' && (
+                      <>
+                        {(Object.keys(ROLE_LABELS) as DataSourceRole[]).map(role => (
+                          <div key={role} className="space-y-1">
+                            <Label htmlFor={`source-${role}`}>{ROLE_LABELS[role]} URL</Label>
+                            <Input
+                              id={`source-${role}`}
+                              value={sources[role].url}
+                              placeholder="https://docs.google.com/spreadsheets/d/...#gid=0"
+                              onChange={(e) => updateSourceUrl(role, e.target.value)}
+                            />
+                          </div>
+                        ))}
+                        <div className="space-y-1">
+                          <Label htmlFor="source-webhook">Write Webhook URL</Label>
+                          <Input
+                            id="source-webhook"
+                            value={sources.writeTarget.webhookUrl}
+                            placeholder="https://script.google.com/macros/s/.../exec"
+                            onChange={(e) => updateWriteTarget({ webhookUrl: e.target.value })}
+                          />
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                          <div className="space-y-1">
+                            <Label htmlFor="source-routes-write" className="text-xs">Write Routes To (optional)</Label>
+                            <Input
+                              id="source-routes-write"
+                              value={sources.writeTarget.routesUrl ?? ''}
+                              placeholder="Route sheet"
+                              onChange={(e) => updateWriteTarget({ routesUrl: e.target.value })}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label htmlFor="source-polygons-write" className="text-xs">Write Polygons To (optional)</Label>
+                            <Input
+                              id="source-polygons-write"
+                              value={sources.writeTarget.polygonsUrl ?? ''}
+                              placeholder="Polygon sheet"
+                              onChange={(e) => updateWriteTarget({ polygonsUrl: e.target.value })}
+                            />
+                          </div>
+                        </div>
+                      </>
+                    )}
+
+                    {/* The SQLite schema has fixed column names */}
+                    {storageType !== 'sqlite' && (
+                      <Accordion type="multiple">
+                        {(Object.keys(ROLE_LABELS) as DataSourceRole[]).map(role => (
+                          <AccordionItem key={role} value={role}>
+                            <AccordionTrigger className="text-sm">
+                              {ROLE_LABELS[role]} columns
+                              {Object.keys(sources[role].columns).length > 0 && (
+                                <Badge variant="secondary" className="ml-auto mr-2 text-xs">
+                                  {Object.keys(sources[role].columns).length} mapped
+                                </Badge>
+                              )}
+                            </AccordionTrigger>
+                            <AccordionContent>
+                              <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+                                {DATA_SOURCE_COLUMNS[role].map(canonical => (
+                                  <div key={canonical} className="flex items-center gap-2">
+                                    <Label className="w-28 flex-shrink-0 text-xs">{canonical}</Label>
+                                    <Input
+                                      className="h-8 text-xs"
+                                      value={sources[role].columns[canonical] ?? ''}
+                                      placeholder={canonical}
+                                      onChange={(e) => updateColumn(role, canonical, e.target.value)}
+                                    />
+                                  </div>
+                                ))}
+                              </div>
+                            </AccordionContent>
+                          </AccordionItem>
+                        ))}
+                      </Accordion>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!registry || !settings?.writable || isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save and Reload
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import type { PolygonData } from '@/types/geometry';
+import type { HexagonSchedule } from '@/types/scheduling';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import {
+  buildExportFeatures,
+  downloadBlob,
+  exportFeatures,
+  getExportFileName,
+  type ExportFormat,
+} from '@/lib/geometry-export';
+
+type ExportMenuProps = {
+  polygons: PolygonData[];
+  selectedH3Indexes: Set<string>;
+  schedules: HexagonSchedule[];
+};
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  geojson: 'GeoJSON',
+  kml: 'KML (with time spans)',
+  csv: 'CSV',
+  shapefile: 'Shapefile (.zip)',
+};
+
+export default function ExportMenu({ polygons, selectedH3Indexes, schedules }: ExportMenuProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const isEmpty = polygons.length === 0 && selectedH3Indexes.size === 0 && schedules.length === 0;
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      const features = buildExportFeatures({
+        polygons,
+        selectedH3Indexes: Array.from(selectedH3Indexes),
+        schedules,
+      });
+      const blob = await exportFeatures(features, format);
+      downloadBlob(blob, getExportFileName(format));
+      toast({
+        title: 'Export Ready',
+        description: `Exported ${features.length} features as ${FORMAT_LABELS[format]}.`,
+      });
+    } catch (error) {
+      console.error('Error exporting features:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Export Failed',
+        description: error instanceof Error ? error.message : 'An unknown error occurred.',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={isEmpty || isExporting} title="Export polygons, hexagons and routes">
+          {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((format) => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            {FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,301 @@
+'use client';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { FileUp, Loader2 } from 'lucide-react';
+import { useForm } from 'react-hook-form';
+import * as z from 'zod';
+import { useState, useMemo, useEffect } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { useToast } from '@/hooks/use-toast';
+import {
+  importGeometryFile,
+  getFeaturePropertyNames,
+  guessTerminalIdProperty,
+  type GeometryImportResult,
+} from '@/lib/geometry-import';
+import { CONTAINMENT_MODES, DEFAULT_CONTAINMENT_MODE, geometryToWkt } from '@/lib/geometry-utils';
+import type { ContainmentMode } from '@/types/geometry';
+
+const ALL_FEATURES = '__all__';
+
+const formSchema = z.object({
+  terminalIdProperty: z.string().optional(),
+  selectedTerminalId: z.string().optional(),
+  resolution: z.coerce.number().min(0).max(15),
+  containmentMode: z.enum(['center', 'full', 'overlapping', 'overlappingBbox']),
+});
+
+type FileImportFormProps = {
+  onSubmit: (values: { wkts: string[]; resolution: number; containmentMode: ContainmentMode; terminalId?: string; timeZone?: string }) => void;
+  defaultResolution?: number;
+};
+
+export default function FileImportForm({ onSubmit, defaultResolution = 10 }: FileImportFormProps) {
+  const [importResult, setImportResult] = useState<GeometryImportResult | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      resolution: defaultResolution,
+      containmentMode: DEFAULT_CONTAINMENT_MODE,
+    },
+  });
+
+  // A shared link can arrive after the form is mounted
+  useEffect(() => {
+    form.setValue('resolution', defaultResolution);
+  }, [defaultResolution]);
+
+  const { watch } = form;
+  const watchedProperty = watch('terminalIdProperty');
+  const watchedTerminalId = watch('selectedTerminalId');
+
+  const propertyNames = useMemo(() => {
+    return importResult ? getFeaturePropertyNames(importResult.features) : [];
+  }, [importResult]);
+
+  const terminalIds = useMemo(() => {
+    if (!importResult || !watchedProperty) return [];
+    const ids = new Set<string>();
+    importResult.features.forEach((feature) => {
+      const id = feature.properties[watchedProperty];
+      if (id) ids.add(id);
+    });
+    return Array.from(ids).sort();
+  }, [importResult, watchedProperty]);
+
+  // When the mapped property changes, clear terminal selection
+  useEffect(() => {
+    form.setValue('selectedTerminalId', undefined);
+  }, [watchedProperty]);
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+
+    setIsImporting(true);
+    setImportResult(null);
+    setFileName(file.name);
+
+    try {
+      const result = await importGeometryFile(file);
+      setImportResult(result);
+      form.setValue('terminalIdProperty', guessTerminalIdProperty(getFeaturePropertyNames(result.features)));
+      form.setValue('selectedTerminalId', undefined);
+
+      if (result.errors.length > 0) {
+        console.warn('Skipped features during import:', result.errors);
+        toast({
+          variant: 'destructive',
+          title: `${result.errors.length} feature(s) skipped`,
+          description: result.errors.slice(0, 3).join('\n') + (result.errors.length > 3 ? '\n…' : ''),
+        });
+      }
+
+      toast({
+        title: 'File Loaded',
+        description: `Found ${result.features.length} polygon feature(s) in ${file.name}.`,
+      });
+    } catch (error) {
+      console.error('Error importing geometry file:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Failed to import file',
+        description: error instanceof Error ? error.message : 'An unknown error occurred.',
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Runs with the values the zod resolver has checked and coerced
+  const handleImport = ({ terminalIdProperty, selectedTerminalId, resolution, containmentMode }: z.infer<typeof formSchema>) => {
+    if (!importResult) return;
+
+    const useAll = !terminalIdProperty || !selectedTerminalId || selectedTerminalId === ALL_FEATURES;
+    const wkts = importResult.features
+      .filter((feature) => useAll || feature.properties[terminalIdProperty] === selectedTerminalId)
+      .map((feature) => geometryToWkt(feature.geometry));
+
+    if (wkts.length === 0) {
+      toast({
+        variant: 'destructive',
+        title: 'No polygons found',
+        description: `Could not find any polygons for Terminal ID "${selectedTerminalId}".`,
+      });
+      return;
+    }
+
+    onSubmit({ wkts, resolution, containmentMode, terminalId: useAll ? undefined : selectedTerminalId });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleImport)} className="space-y-6 px-2">
+        <div className="space-y-2">
+          <Label htmlFor="geometry-file">Polygon File</Label>
+          <Input
+            id="geometry-file"
+            type="file"
+            accept=".geojson,.json,.kml,.kmz,.zip"
+            onChange={(e) => handleFileChange(e.target.files?.[0])}
+            disabled={isImporting}
+          />
+          <p className="text-sm text-muted-foreground">
+            GeoJSON, KML, KMZ or a zipped shapefile (.shp + .dbf) in WGS84.
+          </p>
+        </div>
+
+        {isImporting && (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="animate-spin mr-2" />
+            <span>Reading {fileName}...</span>
+          </div>
+        )}
+
+        {importResult && propertyNames.length > 0 && (
+          <FormField
+            control={form.control}
+            name="terminalIdProperty"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Terminal ID Field</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a property" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {propertyNames.map((name) => (
+                      <SelectItem key={name} value={name}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Feature property that holds the Terminal ID.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {importResult && watchedProperty && (
+          <FormField
+            control={form.control}
+            name="selectedTerminalId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Select Terminal ID</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a Terminal ID" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={ALL_FEATURES}>All features ({importResult.features.length})</SelectItem>
+                    {terminalIds.map((id) => (
+                      <SelectItem key={id} value={id}>
+                        {id}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="resolution"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>H3 Resolution</FormLabel>
+              <Select
+                onValueChange={(value) => field.onChange(parseInt(value, 10))}
+                defaultValue={String(field.value)}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a resolution" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Array.from({ length: 16 }, (_, i) => (
+                    <SelectItem key={i} value={String(i)}>
+                      {i}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                Select the H3 resolution (0 is largest, 15 is smallest).
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="containmentMode"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Containment</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a containment mode" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {CONTAINMENT_MODES.map((mode) => (
+                    <SelectItem key={mode.value} value={mode.value}>
+                      {mode.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                {CONTAINMENT_MODES.find((mode) => mode.value === field.value)?.description}. Can be changed per polygon later.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={isImporting || !importResult || importResult.features.length === 0 || (!!watchedProperty && !watchedTerminalId)}
+        >
+          <FileUp className="mr-2 h-4 w-4" />
+          Generate Hexagons
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -26,35 +26,46 @@ import {
 } from '@/components/ui/select';
 import { Input } from './ui/input';
 import { useToast } from '@/hooks/use-toast';
-import { fetchGoogleSheetData } from '@/app/actions';
+import { fetchGoogleSheetData, refreshSheetData } from '@/app/actions';
+import { CONTAINMENT_MODES, DEFAULT_CONTAINMENT_MODE } from '@/lib/geometry-utils';
+import type { ContainmentMode } from '@/types/geometry';
+import type { PolygonSheetRow, SheetRowError } from '@/types/storage';
+import SheetRowErrors from './sheet-row-errors';
+import DataFreshness from './data-freshness';
 
 const formSchema = z.object({
   selectedPitstopKey: z.string().optional(),
   selectedTerminalId: z.string().optional(),
   resolution: z.coerce.number().min(0).max(15),
+  containmentMode: z.enum(['center', 'full', 'overlapping', 'overlappingBbox']),
 });
 
-type SheetData = {
-  headers: string[];
-  rows: string[][];
-};
-
 type GoogleSheetFormProps = {
-  onSubmit: (values: { wkts: string[]; resolution: number; terminalId?: string }) => void;
+  onSubmit: (values: { wkts: string[]; resolution: number; containmentMode: ContainmentMode; terminalId?: string; timeZone?: string }) => void;
+  defaultResolution?: number;
 };
 
-export default function GoogleSheetForm({ onSubmit }: GoogleSheetFormProps) {
-  const [sheetData, setSheetData] = useState<SheetData | null>(null);
+export default function GoogleSheetForm({ onSubmit, defaultResolution = 10 }: GoogleSheetFormProps) {
+  const [sheetData, setSheetData] = useState<PolygonSheetRow[] | null>(null);
+  const [rowErrors, setRowErrors] = useState<SheetRowError[]>([]);
+  const [fetchError, setFetchError] = useState<string>();
+  const [fetchedAt, setFetchedAt] = useState<number>();
   const [isFetching, setIsFetching] = useState(false);
   const { toast } = useToast();
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
-      resolution: 10,
+      resolution: defaultResolution,
+      containmentMode: DEFAULT_CONTAINMENT_MODE,
     },
   });
 
+  // A shared link can arrive after the form is mounted
+  useEffect(() => {
+    form.setValue('resolution', defaultResolution);
+  }, [defaultResolution]);
+
   // Automatically fetch sheet data on component mount
   useEffect(() => {
     handleFetchSheet();
@@ -70,14 +81,11 @@ export default function GoogleSheetForm({ onSubmit }: GoogleSheetFormProps) {
 
   const uniquePitstops: Pitstop[] = useMemo(() => {
     if (!sheetData) return [];
-    const psNameIndex = sheetData.headers.indexOf('PS Name');
-    const pitstopIdIndex = sheetData.headers.indexOf('Pitstop ID');
-    if (psNameIndex === -1) return [];
 
     const map = new Map<string, Pitstop>();
-    sheetData.rows.forEach(row => {
-      const psName = row[psNameIndex] || '';
-      const pitstopId = pitstopIdIndex !== -1 ? (row[pitstopIdIndex] || '') : '';
+    sheetData.forEach(row => {
+      const psName = row['PS Name'];
+      const pitstopId = row['Pitstop ID'];
       if (!psName) return;
       const key = `${psName}:::${pitstopId}`;
       if (!map.has(key)) {
@@ -89,17 +97,7 @@ export default function GoogleSheetForm({ onSubmit }: GoogleSheetFormProps) {
 
   const uniqueTerminalIds = useMemo(() => {
     if (!sheetData) return [];
-    const terminalIdColumnIndex = sheetData.headers.indexOf('Terminal ID');
-    if (terminalIdColumnIndex === -1) return [];
-    
-    const ids = new Set<string>();
-    sheetData.rows.forEach(row => {
-        const id = row[terminalIdColumnIndex];
-        if (id) {
-            ids.add(id);
-        }
-    });
-    return Array.from(ids).sort();
+    return Array.from(new Set(sheetData.map(row => row['Terminal ID']))).sort();
   }, [sheetData]);
 
   const filteredTerminalIds = useMemo(() => {
@@ -107,20 +105,10 @@ export default function GoogleSheetForm({ onSubmit }: GoogleSheetFormProps) {
     if (!watchedSelectedPitstopKey) return [];
     const [selectedPsName, selectedPitstopId] = watchedSelectedPitstopKey.split(':::');
 
-    const terminalIdIndex = sheetData.headers.indexOf('Terminal ID');
-    const psNameIndex = sheetData.headers.indexOf('PS Name');
-    const pitstopIdIndex = sheetData.headers.indexOf('Pitstop ID');
-    if (terminalIdIndex === -1 || psNameIndex === -1) return [];
-
     const ids = new Set<string>();
-    sheetData.rows.forEach(row => {
-      const psName = row[psNameIndex] || '';
-      const pitId = pitstopIdIndex !== -1 ? (row[pitstopIdIndex] || '') : '';
-      const matchesPs = psName === selectedPsName;
-      const matchesPit = pitstopIdIndex !== -1 ? (pitId === selectedPitstopId) : true;
-      if (matchesPs && matchesPit) {
-        const id = row[terminalIdIndex];
-        if (id) ids.add(id);
+    sheetData.forEach(row => {
+      if (row['PS Name'] === selectedPsName && row['Pitstop ID'] === selectedPitstopId) {
+        ids.add(row['Terminal ID']);
       }
     });
     return Array.from(ids).sort();
@@ -134,42 +122,37 @@ export default function GoogleSheetForm({ onSubmit }: GoogleSheetFormProps) {
   }, [watchedSelectedPitstopKey]);
 
 
-  const handleFetchSheet = async () => {
+  // A refresh keeps the current rows and selection on screen until the new rows arrive
+  const handleFetchSheet = async (isRefresh = false) => {
     setIsFetching(true);
-    setSheetData(null);
-    form.reset({ 
-        ...form.getValues(), 
-        selectedPitstopKey: undefined,
-        selectedTerminalId: undefined 
-    });
+    setFetchError(undefined);
+    if (!isRefresh) {
+      setSheetData(null);
+      setRowErrors([]);
+      form.reset({ 
+          ...form.getValues(), 
+          selectedPitstopKey: undefined,
+          selectedTerminalId: undefined 
+      });
+    }
 
     const result = await fetchGoogleSheetData();
 
     if (result.success && result.data) {
       setSheetData(result.data);
-      
-      // Check if required columns exist
-      const hasTerminalIdColumn = result.data.headers.includes('Terminal ID');
-      const hasPolygonColumn = result.data.headers.includes('Polygon');
-      
-      if (!hasTerminalIdColumn || !hasPolygonColumn) {
-        toast({
-          variant: 'destructive',
-          title: 'Missing Required Columns',
-          description: 'The sheet must contain "Terminal ID" and "Polygon" columns.',
-        });
-        setIsFetching(false);
-        return;
-      }
-      
-      const hasPsName = result.data.headers.includes('PS Name');
+      setRowErrors(result.rowErrors ?? []);
+      setFetchedAt(result.fetchedAt);
+
+      const hasPsName = result.data.some(row => row['PS Name']);
       toast({
         title: 'Sheet Loaded',
         description: hasPsName
-          ? `Found ${result.data.rows.length} rows. Please select a Pitstop.`
-          : `Found ${result.data.rows.length} rows. Please select a Terminal ID.`,
+          ? `Found ${result.data.length} rows. Please select a Pitstop.`
+          : `Found ${result.data.length} rows. Please select a Terminal ID.`,
       });
     } else {
+      // Shown in the form as well, since a renamed header keeps every terminal from loading
+      setFetchError(result.error);
       toast({
         variant: 'destructive',
         title: 'Failed to fetch sheet',
@@ -179,8 +162,17 @@ export default function GoogleSheetForm({ onSubmit }: GoogleSheetFormProps) {
     setIsFetching(false);
   };
 
+  const handleRefresh = async () => {
+    setIsFetching(true);
+    const result = await refreshSheetData();
+    if (!result.success) {
+      toast({ variant: 'destructive', title: 'Failed to refresh', description: result.error });
+    }
+    await handleFetchSheet(true);
+  };
+
   const handleSubmit = () => {
-    const { selectedTerminalId, resolution } = form.getValues();
+    const { selectedTerminalId, resolution, containmentMode } = form.getValues();
     if (!selectedTerminalId || !sheetData) {
       toast({
           variant: 'destructive',
@@ -190,13 +182,10 @@ export default function GoogleSheetForm({ onSubmit }: GoogleSheetFormProps) {
       return;
     }
     
-    const terminalIdColIndex = sheetData.headers.indexOf('Terminal ID');
-    const polygonColIndex = sheetData.headers.indexOf('Polygon');
-
-    const wkts = sheetData.rows
-        .filter(row => row[terminalIdColIndex] === selectedTerminalId)
-        .map(row => row[polygonColIndex])
-        .filter((wkt): wkt is string => !!wkt);
+    const terminalRows = sheetData.filter(row => row['Terminal ID'] === selectedTerminalId);
+    const wkts = terminalRows.map(row => row['Polygon']);
+    // Optional column; without it the zone is looked up from the polygon centroid
+    const timeZone = terminalRows.map(row => row['Time Zone']).find(zone => !!zone);
 
 
     if (wkts.length === 0) {
@@ -208,7 +197,7 @@ export default function GoogleSheetForm({ onSubmit }: GoogleSheetFormProps) {
         return;
     }
     
-    onSubmit({ wkts, resolution, terminalId: selectedTerminalId });
+    onSubmit({ wkts, resolution, containmentMode, terminalId: selectedTerminalId, timeZone });
   };
 
   return (
@@ -220,13 +209,17 @@ export default function GoogleSheetForm({ onSubmit }: GoogleSheetFormProps) {
         }}
         className="space-y-6 px-2"
       >
-        {isFetching && (
+        <DataFreshness fetchedAt={fetchedAt} isRefreshing={isFetching} onRefresh={handleRefresh} />
+
+        {isFetching && !sheetData && (
           <div className="flex items-center justify-center p-4">
             <Loader2 className="animate-spin mr-2" />
             <span>Loading polygon data from Google Sheets...</span>
           </div>
         )}
 
+        <SheetRowErrors title="Polygon sheet" errors={rowErrors} error={fetchError} />
+
         {sheetData && uniquePitstops.length > 0 && (
           <FormField
             control={form.control}
@@ -319,6 +312,33 @@ export default function GoogleSheetForm({ onSubmit }: GoogleSheetFormProps) {
             </FormItem>
           )}
         />
+        <FormField
+          control={form.control}
+          name="containmentMode"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Containment</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a containment mode" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {CONTAINMENT_MODES.map((mode) => (
+                    <SelectItem key={mode.value} value={mode.value}>
+                      {mode.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                {CONTAINMENT_MODES.find((mode) => mode.value === field.value)?.description}. Can be changed per polygon later.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
         <Button
           type="submit"
           className="w-full"
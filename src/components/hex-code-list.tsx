@@ -1,7 +1,7 @@
 
 'use client';
 
-import {Copy} from 'lucide-react';
+import {Copy, LocateFixed} from 'lucide-react';
 import {Button} from '@/components/ui/button';
 import {ScrollArea} from '@/components/ui/scroll-area';
 import {useToast} from '@/hooks/use-toast';
@@ -15,6 +15,7 @@ type HexCodeListProps = {
   onSelectionChange: (index: string, selected: boolean) => void;
   onSelectAll: (allIndexes: string[], selectAll: boolean) => void;
   onHexHover: (index: string | null) => void;
+  onZoomToHexagon?: (index: string) => void;
 };
 
 export default function HexCodeList({
@@ -23,6 +24,7 @@ export default function HexCodeList({
   onSelectionChange,
   onSelectAll,
   onHexHover,
+  onZoomToHexagon,
 }: HexCodeListProps) {
   const {toast} = useToast();
 
@@ -71,6 +73,17 @@ export default function HexCodeList({
               <Label htmlFor={hex} className="w-full">
                 {index + 1} - {hex}
               </Label>
+              {onZoomToHexagon && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-5 w-5 flex-shrink-0"
+                  onClick={() => onZoomToHexagon(hex)}
+                  title="Zoom to hexagon"
+                >
+                  <LocateFixed className="h-3 w-3" />
+                </Button>
+              )}
             </div>
           ))}
         </div>
@@ -0,0 +1,369 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { BarChart3, FileUp, Loader2, Sheet } from 'lucide-react';
+import { getResolution, isValidCell } from 'h3-js';
+import type { SheetTable } from '@/types/storage';
+import type { AttributeAggregation, ChoroplethSettings, ClassingMethod, HexAttributeLayer } from '@/types/hex-attributes';
+import {
+  AGGREGATIONS,
+  CLASSING_METHODS,
+  MAX_CLASS_COUNT,
+  MIN_CLASS_COUNT,
+  guessHexagonIdColumn,
+  importHexAttributes,
+} from '@/lib/hex-attributes';
+import { parseCsvTable } from '@/lib/storage/sheet-table';
+import { fetchHexagonAttributeSheet } from '@/app/actions';
+import SheetRowErrors from '@/components/sheet-row-errors';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+
+type HexDataMenuProps = {
+  layer: HexAttributeLayer | null;
+  onImport: (layer: HexAttributeLayer) => void;
+  onClear: () => void;
+  settings: ChoroplethSettings;
+  onSettingsChange: (settings: ChoroplethSettings) => void;
+  mapResolution?: number; // resolution of the polygons on the map, offered as the aggregation target
+};
+
+type ImportSource = 'file' | 'sheet';
+
+const AS_IMPORTED = 'as-imported';
+const RESOLUTIONS = Array.from({ length: 16 }, (_, i) => i);
+const CLASS_COUNTS = Array.from({ length: MAX_CLASS_COUNT - MIN_CLASS_COUNT + 1 }, (_, i) => i + MIN_CLASS_COUNT);
+
+// Finest resolution among the table's cells, to suggest aggregating to the map's resolution
+const getFinestResolution = (table: SheetTable, idColumn: string): number | null => {
+  const idIndex = table.headers.indexOf(idColumn);
+  const resolutions = table.rows
+    .map(row => row[idIndex]?.trim() ?? '')
+    .filter(id => isValidCell(id))
+    .map(id => getResolution(id));
+  return resolutions.length > 0 ? Math.max(...resolutions) : null;
+};
+
+/**
+ * Per-hexagon attributes (demand, order volume, ...) imported from a CSV or sheet, and how they are classed on the map
+ */
+export default function HexDataMenu({
+  layer,
+  onImport,
+  onClear,
+  settings,
+  onSettingsChange,
+  mapResolution,
+}: HexDataMenuProps) {
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [source, setSource] = useState<ImportSource>('file');
+  const [sheetUrl, setSheetUrl] = useState('');
+  const [table, setTable] = useState<{ name: string; data: SheetTable } | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [idColumn, setIdColumn] = useState('');
+  const [resolution, setResolution] = useState<number | null>(null);
+  const [aggregation, setAggregation] = useState<AttributeAggregation>('sum');
+
+  // Parsed again whenever an option changes, so the row problems shown match what would be imported
+  const preview = useMemo(() => {
+    if (!table || !idColumn) return null;
+    try {
+      return importHexAttributes(table.data, table.name, { idColumn, resolution, aggregation });
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Could not read the table.' };
+    }
+  }, [table, idColumn, resolution, aggregation]);
+
+  const resetImport = () => {
+    setTable(null);
+    setLoadError(null);
+    setIdColumn('');
+    setResolution(null);
+  };
+
+  const handleImportOpen = () => {
+    resetImport();
+    setIsImportOpen(true);
+  };
+
+  const handleTableLoaded = (name: string, data: SheetTable) => {
+    const guessed = guessHexagonIdColumn(data.headers) ?? '';
+    const finest = guessed ? getFinestResolution(data, guessed) : null;
+    setTable({ name, data });
+    setIdColumn(guessed);
+    // Finer data is aggregated up to the cells on the map by default
+    setResolution(mapResolution !== undefined && finest !== null && finest > mapResolution ? mapResolution : null);
+  };
+
+  const loadTable = async (name: string, load: () => Promise<SheetTable>) => {
+    resetImport();
+    setIsLoading(true);
+    try {
+      handleTableLoaded(name, await load());
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Could not read the table.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFileChange = (file: File | undefined) => {
+    if (!file) return;
+    loadTable(file.name, async () => parseCsvTable(await file.text()));
+  };
+
+  const handleSheetLoad = () => {
+    loadTable(sheetUrl.trim(), async () => {
+      const result = await fetchHexagonAttributeSheet(sheetUrl.trim());
+      if (!result.success || !result.data) throw new Error(result.error ?? 'Could not read the sheet.');
+      return result.data;
+    });
+  };
+
+  const handleImport = () => {
+    if (!preview || 'error' in preview) return;
+    onImport(preview.layer);
+    setIsImportOpen(false);
+  };
+
+  const selectedAttribute = layer?.attributes.find(({ name }) => name === settings.attribute) ?? layer?.attributes[0];
+  const importedCells = preview && !('error' in preview) ? Object.keys(preview.layer.values).length : 0;
+
+  return (
+    <>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" title="Hexagon data">
+            <BarChart3 className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-72 p-0">
+          <div className="border-b px-3 py-2 text-sm font-medium">Hexagon data</div>
+          {layer ? (
+            <div className="space-y-3 p-3">
+              <p className="truncate text-xs text-muted-foreground" title={layer.source}>
+                {Object.keys(layer.values).length} cells from {layer.source}
+                {layer.resolution !== null && ` (res ${layer.resolution}, ${layer.aggregation})`}
+              </p>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="choropleth-visible">Show on map</Label>
+                <Switch
+                  id="choropleth-visible"
+                  checked={settings.visible}
+                  onCheckedChange={(visible) => onSettingsChange({ ...settings, visible })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="choropleth-attribute">Attribute</Label>
+                <Select
+                  value={selectedAttribute?.name}
+                  onValueChange={(attribute) => onSettingsChange({ ...settings, attribute })}
+                >
+                  <SelectTrigger id="choropleth-attribute">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {layer.attributes.map(({ name, kind }) => (
+                      <SelectItem key={name} value={name}>
+                        {name} {kind === 'categorical' && '(categories)'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {selectedAttribute?.kind === 'numeric' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="choropleth-method">Classes</Label>
+                    <Select
+                      value={settings.method}
+                      onValueChange={(method) => onSettingsChange({ ...settings, method: method as ClassingMethod })}
+                    >
+                      <SelectTrigger id="choropleth-method">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CLASSING_METHODS.map(({ value, label }) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="choropleth-class-count">Count</Label>
+                    <Select
+                      value={String(settings.classCount)}
+                      onValueChange={(value) => onSettingsChange({ ...settings, classCount: parseInt(value, 10) })}
+                    >
+                      <SelectTrigger id="choropleth-class-count">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CLASS_COUNTS.map(count => (
+                          <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+              <Separator />
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" className="flex-1" onClick={handleImportOpen}>Replace</Button>
+                <Button variant="ghost" size="sm" className="flex-1" onClick={onClear}>Remove</Button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2 p-3">
+              <p className="text-xs text-muted-foreground">
+                Import numbers or categories per cell, keyed by <code>hexagon_id</code>, and show them as a choropleth.
+              </p>
+              <Button variant="outline" size="sm" className="w-full" onClick={handleImportOpen}>
+                <FileUp className="mr-2 h-4 w-4" />
+                Import CSV or sheet
+              </Button>
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      <Dialog open={isImportOpen} onOpenChange={setIsImportOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Import Hexagon Data</DialogTitle>
+            <DialogDescription>
+              One row per H3 cell; every column besides the hexagon ID becomes an attribute.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="hex-data-source">Source</Label>
+              <Select value={source} onValueChange={(value) => setSource(value as ImportSource)}>
+                <SelectTrigger id="hex-data-source">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="file">CSV file</SelectItem>
+                  <SelectItem value="sheet">Google Sheet</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {source === 'file' ? (
+              <Input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+                disabled={isLoading}
+              />
+            ) : (
+              <div className="flex gap-2">
+                <Input
+                  value={sheetUrl}
+                  onChange={(e) => setSheetUrl(e.target.value)}
+                  placeholder="https://docs.google.com/spreadsheets/d/..."
+                />
+                <Button variant="outline" onClick={handleSheetLoad} disabled={isLoading || !sheetUrl.trim()}>
+                  <Sheet className="mr-2 h-4 w-4" />
+                  Load
+                </Button>
+              </div>
+            )}
+            {isLoading && (
+              <p className="flex items-center text-sm text-muted-foreground">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Reading…
+              </p>
+            )}
+            {loadError && <p className="text-sm text-destructive">{loadError}</p>}
+
+            {table && (
+              <>
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="hex-data-id-column">Hexagon ID</Label>
+                    <Select value={idColumn} onValueChange={setIdColumn}>
+                      <SelectTrigger id="hex-data-id-column">
+                        <SelectValue placeholder="Column" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {table.data.headers.filter(Boolean).map(header => (
+                          <SelectItem key={header} value={header}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="hex-data-resolution">Resolution</Label>
+                    <Select
+                      value={resolution === null ? AS_IMPORTED : String(resolution)}
+                      onValueChange={(value) => setResolution(value === AS_IMPORTED ? null : parseInt(value, 10))}
+                    >
+                      <SelectTrigger id="hex-data-resolution">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={AS_IMPORTED}>As imported</SelectItem>
+                        {RESOLUTIONS.map(res => (
+                          <SelectItem key={res} value={String(res)}>Res {res}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="hex-data-aggregation">Combine</Label>
+                    <Select value={aggregation} onValueChange={(value) => setAggregation(value as AttributeAggregation)}>
+                      <SelectTrigger id="hex-data-aggregation">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {AGGREGATIONS.map(({ value, label }) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Rows on the same cell, or finer than the chosen resolution, are combined; categories keep their most common value.
+                </p>
+                {preview && 'error' in preview && <p className="text-sm text-destructive">{preview.error}</p>}
+                {preview && !('error' in preview) && (
+                  <>
+                    <p className="text-sm">
+                      {importedCells} cells, {preview.layer.attributes.length} attribute{preview.layer.attributes.length !== 1 ? 's' : ''}
+                      {preview.layer.attributes.length > 0 && `: ${preview.layer.attributes.map(({ name }) => name).join(', ')}`}
+                    </p>
+                    <SheetRowErrors title={table.name} errors={preview.errors} />
+                  </>
+                )}
+              </>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsImportOpen(false)}>Cancel</Button>
+            <Button
+              onClick={handleImport}
+              disabled={!preview || 'error' in preview || importedCells === 0 || preview.layer.attributes.length === 0}
+            >
+              Import
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
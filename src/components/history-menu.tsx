@@ -0,0 +1,73 @@
+'use client';
+
+import { useState } from 'react';
+import { History, Redo2, Undo2 } from 'lucide-react';
+import { canRedo, canUndo, type HistoryStack } from '@/lib/history';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+
+type HistoryMenuProps = {
+  history: HistoryStack<unknown>;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+};
+
+const formatEntryTime = (date: Date) => date.toLocaleTimeString(undefined, { timeStyle: 'short' });
+
+/**
+ * Undo/redo buttons plus the list of recorded commands; picking one goes back (or forward) to it
+ */
+export default function HistoryMenu({ history, onUndo, onRedo, onJump }: HistoryMenuProps) {
+  const [open, setOpen] = useState(false);
+
+  const undoLabel = canUndo(history) ? `Undo ${history.entries[history.index].label} (Ctrl+Z)` : 'Nothing to undo';
+  const redoLabel = canRedo(history) ? `Redo ${history.entries[history.index + 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo';
+
+  const handleJump = (index: number) => {
+    onJump(index);
+    setOpen(false);
+  };
+
+  return (
+    <div className="flex items-center">
+      <Button variant="ghost" size="sm" onClick={onUndo} disabled={!canUndo(history)} title={undoLabel}>
+        <Undo2 className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="sm" onClick={onRedo} disabled={!canRedo(history)} title={redoLabel}>
+        <Redo2 className="h-4 w-4" />
+      </Button>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" disabled={history.entries.length <= 1} title="History">
+            <History className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-64 p-0">
+          <div className="border-b px-3 py-2 text-sm font-medium">History</div>
+          <div className="max-h-72 overflow-y-auto">
+            <ol className="flex flex-col-reverse p-1">
+              {history.entries.map((entry, i) => (
+                <li key={entry.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleJump(i)}
+                    className={cn(
+                      'flex w-full items-center justify-between gap-2 rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent',
+                      i === history.index && 'bg-accent font-medium',
+                      i > history.index && 'text-muted-foreground line-through'
+                    )}
+                  >
+                    <span className="truncate">{entry.label}</span>
+                    <span className="shrink-0 text-xs text-muted-foreground">{formatEntryTime(entry.at)}</span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -4,6 +4,24 @@
 import {useEffect, useRef} from 'react';
 import type {LatLngExpression, LatLngLiteral} from 'leaflet';
 import L from 'leaflet';
+import '@geoman-io/leaflet-geoman-free';
+import '@geoman-io/leaflet-geoman-free/dist/leaflet-geoman.css';
+import type {
+  ContainmentMode,
+  LeafletPolygon,
+  MapViewport,
+  MultiPolygonCoordinates,
+  SelectionShape,
+  SelectionTool,
+  ViewportRequest,
+} from '@/types/geometry';
+import {circleToGeometry, CONTAINMENT_MODES, fromGeoJsonGeometry} from '@/lib/geometry-utils';
+import {HexagonCanvasLayer, type HexagonStyle} from '@/lib/hexagon-canvas-layer';
+import {MapSelectionHandler} from '@/lib/map-selection-handler';
+import {BUILT_IN_BASEMAPS, DEFAULT_MAP_OVERLAYS, getBasemapTileUrl} from '@/lib/basemaps';
+import type {Basemap, MapOverlays, TerminalOutline} from '@/types/map-layers';
+import type {Choropleth} from '@/types/hex-attributes';
+import {cellToBoundary, getHexagonAreaAvg, polygonToCells} from 'h3-js';
 
 type Hexagon = {
   index: string;
@@ -11,26 +29,159 @@ type Hexagon = {
   number: number;
 };
 
+type MapPolygon = {
+  id: number;
+  leafletPolygon: LeafletPolygon;
+  resolution?: number;
+  containmentMode?: ContainmentMode;
+  cellCounts?: Record<ContainmentMode, number>;
+  allH3Indexes?: string[];
+};
+
 type MapComponentProps = {
-  polygons: LatLngLiteral[][];
+  polygons: MapPolygon[];
   hexagons: Hexagon[];
   hoveredHexIndex: string | null;
   scheduledHexagons?: { hexagonId: string; hexagonNumber: number; timeSlot: { start: string; end: string } }[];
   selectedHexagonsForSchedule?: Set<string>;
   onHexagonClick?: (hexagonId: string) => void;
   editingHexagonId?: string | null;
+  onPolygonCreate?: (geometry: MultiPolygonCoordinates) => void;
+  onPolygonEdit?: (polygonId: number, geometry: MultiPolygonCoordinates) => void;
+  onPolygonRemove?: (polygonId: number) => void;
+  viewportRequest?: ViewportRequest; // applied once per new request object
+  onViewportChange?: (viewport: MapViewport) => void;
+  defaultView?: MapViewport; // shown when a fit finds nothing to fit
+  basemap?: Basemap;
+  overlays?: MapOverlays;
+  terminalOutlines?: TerminalOutline[]; // other terminals, shown with the neighbouring-terminals overlay
+  selectionTool?: SelectionTool | null;
+  onSelectShape?: (shape: SelectionShape) => void; // a rectangle, lasso, ring or line drawn to select cells
+  choropleth?: Choropleth | null; // imported attribute data, drawn under the hexagons
+};
+
+// Only layers that explicitly set pmIgnore: false (the source polygons) get edit handles
+L.PM.setOptIn(true);
+
+const polygonStyle = () => {
+  const primaryColor = 'hsl(var(--primary))';
+  return {
+    color: primaryColor,
+    weight: 2,
+    opacity: 0.9,
+    fillColor: primaryColor,
+    fillOpacity: 0.2,
+  };
+};
+
+const layerToGeometry = (layer: L.Layer): MultiPolygonCoordinates => {
+  if (layer instanceof L.Circle) {
+    return circleToGeometry(layer.getLatLng(), layer.getRadius());
+  }
+  if (layer instanceof L.Polygon) {
+    return fromGeoJsonGeometry(layer.toGeoJSON().geometry);
+  }
+  return [];
+};
+
+// Hover summary comparing the cell count of every containment mode, current mode in bold
+const polygonTooltip = ({resolution, containmentMode, cellCounts, allH3Indexes}: MapPolygon): string => {
+  if (!cellCounts) return '';
+  const rows = CONTAINMENT_MODES.map(({value, label}) => {
+    const row = `${label}: ${cellCounts[value]}`;
+    return value === containmentMode ? `<b>${row}</b>` : row;
+  });
+  const header = `Res ${resolution} &bull; ${allH3Indexes?.length ?? 0} cells shown`;
+  return [header, ...rows].join('<br/>');
+};
+
+const DEFAULT_VIEW: MapViewport = {lat: 40.7128, lng: -74.006, zoom: 2};
+const MAX_FIT_ZOOM = 17; // zooming to a single small cell stops here rather than at the tile limit
+const MAX_MAP_ZOOM = 20; // past a basemap's own zoom range its tiles are scaled up
+const MAX_GRID_CELLS = 3000; // the grid overlay is left empty rather than drawing more than this
+
+const createTileLayer = ({source, attribution}: Basemap): L.TileLayer => {
+  const options: L.TileLayerOptions = {attribution, maxZoom: MAX_MAP_ZOOM};
+  if (source.type === 'xyz') {
+    options.maxNativeZoom = source.maxZoom ?? 18;
+    if (source.subdomains) options.subdomains = source.subdomains;
+  } else if (source.type === 'offline') {
+    options.minNativeZoom = source.minZoom;
+    options.maxNativeZoom = source.maxZoom;
+  } else {
+    options.maxNativeZoom = 18;
+  }
+  return L.tileLayer(getBasemapTileUrl(source), options);
+};
+
+// Cells of the grid overlay in view, or none when the view would hold too many to draw
+const getGridCells = (bounds: L.LatLngBounds, resolution: number): string[] => {
+  const south = Math.max(bounds.getSouth(), -85);
+  const north = Math.min(bounds.getNorth(), 85);
+  const west = bounds.getWest();
+  const east = bounds.getEast();
+  if (east - west >= 180 || north <= south) return [];
+
+  // Estimated from the view's area so an over-dense grid is never generated
+  const kmPerDegree = 111.32;
+  const midLatitude = ((north + south) / 2) * Math.PI / 180;
+  const areaKm2 = (north - south) * kmPerDegree * (east - west) * kmPerDegree * Math.cos(midLatitude);
+  if (areaKm2 / getHexagonAreaAvg(resolution, 'km2') > MAX_GRID_CELLS) return [];
+
+  return polygonToCells([[south, west], [north, west], [north, east], [south, east]], resolution);
+};
+
+const NEIGHBOUR_STYLE: L.PathOptions = {color: '#64748b', weight: 2, opacity: 0.8, dashArray: '6 4', fillOpacity: 0.05};
+const GRID_STYLE: L.PathOptions = {color: '#64748b', weight: 1, opacity: 0.5, fill: false, interactive: false};
+const DATA_PANE = {name: 'hexagonData', zIndex: 440}; // between the source polygons and the hexagons
+
+const dataStyle = (color: string): HexagonStyle => ({color, weight: 1, opacity: 0.9, fillColor: color, fillOpacity: 0.65});
+
+const getCellsBounds = (cells: string[]): L.LatLngBounds => {
+  // [lat, lng] pairs without the GeoJSON flag
+  return L.latLngBounds(cells.flatMap((cell) => cellToBoundary(cell)));
+};
+
+// Canvas cannot resolve CSS variables, so theme colors are read once from the document
+const getThemeColor = (variable: string): string => {
+  const value = getComputedStyle(document.documentElement).getPropertyValue(variable).trim();
+  return value ? `hsl(${value})` : 'gray';
 };
 
-const getCenter = (boundary: LatLngLiteral[]): LatLngExpression => {
-  const lats = boundary.map(p => p.lat);
-  const lngs = boundary.map(p => p.lng);
-  const minLat = Math.min(...lats);
-  const maxLat = Math.max(...lats);
-  const minLng = Math.min(...lngs);
-  const maxLng = Math.max(...lngs);
-  return [(minLat + maxLat) / 2, (minLng + maxLng) / 2];
+type HexagonState = {
+  isHovered: boolean;
+  isScheduled: boolean;
+  isSelectedForSchedule: boolean;
+  isEditing: boolean;
+  stopNumber: number; // position in the route, 0 when not scheduled
+  hasData: boolean; // the choropleth colors this cell, so only its outline is drawn on top
 };
 
+const hexagonStyle = ({isHovered, isScheduled, isSelectedForSchedule, isEditing, stopNumber, hasData}: HexagonState, highlightColor: string): HexagonStyle => {
+  // Show numbers for scheduled hexagons (edit mode) and for actively selected ones (create mode)
+  const label = (isScheduled || isSelectedForSchedule) && stopNumber > 0 ? String(stopNumber) : undefined;
+  const base = {weight: 3, opacity: 0.8, label};
+
+  if (isEditing) {
+    return {...base, color: '#f59e0b', fillColor: '#f59e0b', fillOpacity: 0.5, weight: 5}; // Amber for editing
+  }
+  if (isScheduled) {
+    return {...base, color: '#22c55e', fillColor: '#22c55e', fillOpacity: 0.4}; // Green for scheduled
+  }
+  if (isSelectedForSchedule) {
+    return {...base, color: '#3b82f6', fillColor: '#3b82f6', fillOpacity: 0.3}; // Blue for selected
+  }
+  if (isHovered) {
+    return {...base, color: 'red', fillColor: highlightColor, fillOpacity: 0.6};
+  }
+  return {...base, color: 'red', fillColor: 'red', fillOpacity: hasData ? 0 : 0.2};
+};
+
+const DEFAULT_HEXAGON_STYLE = hexagonStyle(
+  {isHovered: false, isScheduled: false, isSelectedForSchedule: false, isEditing: false, stopNumber: 0, hasData: false},
+  ''
+);
+
 export default function MapComponent({
   polygons, 
   hexagons, 
@@ -39,132 +190,275 @@ export default function MapComponent({
   selectedHexagonsForSchedule = new Set(),
   onHexagonClick,
   editingHexagonId = null,
+  onPolygonCreate,
+  onPolygonEdit,
+  onPolygonRemove,
+  viewportRequest,
+  onViewportChange,
+  defaultView = DEFAULT_VIEW,
+  basemap = BUILT_IN_BASEMAPS[0],
+  overlays = DEFAULT_MAP_OVERLAYS,
+  terminalOutlines = [],
+  selectionTool = null,
+  onSelectShape,
+  choropleth = null,
 }: MapComponentProps) {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstance = useRef<L.Map | null>(null);
-  const featureGroup = useRef<L.FeatureGroup | null>(null);
+  const hexagonLayer = useRef<HexagonCanvasLayer | null>(null);
+  const dataLayer = useRef<HexagonCanvasLayer | null>(null);
+  const highlightColor = useRef('');
+  const polygonGroup = useRef<L.FeatureGroup | null>(null);
+  const polygonLayers = useRef<Map<number, {layer: L.Polygon; leafletPolygon: LeafletPolygon}>>(new Map());
+  // Polygons whose next prop update came from our own edit; their layer already has the new shape
+  const selfEditedIds = useRef<Set<number>>(new Set());
+  const callbacks = useRef({onPolygonCreate, onPolygonEdit, onPolygonRemove, onViewportChange, onSelectShape});
+  callbacks.current = {onPolygonCreate, onPolygonEdit, onPolygonRemove, onViewportChange, onSelectShape};
+  const selectionHandler = useRef<MapSelectionHandler | null>(null);
+  const tileLayer = useRef<L.TileLayer | null>(null);
+  const gridGroup = useRef<L.LayerGroup | null>(null);
+  const neighbourGroup = useRef<L.FeatureGroup | null>(null);
+  // Read by the moveend handler, which outlives any one render
+  const gridResolution = useRef<number | null>(null);
+  const gridRenderer = useRef<L.Canvas | null>(null);
 
-  useEffect(() => {
-    if (!mapRef.current) return;
+  const drawGrid = () => {
+    const map = mapInstance.current;
+    const group = gridGroup.current;
+    if (!map || !group) return;
 
-    if (!mapInstance.current) {
-      mapInstance.current = L.map(mapRef.current).setView([40.7128, -74.006], 10);
+    group.clearLayers();
+    const resolution = gridResolution.current;
+    if (resolution === null) return;
 
-      L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-        attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
-      }).addTo(mapInstance.current);
+    gridRenderer.current ??= L.canvas({padding: 0.1});
+    const renderer = gridRenderer.current;
+    getGridCells(map.getBounds(), resolution).forEach((cell) => {
+      L.polygon(cellToBoundary(cell), {...GRID_STYLE, renderer}).addTo(group);
+    });
+  };
 
-      featureGroup.current = L.featureGroup().addTo(mapInstance.current);
+  const getRequestBounds = (request: ViewportRequest): L.LatLngBounds | null => {
+    switch (request.type) {
+      case 'fit-polygon':
+        return polygonLayers.current.get(request.polygonId)?.layer.getBounds() ?? null;
+      case 'fit-cells':
+        return request.cells.length > 0 ? getCellsBounds(request.cells) : null;
+      default: {
+        const polygonBounds = polygonGroup.current?.getLayers().length ? polygonGroup.current.getBounds() : null;
+        const hexagonBounds = hexagonLayer.current?.getBounds() ?? null;
+        return hexagonBounds && polygonBounds ? hexagonBounds.extend(polygonBounds) : hexagonBounds ?? polygonBounds;
+      }
     }
+  };
 
-    const map = mapInstance.current;
-    const group = featureGroup.current;
+  const setupDrawing = (map: L.Map) => {
+    map.pm.addControls({
+      position: 'topright',
+      drawMarker: false,
+      drawCircleMarker: false,
+      drawPolyline: false,
+      drawText: false,
+      cutPolygon: false,
+      rotateMode: false,
+    });
+    map.pm.setGlobalOptions({allowSelfIntersection: false});
+
+    map.on('pm:create', ({layer}) => {
+      const geometry = layerToGeometry(layer);
+      // The drawn layer is temporary; the polygon comes back through props once the parent adds it
+      layer.remove();
+      if (geometry.length > 0) {
+        callbacks.current.onPolygonCreate?.(geometry);
+      }
+    });
+
+    map.on('pm:remove', ({layer}) => {
+      const entry = Array.from(polygonLayers.current.entries()).find(([, value]) => value.layer === layer);
+      if (entry) {
+        polygonLayers.current.delete(entry[0]);
+        callbacks.current.onPolygonRemove?.(entry[0]);
+      }
+    });
+  };
+
+  useEffect(() => {
+    if (!mapRef.current || mapInstance.current) return;
+
+    mapInstance.current = L.map(mapRef.current, {maxZoom: MAX_MAP_ZOOM}).setView([defaultView.lat, defaultView.lng], defaultView.zoom);
+
+    mapInstance.current.on('moveend', () => {
+      const map = mapInstance.current;
+      if (!map) return;
+      const center = map.getCenter();
+      callbacks.current.onViewportChange?.({lat: center.lat, lng: center.lng, zoom: map.getZoom()});
+      drawGrid();
+    });
 
+    // Grid and neighbours sit under the source polygons; the grid shares one canvas
+    gridGroup.current = L.layerGroup().addTo(mapInstance.current);
+    neighbourGroup.current = L.featureGroup().addTo(mapInstance.current);
+    polygonGroup.current = L.featureGroup().addTo(mapInstance.current);
+    dataLayer.current = new HexagonCanvasLayer(DATA_PANE).addTo(mapInstance.current);
+    hexagonLayer.current = new HexagonCanvasLayer().addTo(mapInstance.current);
+    highlightColor.current = getThemeColor('--accent');
+    setupDrawing(mapInstance.current);
+
+    selectionHandler.current = new MapSelectionHandler(mapInstance.current)
+      .setShapeHandler((shape) => callbacks.current.onSelectShape?.(shape));
+    selectionHandler.current.enable();
+  }, []);
+
+  // Keep the source polygon layers alive across renders so edit handles survive hover/selection updates
+  useEffect(() => {
+    const group = polygonGroup.current;
     if (!group) return;
 
-    group.clearLayers();
+    const layers = polygonLayers.current;
+    const incomingIds = new Set(polygons.map((polygon) => polygon.id));
 
-    const primaryColor = 'hsl(var(--primary))';
-    const accentColor = 'hsl(var(--accent))';
-    const highlightColor = 'hsl(var(--accent))';
+    layers.forEach(({layer}, id) => {
+      if (!incomingIds.has(id)) {
+        group.removeLayer(layer);
+        layers.delete(id);
+      }
+    });
 
     polygons.forEach((polygon) => {
-        if (polygon && polygon.length > 0) {
-            L.polygon(polygon as LatLngExpression[], {
-              color: primaryColor,
-              weight: 2,
-              opacity: 0.9,
-              fillColor: primaryColor,
-              fillOpacity: 0.2,
-            }).addTo(group);
-          }
-    })
-
-    hexagons.forEach((hex) => {
-      const isHovered = hex.index === hoveredHexIndex;
-      const isScheduled = scheduledHexagons.some(sh => sh.hexagonId === hex.index);
-      const isSelectedForSchedule = selectedHexagonsForSchedule.has(hex.index);
-      const isEditing = editingHexagonId === hex.index;
-      
-      // Determine hexagon color based on state
-      let hexColor = 'red';
-      let fillColor = 'red';
-      let fillOpacity = 0.2;
-      let weight = 3;
-      
-      if (isEditing) {
-        hexColor = '#f59e0b'; // Amber for editing
-        fillColor = '#f59e0b';
-        fillOpacity = 0.5;
-        weight = 5;
-      } else if (isScheduled) {
-        hexColor = '#22c55e'; // Green for scheduled
-        fillColor = '#22c55e';
-        fillOpacity = 0.4;
-      } else if (isSelectedForSchedule) {
-        hexColor = '#3b82f6'; // Blue for selected
-        fillColor = '#3b82f6';
-        fillOpacity = 0.3;
-      } else if (isHovered) {
-        fillColor = highlightColor;
-        fillOpacity = 0.6;
+      const {id, leafletPolygon} = polygon;
+      const existing = layers.get(id);
+      if (existing && (existing.leafletPolygon === leafletPolygon || selfEditedIds.current.has(id))) {
+        existing.leafletPolygon = leafletPolygon;
+        selfEditedIds.current.delete(id);
+        existing.layer.setTooltipContent(polygonTooltip(polygon));
+        return;
       }
+      if (existing) {
+        group.removeLayer(existing.layer);
+      }
+      if (!leafletPolygon || leafletPolygon.length === 0) return;
 
-      const hexPolygon = L.polygon(hex.boundary as LatLngExpression[], {
-        color: hexColor,
-        weight: weight,
-        opacity: 0.8,
-        fillColor: fillColor,
-        fillOpacity: fillOpacity,
+      // Multipolygon with holes: Leaflet draws inner rings as cut-outs
+      const layer = L.polygon(leafletPolygon as LatLngExpression[][][], {
+        ...polygonStyle(),
+        pmIgnore: false,
       }).addTo(group);
+      layer.bindTooltip(polygonTooltip(polygon), {sticky: true});
 
-      const center = getCenter(hex.boundary);
-      
-      // Create marker with appropriate icon and click handler
-      let marker;
-      
-      // Show numbers for scheduled hexagons (edit mode) and for actively selected ones (create mode)
-      if (isScheduled || isSelectedForSchedule) {
-        // Get the selection order by finding the index in the scheduledHexagons array
-        const selectionOrder = scheduledHexagons.findIndex(sh => sh.hexagonId === hex.index) + 1;
-        
-        const numberIcon = L.divIcon({
-            className: 'hexagon-number-label',
-            html: `<div style="font-size: 12px; font-weight: bold; color: white; text-shadow: 0 0 5px black, 0 0 5px black;">${selectionOrder}</div>`,
-            iconSize: [24, 24],
-            iconAnchor: [12, 12]
-        });
-
-        marker = L.marker(center, { icon: numberIcon }).addTo(group);
-      } else {
-        // When not showing numbers, add an invisible marker for interaction
-        const invisibleIcon = L.divIcon({
-          className: 'invisible-marker',
-          html: '<div></div>',
-          iconSize: [24, 24],
-          iconAnchor: [12, 12]
-        });
-        marker = L.marker(center, { icon: invisibleIcon }).addTo(group);
-      }
-      
-      // Always add click handlers if provided, to both polygon and marker
-      if (onHexagonClick) {
-        hexPolygon.on('click', () => onHexagonClick(hex.index));
-        if (marker) {
-          marker.on('click', () => onHexagonClick(hex.index));
+      layer.on('pm:edit', () => {
+        const geometry = layerToGeometry(layer);
+        if (geometry.length > 0) {
+          selfEditedIds.current.add(id);
+          callbacks.current.onPolygonEdit?.(id, geometry);
         }
-      }
+      });
+
+      layers.set(id, {layer, leafletPolygon});
     });
+  }, [polygons]);
 
-    if (group.getLayers().length > 0) {
-      const bounds = group.getBounds();
-      if (bounds.isValid()) {
-        map.fitBounds(bounds, {padding: [50, 50]});
-      }
+  useEffect(() => {
+    hexagonLayer.current?.setHexagons(hexagons, DEFAULT_HEXAGON_STYLE);
+  }, [hexagons]);
+
+  useEffect(() => {
+    const map = mapInstance.current;
+    if (!map) return;
+    tileLayer.current?.remove();
+    tileLayer.current = createTileLayer(basemap).addTo(map);
+  }, [basemap]);
+
+  useEffect(() => {
+    const map = mapInstance.current;
+    const group = polygonGroup.current;
+    if (!map || !group) return;
+    // Hidden polygons still count when fitting the view
+    if (overlays.polygonOutlines) {
+      map.addLayer(group);
     } else {
-        map.setView([40.7128, -74.006], 2);
+      map.removeLayer(group);
+    }
+  }, [overlays.polygonOutlines]);
+
+  useEffect(() => {
+    gridResolution.current = overlays.h3Grid ? overlays.h3GridResolution : null;
+    drawGrid();
+  }, [overlays.h3Grid, overlays.h3GridResolution]);
+
+  useEffect(() => {
+    const group = neighbourGroup.current;
+    if (!group) return;
+
+    group.clearLayers();
+    if (!overlays.neighbouringTerminals) return;
+    terminalOutlines.forEach(({terminalId, name, polygon}) => {
+      L.polygon(polygon as LatLngExpression[][][], NEIGHBOUR_STYLE)
+        .bindTooltip(name ? `${terminalId} (${name})` : terminalId, {sticky: true})
+        .addTo(group);
+    });
+  }, [terminalOutlines, overlays.neighbouringTerminals]);
+
+  useEffect(() => {
+    // Hit-testing is done by the layer; clicks are ignored while a shape is being drawn or a selection tool has them
+    hexagonLayer.current?.setClickHandler(onHexagonClick && ((index) => {
+      if (mapInstance.current?.pm.globalDrawModeEnabled() || selectionHandler.current?.capturesClicks()) return;
+      onHexagonClick(index);
+    }));
+  }, [onHexagonClick]);
+
+  useEffect(() => {
+    selectionHandler.current?.setTool(selectionTool);
+  }, [selectionTool]);
+
+  useEffect(() => {
+    const layer = dataLayer.current;
+    if (!layer) return;
+
+    const colors = choropleth?.colors ?? new Map<string, string>();
+    const cells = Array.from(colors.keys(), (index) => ({
+      index,
+      boundary: cellToBoundary(index).map(([lat, lng]) => ({lat, lng})),
+    }));
+    // New cells start out gray and are colored straight after
+    layer.setHexagons(cells, dataStyle('gray'))
+      .setStyles((index) => dataStyle(colors.get(index) ?? 'gray'))
+      .setTooltipHandler(choropleth?.describe);
+  }, [choropleth]);
+
+  useEffect(() => {
+    const layer = hexagonLayer.current;
+    if (!layer) return;
+
+    // Index lookups keep restyling linear in the number of cells
+    const stopNumbers = new Map(scheduledHexagons.map((sh, i) => [sh.hexagonId, i + 1] as const));
+    layer.setStyles((index) => hexagonStyle({
+      isHovered: index === hoveredHexIndex,
+      isScheduled: stopNumbers.has(index),
+      isSelectedForSchedule: selectedHexagonsForSchedule.has(index),
+      isEditing: editingHexagonId === index,
+      stopNumber: stopNumbers.get(index) ?? 0,
+      hasData: !!choropleth?.colors.has(index),
+    }, highlightColor.current));
+  }, [hexagons, hoveredHexIndex, scheduledHexagons, selectedHexagonsForSchedule, editingHexagonId, choropleth]);
+
+  // Runs after the layer effects above, so a fit sees the data it was requested with
+  useEffect(() => {
+    const map = mapInstance.current;
+    if (!map || !viewportRequest) return;
+
+    if (viewportRequest.type === 'view') {
+      const {lat, lng, zoom} = viewportRequest.viewport;
+      map.setView([lat, lng], zoom);
+      return;
+    }
+
+    const bounds = getRequestBounds(viewportRequest);
+    if (bounds?.isValid()) {
+      map.fitBounds(bounds, {padding: [50, 50], maxZoom: MAX_FIT_ZOOM});
+    } else if (viewportRequest.type === 'fit-all') {
+      map.setView([defaultView.lat, defaultView.lng], defaultView.zoom);
     }
-  }, [polygons, hexagons, hoveredHexIndex, scheduledHexagons, selectedHexagonsForSchedule, onHexagonClick]);
+  }, [viewportRequest]);
 
   return <div ref={mapRef} className="h-full w-full" />;
 }
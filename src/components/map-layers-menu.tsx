@@ -0,0 +1,279 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Layers, Plus, X } from 'lucide-react';
+import type { Basemap, MapOverlays } from '@/types/map-layers';
+import { validateCustomBasemap } from '@/lib/basemaps';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+
+type MapLayersMenuProps = {
+  basemaps: Basemap[];
+  selectedBasemapId: string;
+  onBasemapChange: (id: string) => void;
+  onAddBasemap: (basemap: Basemap) => void;
+  onRemoveBasemap: (id: string) => void;
+  overlays: MapOverlays;
+  onOverlaysChange: (overlays: MapOverlays) => void;
+  offlineError?: string; // why the configured offline tiles could not be opened
+};
+
+type CustomSourceType = 'xyz' | 'wmts';
+
+interface CustomBasemapForm {
+  type: CustomSourceType;
+  name: string;
+  url: string;
+  attribution: string;
+  layer: string;
+  tileMatrixSet: string;
+  format: string;
+  style: string;
+}
+
+const EMPTY_FORM: CustomBasemapForm = {
+  type: 'xyz',
+  name: '',
+  url: '',
+  attribution: '',
+  layer: '',
+  tileMatrixSet: 'GoogleMapsCompatible',
+  format: 'image/png',
+  style: 'default',
+};
+
+const toBasemap = (form: CustomBasemapForm): Basemap => ({
+  id: `custom_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  name: form.name.trim(),
+  attribution: form.attribution.trim(),
+  custom: true,
+  source: form.type === 'xyz'
+    ? { type: 'xyz', url: form.url.trim() }
+    : {
+      type: 'wmts',
+      url: form.url.trim(),
+      layer: form.layer.trim(),
+      tileMatrixSet: form.tileMatrixSet.trim(),
+      format: form.format.trim() || 'image/png',
+      style: form.style.trim() || 'default',
+    },
+});
+
+// Coarser grids cover a city in a handful of cells; finer than 12 is only drawn when zoomed right in
+const GRID_RESOLUTIONS = Array.from({ length: 13 }, (_, i) => i + 3);
+
+const OVERLAY_LABELS: { key: 'polygonOutlines' | 'h3Grid' | 'neighbouringTerminals'; label: string }[] = [
+  { key: 'polygonOutlines', label: 'Polygon outlines' },
+  { key: 'h3Grid', label: 'H3 grid' },
+  { key: 'neighbouringTerminals', label: 'Neighbouring terminals' },
+];
+
+/**
+ * Basemap picker (built-in, offline and custom XYZ/WMTS) and the overlay toggles
+ */
+export default function MapLayersMenu({
+  basemaps,
+  selectedBasemapId,
+  onBasemapChange,
+  onAddBasemap,
+  onRemoveBasemap,
+  overlays,
+  onOverlaysChange,
+  offlineError,
+}: MapLayersMenuProps) {
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [form, setForm] = useState<CustomBasemapForm>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const updateForm = (updates: Partial<CustomBasemapForm>) => {
+    setForm(prev => ({ ...prev, ...updates }));
+    setFormError(null);
+  };
+
+  const handleAddOpen = () => {
+    setForm(EMPTY_FORM);
+    setFormError(null);
+    setIsAddOpen(true);
+  };
+
+  const handleAdd = () => {
+    const basemap = toBasemap(form);
+    const error = validateCustomBasemap(basemap);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+    onAddBasemap(basemap);
+    setIsAddOpen(false);
+  };
+
+  return (
+    <>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" title="Map layers">
+            <Layers className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-72 p-0">
+          <div className="border-b px-3 py-2 text-sm font-medium">Basemap</div>
+          <ul className="p-1">
+            {basemaps.map(basemap => (
+              <li key={basemap.id} className="flex items-center">
+                <button
+                  type="button"
+                  onClick={() => onBasemapChange(basemap.id)}
+                  className={cn(
+                    'flex flex-1 items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent',
+                    basemap.id === selectedBasemapId && 'font-medium'
+                  )}
+                >
+                  <Check className={cn('h-4 w-4 shrink-0', basemap.id !== selectedBasemapId && 'invisible')} />
+                  <span className="truncate">{basemap.name}</span>
+                </button>
+                {basemap.custom && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0"
+                    onClick={() => onRemoveBasemap(basemap.id)}
+                    title="Remove basemap"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+          {offlineError && <p className="px-3 pb-2 text-xs text-destructive">Offline tiles unavailable: {offlineError}</p>}
+          <div className="px-2 pb-2">
+            <Button variant="ghost" size="sm" className="w-full justify-start" onClick={handleAddOpen}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add XYZ or WMTS basemap
+            </Button>
+          </div>
+
+          <Separator />
+          <div className="px-3 py-2 text-sm font-medium">Overlays</div>
+          <div className="space-y-3 px-3 pb-3">
+            {OVERLAY_LABELS.map(({ key, label }) => (
+              <div key={key} className="flex items-center justify-between">
+                <Label htmlFor={`overlay-${key}`}>{label}</Label>
+                <Switch
+                  id={`overlay-${key}`}
+                  checked={overlays[key]}
+                  onCheckedChange={(checked) => onOverlaysChange({ ...overlays, [key]: checked })}
+                />
+              </div>
+            ))}
+            {overlays.h3Grid && (
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor="overlay-grid-resolution">Grid resolution</Label>
+                <Select
+                  value={String(overlays.h3GridResolution)}
+                  onValueChange={(value) => onOverlaysChange({ ...overlays, h3GridResolution: parseInt(value, 10) })}
+                >
+                  <SelectTrigger id="overlay-grid-resolution" className="w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GRID_RESOLUTIONS.map(res => (
+                      <SelectItem key={res} value={String(res)}>Res {res}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Basemap</DialogTitle>
+            <DialogDescription>Custom basemaps are kept in this browser.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="basemap-type">Type</Label>
+              <Select value={form.type} onValueChange={(value) => updateForm({ type: value as CustomSourceType })}>
+                <SelectTrigger id="basemap-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="xyz">XYZ tiles</SelectItem>
+                  <SelectItem value="wmts">WMTS (KVP)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="basemap-name">Name</Label>
+              <Input id="basemap-name" value={form.name} onChange={(e) => updateForm({ name: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="basemap-url">URL</Label>
+              <Input
+                id="basemap-url"
+                value={form.url}
+                onChange={(e) => updateForm({ url: e.target.value })}
+                placeholder={form.type === 'xyz' ? 'https://tiles.example.com/{z}/{x}/{y}.png' : 'https://maps.example.com/wmts'}
+              />
+            </div>
+            {form.type === 'wmts' && (
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="basemap-layer">Layer</Label>
+                  <Input id="basemap-layer" value={form.layer} onChange={(e) => updateForm({ layer: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="basemap-matrix-set">Tile matrix set</Label>
+                  <Input
+                    id="basemap-matrix-set"
+                    value={form.tileMatrixSet}
+                    onChange={(e) => updateForm({ tileMatrixSet: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="basemap-format">Format</Label>
+                  <Input id="basemap-format" value={form.format} onChange={(e) => updateForm({ format: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="basemap-style">Style</Label>
+                  <Input id="basemap-style" value={form.style} onChange={(e) => updateForm({ style: e.target.value })} />
+                </div>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="basemap-attribution">Attribution</Label>
+              <Input
+                id="basemap-attribution"
+                value={form.attribution}
+                onChange={(e) => updateForm({ attribution: e.target.value })}
+              />
+            </div>
+            {formError && <p className="text-sm text-destructive">{formError}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsAddOpen(false)}>Cancel</Button>
+            <Button onClick={handleAdd}>Add</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
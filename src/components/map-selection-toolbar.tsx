@@ -0,0 +1,82 @@
+'use client';
+
+import { CircleDot, Lasso, MousePointer2, Spline, SquareDashed, type LucideIcon } from 'lucide-react';
+import type { SelectionMode, SelectionTool } from '@/types/geometry';
+import { MAX_RING_RADIUS, SELECTION_MODES } from '@/lib/map-selection';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+
+type MapSelectionToolbarProps = {
+  tool: SelectionTool | null;
+  onToolChange: (tool: SelectionTool | null) => void;
+  mode: SelectionMode;
+  onModeChange: (mode: SelectionMode) => void;
+  ringRadius: number;
+  onRingRadiusChange: (radius: number) => void;
+  target: 'hexagons' | 'stops'; // what the tools select: polygon hexagons, or stops of the route being edited
+};
+
+const TOOLS: { value: SelectionTool | null; label: string; icon: LucideIcon }[] = [
+  { value: null, label: 'Pan (shift-drag still selects a rectangle)', icon: MousePointer2 },
+  { value: 'rectangle', label: 'Rectangle', icon: SquareDashed },
+  { value: 'lasso', label: 'Lasso', icon: Lasso },
+  { value: 'ring', label: 'Ring around a clicked cell', icon: CircleDot },
+  { value: 'line', label: 'Cells along a line (double-click to finish)', icon: Spline },
+];
+
+/**
+ * Tools for selecting many cells at once, and how they combine with the current selection
+ */
+export default function MapSelectionToolbar({
+  tool,
+  onToolChange,
+  mode,
+  onModeChange,
+  ringRadius,
+  onRingRadiusChange,
+  target,
+}: MapSelectionToolbarProps) {
+  return (
+    <div className="flex items-center gap-1 rounded-md border bg-background p-1 shadow-md">
+      {TOOLS.map(({ value, label, icon: Icon }) => (
+        <Button
+          key={value ?? 'pan'}
+          variant={tool === value ? 'secondary' : 'ghost'}
+          size="sm"
+          onClick={() => onToolChange(value)}
+          title={label}
+        >
+          <Icon className="h-4 w-4" />
+        </Button>
+      ))}
+      {tool === 'ring' && (
+        <div className="flex items-center gap-1 px-1">
+          <Label htmlFor="ring-radius" className="text-xs">k</Label>
+          <Input
+            id="ring-radius"
+            type="number"
+            min={1}
+            max={MAX_RING_RADIUS}
+            value={ringRadius}
+            onChange={(e) => onRingRadiusChange(Math.min(MAX_RING_RADIUS, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+            className="h-8 w-14"
+          />
+        </div>
+      )}
+      <Separator orientation="vertical" className="mx-1 h-6" />
+      {SELECTION_MODES.map(({ value, label }) => (
+        <Button
+          key={value}
+          variant={mode === value ? 'secondary' : 'ghost'}
+          size="sm"
+          onClick={() => onModeChange(value)}
+          title={`${label} ${target === 'stops' ? 'route stops' : 'selected hexagons'}`}
+        >
+          {label}
+        </Button>
+      ))}
+    </div>
+  );
+}
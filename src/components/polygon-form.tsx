@@ -1,17 +1,31 @@
-
 'use client';
 
 import GoogleSheetForm from './google-sheet-form';
+import FileImportForm from './file-import-form';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import type { ContainmentMode } from '@/types/geometry';
 
 type PolygonFormProps = {
-  onSubmit: (values: { wkts: string[]; resolution: number; terminalId?: string }) => void;
+  onSubmit: (values: { wkts: string[]; resolution: number; containmentMode: ContainmentMode; terminalId?: string; timeZone?: string }) => void;
+  defaultResolution?: number;
 };
 
 
-export default function PolygonForm({ onSubmit }: PolygonFormProps) {
+export default function PolygonForm({ onSubmit, defaultResolution }: PolygonFormProps) {
   return (
     <div className="w-full">
-      <GoogleSheetForm onSubmit={onSubmit} />
+      <Tabs defaultValue="sheet" className="w-full">
+        <TabsList className="grid grid-cols-2 mx-2">
+          <TabsTrigger value="sheet">Google Sheet</TabsTrigger>
+          <TabsTrigger value="file">File Import</TabsTrigger>
+        </TabsList>
+        <TabsContent value="sheet" className="mt-4">
+          <GoogleSheetForm onSubmit={onSubmit} defaultResolution={defaultResolution} />
+        </TabsContent>
+        <TabsContent value="file" className="mt-4">
+          <FileImportForm onSubmit={onSubmit} defaultResolution={defaultResolution} />
+        </TabsContent>
+      </Tabs>
     </div>
   )
 }
@@ -1,13 +1,23 @@
 
 'use client';
 
-import type {PolygonData} from '@/app/page';
+import {useState} from 'react';
+import type {PolygonData} from '@/types/geometry';
+import {savePolygonToGoogleSheet} from '@/app/actions';
+import {CONTAINMENT_MODES, MAX_UNCOMPACT_STEPS, geometryToWkt} from '@/lib/geometry-utils';
+import type {ContainmentMode, PolyfillOptions} from '@/types/geometry';
+import {useToast} from '@/hooks/use-toast';
 import {Accordion, AccordionContent, AccordionItem, AccordionTrigger} from '@/components/ui/accordion';
 import {Card} from '@/components/ui/card';
 import HexCodeList from './hex-code-list';
 import {Button} from './ui/button';
-import {Trash2} from 'lucide-react';
+import {Copy, Loader2, LocateFixed, Trash2, Upload} from 'lucide-react';
 import {Separator} from './ui/separator';
+import {Label} from './ui/label';
+import {Switch} from './ui/switch';
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from './ui/select';
+
+const MIXED_RESOLUTION = 'mixed';
 
 type PolygonListProps = {
   polygons: PolygonData[];
@@ -16,7 +26,11 @@ type PolygonListProps = {
   onSelectAll: (polygonIndexes: string[], selectAll: boolean) => void;
   onHexHover: (index: string | null) => void;
   onRemovePolygon: (id: number) => void;
+  onPolyfillOptionsChange: (id: number, options: Partial<PolyfillOptions>) => void;
   onClearAll: () => void;
+  onPolygonSaved?: (id: number, wkt: string) => void;
+  onZoomToPolygon?: (id: number) => void;
+  onZoomToHexagon?: (index: string) => void;
 };
 
 export default function PolygonList({
@@ -26,13 +40,51 @@ export default function PolygonList({
   onSelectAll,
   onHexHover,
   onRemovePolygon,
+  onPolyfillOptionsChange,
   onClearAll,
+  onPolygonSaved,
+  onZoomToPolygon,
+  onZoomToHexagon,
 }: PolygonListProps) {
+  const [savingPolygonId, setSavingPolygonId] = useState<number | null>(null);
+  const {toast} = useToast();
+
+  const handleCopyWkt = (poly: PolygonData) => {
+    navigator.clipboard.writeText(geometryToWkt(poly.geometry));
+    toast({
+      title: 'Copied!',
+      description: 'Polygon WKT copied to clipboard.',
+    });
+  };
+
+  const handleSaveToSheet = async (poly: PolygonData) => {
+    if (!poly.terminalId) return;
+
+    setSavingPolygonId(poly.id);
+    const wkt = geometryToWkt(poly.geometry);
+    const result = await savePolygonToGoogleSheet(poly.terminalId, wkt, poly.sourceWkt);
+    setSavingPolygonId(null);
+
+    if (result.success) {
+      onPolygonSaved?.(poly.id, wkt);
+      toast({
+        title: 'Polygon Saved',
+        description: result.message,
+      });
+    } else {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to save polygon',
+        description: result.error,
+      });
+    }
+  };
+
   if (polygons.length === 0) {
     return (
       <div className="p-4 text-center text-sm text-muted-foreground">
         <p>No polygons added yet.</p>
-        <p className="mt-2">Use the form above to generate H3 hexagons from a WKT polygon.</p>
+        <p className="mt-2">Use the form above to generate H3 hexagons from a WKT polygon, or draw one on the map.</p>
       </div>
     );
   }
@@ -58,9 +110,27 @@ export default function PolygonList({
                   <div className="text-left flex-grow">
                     <h4 className="font-semibold">Polygon {index + 1}</h4>
                     <p className="text-sm text-muted-foreground mt-1">
-                      Res {poly.resolution} &bull; {poly.allH3Indexes.length} Hexagons
+                      Res {poly.resolution} &bull; {CONTAINMENT_MODES.find((mode) => mode.value === poly.containmentMode)?.label}
+                      {' '}&bull; {poly.allH3Indexes.length} Hexagons
+                      {poly.compact && <> (compacted from {poly.cellCounts[poly.containmentMode]})</>}
+                      {poly.terminalId && <> &bull; {poly.terminalId}</>}
+                      {poly.timeZone && <> &bull; {poly.timeZone}</>}
                     </p>
                   </div>
+                  {onZoomToPolygon && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onZoomToPolygon(poly.id);
+                      }}
+                      className="ml-2 flex-shrink-0"
+                      title="Zoom to polygon"
+                    >
+                      <LocateFixed className="h-4 w-4" />
+                    </Button>
+                  )}
                   <Button
                     variant="ghost"
                     size="icon"
@@ -75,12 +145,90 @@ export default function PolygonList({
                 </div>
               </AccordionTrigger>
               <AccordionContent className="p-4 pt-0">
+                <div className="flex gap-2 mb-4">
+                  <Button variant="outline" size="sm" className="flex-1" onClick={() => handleCopyWkt(poly)}>
+                    <Copy className="mr-2 h-4 w-4" />
+                    Copy WKT
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex-1"
+                    onClick={() => handleSaveToSheet(poly)}
+                    disabled={!poly.terminalId || savingPolygonId === poly.id}
+                    title={poly.terminalId ? 'Write this shape back to the polygon sheet' : 'Select a Terminal ID before drawing to save to the sheet'}
+                  >
+                    {savingPolygonId === poly.id ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Upload className="mr-2 h-4 w-4" />
+                    )}
+                    Save to Sheet
+                  </Button>
+                </div>
+                <div className="space-y-3 mb-4">
+                  <div className="space-y-1">
+                    <Label htmlFor={`containment-${poly.id}`}>Containment</Label>
+                    <Select
+                      value={poly.containmentMode}
+                      onValueChange={(value) => onPolyfillOptionsChange(poly.id, {containmentMode: value as ContainmentMode})}
+                    >
+                      <SelectTrigger id={`containment-${poly.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CONTAINMENT_MODES.map((mode) => (
+                          <SelectItem key={mode.value} value={mode.value}>
+                            {mode.label} ({poly.cellCounts[mode.value]} cells)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor={`compact-${poly.id}`}>Compact to mixed resolutions</Label>
+                    <Switch
+                      id={`compact-${poly.id}`}
+                      checked={poly.compact}
+                      onCheckedChange={(checked) => onPolyfillOptionsChange(poly.id, {compact: checked})}
+                    />
+                  </div>
+                  {poly.compact && (
+                    <div className="space-y-1">
+                      <Label htmlFor={`uncompact-${poly.id}`}>Uncompact to</Label>
+                      <Select
+                        value={poly.uncompactResolution === null
+                          ? MIXED_RESOLUTION
+                          : String(Math.min(poly.uncompactResolution, poly.resolution + MAX_UNCOMPACT_STEPS))}
+                        onValueChange={(value) =>
+                          onPolyfillOptionsChange(poly.id, {
+                            uncompactResolution: value === MIXED_RESOLUTION ? null : parseInt(value, 10),
+                          })
+                        }
+                      >
+                        <SelectTrigger id={`uncompact-${poly.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={MIXED_RESOLUTION}>Keep compacted (mixed)</SelectItem>
+                          {/* Compacted cells can only be expanded to the polyfill resolution or a little finer */}
+                          {Array.from({length: Math.min(MAX_UNCOMPACT_STEPS, 15 - poly.resolution) + 1}, (_, i) => poly.resolution + i).map((res) => (
+                            <SelectItem key={res} value={String(res)}>
+                              Resolution {res}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
                 <HexCodeList
                   allH3Indexes={poly.allH3Indexes}
                   selectedH3Indexes={selectedH3Indexes}
                   onSelectionChange={onSelectionChange}
                   onSelectAll={onSelectAll}
                   onHexHover={onHexHover}
+                  onZoomToHexagon={onZoomToHexagon}
                 />
               </AccordionContent>
             </Card>
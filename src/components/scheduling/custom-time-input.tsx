@@ -11,77 +11,66 @@ import {
   validateCustomTimeSlot, 
   createCustomTimeSlot, 
   formatTimeSlot,
-  timeToMinutes,
-  minutesToTime,
-  getSuggestedStartTime
+  formatDuration,
+  findNextAvailableStartTime,
+  getSuggestedStartTime,
+  resolveDayOffset,
+  getWindowTimeSlot,
+  DEFAULT_OPERATING_WINDOW
 } from '@/lib/scheduling-utils';
-import type { TimeSlot, TimeValidationResult, ScheduledHexagon } from '@/types/scheduling';
+import type { TimeSlot, TimeValidationResult, ScheduledHexagon, OperatingWindow } from '@/types/scheduling';
+import ZonedTimeSlot from './zoned-time-slot';
 
 interface CustomTimeInputProps {
   existingSlots: TimeSlot[];
+  operatingWindow?: OperatingWindow;
   onTimeSlotSelect: (timeSlot: TimeSlot, duration: number) => void;
   onCancel: () => void;
   defaultStartTime?: string;
   defaultDuration?: number;
   selectedHexagonId?: string | null;
   scheduledHexagons?: ScheduledHexagon[];
+  timeZone?: string;
 }
 
 export default function CustomTimeInput({
   existingSlots,
+  operatingWindow = DEFAULT_OPERATING_WINDOW,
   onTimeSlotSelect,
   onCancel,
   defaultStartTime,
-  defaultDuration = 15,
+  defaultDuration = operatingWindow.slotMinutes,
   selectedHexagonId,
   scheduledHexagons = [],
+  timeZone,
 }: CustomTimeInputProps) {
-  const suggestedStartTime = defaultStartTime || getSuggestedStartTime(scheduledHexagons);
+  const suggestedStartTime = defaultStartTime || getSuggestedStartTime(scheduledHexagons, operatingWindow);
   const [startTime, setStartTime] = useState(suggestedStartTime);
   const [duration, setDuration] = useState(defaultDuration);
   const [validation, setValidation] = useState<TimeValidationResult>({ isValid: true });
+  // Times before the window start belong to the next day in an overnight window
+  const startDayOffset = resolveDayOffset(startTime, operatingWindow);
 
   useEffect(() => {
-    const result = validateCustomTimeSlot(startTime, duration, existingSlots);
+    const result = validateCustomTimeSlot(startTime, duration, existingSlots, operatingWindow);
     setValidation(result);
-  }, [startTime, duration, existingSlots]);
+  }, [startTime, duration, existingSlots, operatingWindow]);
 
   const handleSubmit = () => {
     if (validation.isValid) {
-      const timeSlot = createCustomTimeSlot(startTime, duration);
+      const timeSlot = createCustomTimeSlot(startTime, duration, startDayOffset);
       onTimeSlotSelect(timeSlot, duration);
     }
   };
 
   const getNextAvailableTime = () => {
-    // Find the next available 15-minute slot
-    const allSlots = Array.from({ length: 14 }, (_, i) => {
-      const startMinutes = 16 * 60 + 30 + (i * 15); // 4:30 PM + 15min intervals
-      return {
-        start: minutesToTime(startMinutes),
-        end: minutesToTime(startMinutes + 15),
-        isAvailable: true,
-      };
-    });
-
-    for (const slot of allSlots) {
-      const result = validateCustomTimeSlot(slot.start, duration, existingSlots);
-      if (result.isValid) {
-        setStartTime(slot.start);
-        return;
-      }
+    // Find the next slot boundary in the operating window where this duration fits
+    const nextStart = findNextAvailableStartTime(duration, existingSlots, operatingWindow);
+    if (nextStart) {
+      setStartTime(nextStart);
     }
   };
 
-  const formatDuration = (minutes: number): string => {
-    if (minutes < 60) {
-      return `${minutes}m`;
-    }
-    const hours = Math.floor(minutes / 60);
-    const mins = minutes % 60;
-    return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
-  };
-
   return (
     <Card className="p-4">
       <div className="space-y-4">
@@ -112,6 +101,8 @@ export default function CustomTimeInput({
             <Input
               id="start-time"
               type="time"
+              min={operatingWindow.start}
+              max={operatingWindow.end}
               value={startTime}
               onChange={(e) => setStartTime(e.target.value)}
               className={validation.isValid ? '' : 'border-destructive'}
@@ -123,11 +114,11 @@ export default function CustomTimeInput({
             <Input
               id="duration"
               type="number"
-              min="5"
-              max="120"
+              min={operatingWindow.minDurationMinutes}
+              max={operatingWindow.maxDurationMinutes}
               step="5"
               value={duration}
-              onChange={(e) => setDuration(parseInt(e.target.value) || 15)}
+              onChange={(e) => setDuration(parseInt(e.target.value) || operatingWindow.slotMinutes)}
               className={validation.isValid ? '' : 'border-destructive'}
             />
           </div>
@@ -137,9 +128,11 @@ export default function CustomTimeInput({
         <div className="p-3 bg-muted rounded-lg">
           <div className="flex items-center gap-2 text-sm">
             <Clock className="h-4 w-4" />
-            <span className="font-medium">
-              {formatTimeSlot(createCustomTimeSlot(startTime, duration))}
-            </span>
+            <ZonedTimeSlot
+              slot={createCustomTimeSlot(startTime, duration, startDayOffset)}
+              timeZone={timeZone}
+              className="font-medium"
+            />
             <Badge variant="outline" className="text-xs">
               {formatDuration(duration)}
             </Badge>
@@ -186,8 +179,8 @@ export default function CustomTimeInput({
 
         {/* Constraints Info */}
         <div className="text-xs text-muted-foreground space-y-1">
-          <p>• Time must be between 4:30 PM - 8:00 PM</p>
-          <p>• Duration: 5 minutes - 2 hours</p>
+          <p>• Time must be between {formatTimeSlot(getWindowTimeSlot(operatingWindow))} ({operatingWindow.shift})</p>
+          <p>• Duration: {formatDuration(operatingWindow.minDurationMinutes)} - {formatDuration(operatingWindow.maxDurationMinutes)}</p>
           <p>• No overlapping with existing slots</p>
         </div>
       </div>
@@ -0,0 +1,137 @@
+'use client';
+
+import { useState, type MouseEvent, type ReactNode } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { deleteRouteFromGoogleSheet, getSavedRoutes } from '@/app/actions';
+import type { HexagonSchedule } from '@/types/scheduling';
+import SavedRouteRows from './saved-route-rows';
+
+interface DeleteRouteDialogProps {
+  schedule: HexagonSchedule;
+  onDelete: (id: string, removedSavedRows: boolean) => void; // removes the route from the app, after its saved rows are gone
+  children: ReactNode; // the trigger
+}
+
+/**
+ * Confirms a delete, listing the saved rows that are removed along with the route
+ */
+export default function DeleteRouteDialog({ schedule, onDelete, children }: DeleteRouteDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [savedRoute, setSavedRoute] = useState<HexagonSchedule | null>(); // undefined while checking
+  const [checkError, setCheckError] = useState<string>();
+  const [isDeleting, setIsDeleting] = useState(false);
+  const { toast } = useToast();
+
+  const handleOpenChange = async (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) return;
+
+    setSavedRoute(undefined);
+    setCheckError(undefined);
+    const result = await getSavedRoutes([schedule.id]);
+    if (result.success) {
+      setSavedRoute(result.data?.[0] ?? null);
+    } else {
+      setCheckError(result.error);
+    }
+  };
+
+  const handleDelete = async (event: MouseEvent) => {
+    // Keep the dialog open until the saved rows are removed
+    event.preventDefault();
+
+    let removedRows = 0;
+    if (savedRoute) {
+      setIsDeleting(true);
+      const result = await deleteRouteFromGoogleSheet(schedule.id, schedule.base?.revision ?? 0);
+      setIsDeleting(false);
+      if (result.conflict) {
+        // Show their rows and the conflict instead of deleting them
+        setSavedRoute(result.conflict.theirs);
+        return;
+      }
+      if (!result.success) {
+        toast({
+          variant: 'destructive',
+          title: 'Failed to delete saved route',
+          description: result.error,
+        });
+        return;
+      }
+      removedRows = result.removedRows ?? 0;
+    }
+
+    setOpen(false);
+    onDelete(schedule.id, removedRows > 0);
+  };
+
+  const isChecking = savedRoute === undefined && !checkError;
+  // Someone else saved the route after it was loaded; deleting would throw their revision away
+  const isStale = !!savedRoute && savedRoute.base?.revision !== (schedule.base?.revision ?? 0);
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogTrigger asChild>{children}</AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete Schedule</AlertDialogTitle>
+          <AlertDialogDescription>
+            Are you sure you want to delete "{schedule.name}"?
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {isChecking && (
+          <div className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Checking for saved rows...
+          </div>
+        )}
+        {savedRoute && (
+          <div className="space-y-2 text-sm text-muted-foreground">
+            <p>These saved rows will be deleted permanently:</p>
+            <SavedRouteRows route={savedRoute} />
+            <p>Undo only brings back the copy in the app; save it again to restore the rows.</p>
+          </div>
+        )}
+        {isStale && (
+          <p className="text-sm text-destructive">
+            Someone else saved this route (revision {savedRoute.base?.revision}) since you loaded
+            {schedule.base ? ` revision ${schedule.base.revision}` : ' it'}. Save your copy to merge their changes, then delete it.
+          </p>
+        )}
+        {savedRoute === null && (
+          <p className="text-sm text-muted-foreground">The route has not been saved, so only the copy in the app is deleted. Undo brings it back.</p>
+        )}
+        {checkError && (
+          <p className="text-sm text-destructive">
+            Could not check for saved rows: {checkError} Only the copy in the app will be deleted.
+          </p>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleDelete}
+            disabled={isChecking || isDeleting || isStale}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {isDeleting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {checkError ? 'Delete in App Only' : 'Delete'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
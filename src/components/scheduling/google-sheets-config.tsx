@@ -5,24 +5,49 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2, Upload, Link as LinkIcon } from 'lucide-react';
-import { saveRouteToGoogleSheet, fetchRoutesFromGoogleSheet } from '@/app/actions';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { saveRouteToGoogleSheet, fetchRoutesFromGoogleSheet, getSavedRoutes, refreshSheetData } from '@/app/actions';
+import { createRouteRevision, hasUnsavedChanges } from '@/lib/route-merge';
 import type { HexagonSchedule } from '@/types/scheduling';
+import type { SheetRowError } from '@/types/storage';
+import SheetRowErrors from '@/components/sheet-row-errors';
+import DataFreshness from '@/components/data-freshness';
+import SavedRouteRows from './saved-route-rows';
+import MergeRouteDialog from './merge-route-dialog';
 
 interface GoogleSheetsConfigProps {
-  onRouteSave: (route: HexagonSchedule) => Promise<void>;
+  onRouteSaved: (route: HexagonSchedule) => void; // the route as saved, based on its new revision
   onRoutesLoaded: (routes: HexagonSchedule[]) => void;
   currentRoutes: HexagonSchedule[];
   selectedTerminalId?: string;
+  onDataRefreshed?: () => void; // after the server's sheet cache is dropped, so other views can reload
 }
 
 export default function GoogleSheetsConfig({ 
-  onRouteSave, 
+  onRouteSaved, 
   onRoutesLoaded,
   currentRoutes,
-  selectedTerminalId
+  selectedTerminalId,
+  onDataRefreshed
 }: GoogleSheetsConfigProps) {
   const [isSaving, setIsSaving] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string>();
+  const [rowErrors, setRowErrors] = useState<SheetRowError[]>([]);
+  const [fetchedAt, setFetchedAt] = useState<number>();
+  // Routes saved under another name or terminal; their saved rows are replaced once confirmed
+  const [pendingRenames, setPendingRenames] = useState<{ route: HexagonSchedule; saved: HexagonSchedule }[]>([]);
+  // Routes saved by someone else since they were loaded, merged one at a time
+  const [conflicts, setConflicts] = useState<{ mine: HexagonSchedule; theirs: HexagonSchedule | null }[]>([]);
   const hasLoadedRoutes = useRef(false);
   const { toast } = useToast();
 
@@ -42,6 +67,9 @@ export default function GoogleSheetsConfig({
       try {
         const result = await fetchRoutesFromGoogleSheet(selectedTerminalId);
         
+        setRowErrors(result.rowErrors ?? []);
+        setLoadError(result.success ? undefined : result.error);
+        setFetchedAt(result.fetchedAt);
         if (result.success && result.data) {
           onRoutesLoaded(result.data);
           hasLoadedRoutes.current = true;
@@ -51,7 +79,7 @@ export default function GoogleSheetsConfig({
           });
         } else {
           console.error('Failed to load routes:', result.error);
-          // Don't show error toast for automatic loading to avoid spam
+          // Don't show error toast for automatic loading to avoid spam; the card shows it instead
         }
       } catch (error) {
         console.error('Error loading routes:', error);
@@ -64,6 +92,31 @@ export default function GoogleSheetsConfig({
     loadRoutes();
   }, [selectedTerminalId, onRoutesLoaded, toast, currentRoutes.length]);
 
+  // Routes already in the editor are kept; routes new in the sheet are added
+  const handleRefresh = async () => {
+    if (!selectedTerminalId) return;
+
+    setIsLoading(true);
+    try {
+      const refreshResult = await refreshSheetData();
+      if (!refreshResult.success) {
+        toast({ variant: 'destructive', title: 'Failed to refresh', description: refreshResult.error });
+        return;
+      }
+      onDataRefreshed?.();
+
+      const result = await fetchRoutesFromGoogleSheet(selectedTerminalId);
+      setRowErrors(result.rowErrors ?? []);
+      setLoadError(result.success ? undefined : result.error);
+      setFetchedAt(result.fetchedAt);
+      if (result.success && result.data) {
+        onRoutesLoaded(result.data);
+        hasLoadedRoutes.current = true;
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
   const handleSaveAllRoutes = async () => {
     if (currentRoutes.length === 0) {
@@ -84,33 +137,79 @@ export default function GoogleSheetsConfig({
       return;
     }
 
+    // Unchanged routes are left alone, so their revision is not bumped for nothing
+    const changedRoutes = currentRoutes.filter(hasUnsavedChanges);
+    if (changedRoutes.length === 0) {
+      toast({
+        title: 'No changes to save',
+        description: 'Every route is as it was loaded or last saved.',
+      });
+      return;
+    }
+
     setIsSaving(true);
+    // A failed check does not block the save, which reports its own errors
+    const saved = await getSavedRoutes(changedRoutes.map(route => route.id)).catch(() => undefined);
+    const renames = (saved?.data ?? []).flatMap(savedRoute => {
+      const route = changedRoutes.find(r => r.id === savedRoute.id);
+      return route && (route.name !== savedRoute.name || route.terminalId !== savedRoute.terminalId)
+        ? [{ route, saved: savedRoute }]
+        : [];
+    });
+    if (renames.length > 0) {
+      setPendingRenames(renames);
+      setIsSaving(false);
+      return;
+    }
+    await saveAllRoutes();
+  };
+
+  const handleConfirmRenames = async () => {
+    setPendingRenames([]);
+    setIsSaving(true);
+    await saveAllRoutes();
+  };
+
+  const saveAllRoutes = async () => {
     try {
       let successCount = 0;
       let errorCount = 0;
+      const staleRoutes: typeof conflicts = [];
       
-      // Process each route and write to Google Sheets
-      for (const route of currentRoutes) {
+      // Write each changed route to Google Sheets
+      for (const route of currentRoutes.filter(hasUnsavedChanges)) {
         const result = await saveRouteToGoogleSheet(route);
         
-        if (result.success) {
+        if (result.success && result.revision) {
           successCount++;
+          onRouteSaved({ ...route, base: createRouteRevision(result.revision, route) });
+        } else if (result.conflict) {
+          staleRoutes.push({ mine: route, theirs: result.conflict.theirs });
         } else {
           errorCount++;
           console.error(`Failed to save route ${route.name}:`, result.error);
         }
       }
+
+      if (staleRoutes.length > 0) {
+        setConflicts(staleRoutes);
+        toast({
+          variant: 'destructive',
+          title: 'Routes Changed by Someone Else',
+          description: `${staleRoutes.length} route${staleRoutes.length !== 1 ? 's were' : ' was'} not saved. Merge the changes to save ${staleRoutes.length !== 1 ? 'them' : 'it'}.`,
+        });
+      }
       
       if (successCount > 0) {
         toast({
           title: 'Routes Saved',
           description: `Successfully saved ${successCount} route${successCount !== 1 ? 's' : ''} to Google Sheets.${errorCount > 0 ? ` ${errorCount} route${errorCount !== 1 ? 's' : ''} failed to save.` : ''}`,
         });
-      } else {
+      } else if (errorCount > 0) {
         toast({
           variant: 'destructive',
           title: 'Failed to Save Routes',
-          description: `All ${currentRoutes.length} routes failed to save. Please check your Google Sheets URL and permissions.`,
+          description: `${errorCount} route${errorCount !== 1 ? 's' : ''} failed to save. Please check your Google Sheets URL and permissions.`,
         });
       }
     } catch (error) {
@@ -124,6 +223,25 @@ export default function GoogleSheetsConfig({
     }
   };
 
+  // Save the merged route on top of their revision; it can conflict again if they saved once more
+  const handleMerge = async (merged: HexagonSchedule) => {
+    setConflicts(prev => prev.slice(1));
+    setIsSaving(true);
+    try {
+      const result = await saveRouteToGoogleSheet(merged);
+      if (result.success && result.revision) {
+        onRouteSaved({ ...merged, base: createRouteRevision(result.revision, merged) });
+        toast({ title: 'Route Merged', description: `"${merged.name}" was merged and saved.` });
+      } else if (result.conflict) {
+        const theirs = result.conflict.theirs;
+        setConflicts(prev => [{ mine: merged, theirs }, ...prev]);
+      } else {
+        toast({ variant: 'destructive', title: 'Failed to save merged route', description: result.error });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
   return (
     <Card className="mb-4">
@@ -140,6 +258,10 @@ export default function GoogleSheetsConfig({
           </div>
         )}
 
+        {selectedTerminalId && (
+          <DataFreshness fetchedAt={fetchedAt} isRefreshing={isLoading} onRefresh={handleRefresh} />
+        )}
+
         {isLoading && (
           <div className="flex items-center justify-center p-4">
             <Loader2 className="animate-spin mr-2" />
@@ -147,6 +269,44 @@ export default function GoogleSheetsConfig({
           </div>
         )}
         
+        <SheetRowErrors title="Route sheet" errors={rowErrors} error={loadError} />
+
+        {conflicts[0] && (
+          <MergeRouteDialog
+            key={`${conflicts[0].mine.id}:${conflicts[0].theirs?.base?.revision ?? 0}`}
+            mine={conflicts[0].mine}
+            theirs={conflicts[0].theirs}
+            onMerge={handleMerge}
+            onCancel={() => setConflicts(prev => prev.slice(1))}
+          />
+        )}
+
+        <AlertDialog open={pendingRenames.length > 0} onOpenChange={(open) => !open && setPendingRenames([])}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Rename Saved Routes</AlertDialogTitle>
+              <AlertDialogDescription>
+                {pendingRenames.length === 1 ? 'A route was' : `${pendingRenames.length} routes were`} renamed since
+                {pendingRenames.length === 1 ? ' it was' : ' they were'} saved. Saving replaces these rows with rows under the new name.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <div className="max-h-80 overflow-y-auto space-y-3 text-sm text-muted-foreground">
+              {pendingRenames.map(({ route, saved }) => (
+                <div key={route.id} className="space-y-1">
+                  <p>
+                    Renamed to "{route.name}"{route.terminalId !== saved.terminalId && ` at ${route.terminalId}`}:
+                  </p>
+                  <SavedRouteRows route={saved} />
+                </div>
+              ))}
+            </div>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleConfirmRenames}>Replace and Save</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
         <div className="flex gap-2">
           <Button
             onClick={handleSaveAllRoutes}
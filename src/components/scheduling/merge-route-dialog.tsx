@@ -0,0 +1,144 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { diffRouteStops, mergeRouteStops, validateMergedStops } from '@/lib/route-merge';
+import { formatTimeSlot } from '@/lib/scheduling-utils';
+import type { HexagonSchedule, MergeSide, TimeSlot } from '@/types/scheduling';
+
+interface MergeRouteDialogProps {
+  mine: HexagonSchedule;
+  theirs: HexagonSchedule | null; // the copy in storage now; null = deleted
+  onMerge: (merged: HexagonSchedule) => void; // to be saved on top of their revision
+  onCancel: () => void;
+}
+
+const SlotCell = ({ slot }: { slot?: TimeSlot }) => (
+  <td className="px-2 py-1 whitespace-nowrap">
+    {slot ? formatTimeSlot(slot) : <span className="text-muted-foreground">not on route</span>}
+  </td>
+);
+
+/**
+ * Three-way merge of a route saved by someone else since it was loaded: base, mine and theirs
+ * side by side, picking mine or theirs per stop
+ */
+export default function MergeRouteDialog({ mine, theirs, onMerge, onCancel }: MergeRouteDialogProps) {
+  const [picks, setPicks] = useState<Record<string, MergeSide>>({});
+
+  const stops = useMemo(
+    () => diffRouteStops(mine.base?.hexagons ?? [], mine.hexagons, theirs?.hexagons ?? []),
+    [mine, theirs]
+  );
+  // Stops nobody changed need no decision
+  const changedStops = stops.filter(stop => stop.changed);
+  const conflictCount = stops.filter(stop => stop.conflict).length;
+
+  const merged = useMemo(
+    () => theirs ? mergeRouteStops(stops, picks, mine.hexagons, theirs.hexagons) : mine.hexagons,
+    [stops, picks, mine, theirs]
+  );
+  // Stops picked from different sides can land on the same time
+  const mergeError = theirs ? validateMergedStops(merged, mine.operatingWindow) : null;
+
+  const handleMerge = () => {
+    if (mergeError) return;
+    if (!theirs) {
+      // Saved again as a new route
+      onMerge({ ...mine, base: undefined });
+      return;
+    }
+    onMerge({ ...mine, hexagons: merged, base: theirs.base });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Merge "{mine.name}"</DialogTitle>
+          <DialogDescription>
+            {theirs
+              ? `Someone else saved this route (revision ${theirs.base?.revision}) after you loaded revision ${mine.base?.revision}. ` +
+                'Pick whose version of each changed stop to keep. The name, days and window stay as you set them.'
+              : 'Someone else deleted this route after you loaded it. Saving creates it again with your stops.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {theirs && (
+          changedStops.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No stops differ; merging keeps every stop as it is.</p>
+          ) : (
+            <div className="space-y-2">
+              {conflictCount > 0 && (
+                <p className="text-sm">
+                  {conflictCount} stop{conflictCount !== 1 ? 's were' : ' was'} changed on both sides.
+                </p>
+              )}
+              <table className="w-full text-xs">
+                <thead className="text-left text-muted-foreground">
+                  <tr>
+                    <th className="px-2 py-1">Hexagon</th>
+                    <th className="px-2 py-1">Base</th>
+                    <th className="px-2 py-1">Mine</th>
+                    <th className="px-2 py-1">Theirs</th>
+                    <th className="px-2 py-1">Keep</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changedStops.map(stop => {
+                    const side = picks[stop.hexagonId] ?? stop.resolution;
+                    return (
+                      <tr key={stop.hexagonId} className={stop.conflict ? 'bg-destructive/10' : ''}>
+                        <td className="px-2 py-1 font-mono">
+                          {stop.hexagonId}
+                          {stop.conflict && <Badge variant="destructive" className="ml-1 text-[10px]">conflict</Badge>}
+                        </td>
+                        <SlotCell slot={stop.base} />
+                        <SlotCell slot={stop.mine} />
+                        <SlotCell slot={stop.theirs} />
+                        <td className="px-2 py-1">
+                          <div className="flex gap-1">
+                            {(['mine', 'theirs'] as const).map(option => (
+                              <Button
+                                key={option}
+                                type="button"
+                                size="sm"
+                                className="h-6 px-2 text-xs"
+                                variant={side === option ? 'default' : 'outline'}
+                                onClick={() => setPicks(prev => ({ ...prev, [stop.hexagonId]: option }))}
+                              >
+                                {option === 'mine' ? 'Mine' : 'Theirs'}
+                              </Button>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )
+        )}
+
+        {mergeError && (
+          <p className="text-sm text-destructive">{mergeError}. Pick the other side for one of these stops.</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={handleMerge} disabled={!!mergeError}>{theirs ? 'Merge and Save' : 'Save Mine Again'}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,236 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarClock, Edit, Plus, Trash2 } from 'lucide-react';
+import {
+  DEFAULT_OPERATING_WINDOW,
+  WEEKDAY_LABELS,
+  formatOperatingWindow,
+  validateOperatingWindow,
+} from '@/lib/scheduling-utils';
+import type { OperatingWindow, Weekday } from '@/types/scheduling';
+
+interface OperatingWindowsConfigProps {
+  operatingWindows: OperatingWindow[];
+  onOperatingWindowsChange: (windows: OperatingWindow[]) => void;
+  selectedTerminalId?: string;
+}
+
+const createWindowId = (): string => {
+  return `window_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+export default function OperatingWindowsConfig({
+  operatingWindows,
+  onOperatingWindowsChange,
+  selectedTerminalId,
+}: OperatingWindowsConfigProps) {
+  const [draft, setDraft] = useState<OperatingWindow | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const handleAdd = () => {
+    setDraft({
+      ...DEFAULT_OPERATING_WINDOW,
+      id: createWindowId(),
+      shift: '',
+      terminalId: selectedTerminalId || undefined,
+    });
+    setError(null);
+  };
+
+  const handleEdit = (window: OperatingWindow) => {
+    setDraft({ ...window });
+    setError(null);
+  };
+
+  const handleDelete = (id: string) => {
+    if (operatingWindows.length <= 1) {
+      toast({
+        variant: 'destructive',
+        title: 'Cannot remove window',
+        description: 'At least one operating window is required.',
+      });
+      return;
+    }
+    onOperatingWindowsChange(operatingWindows.filter(w => w.id !== id));
+  };
+
+  const toggleWeekday = (day: Weekday, checked: boolean) => {
+    if (!draft) return;
+    const weekdays = checked
+      ? [...draft.weekdays, day].sort()
+      : draft.weekdays.filter(d => d !== day);
+    setDraft({ ...draft, weekdays });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const validationError = validateOperatingWindow(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const exists = operatingWindows.some(w => w.id === draft.id);
+    onOperatingWindowsChange(
+      exists ? operatingWindows.map(w => (w.id === draft.id ? draft : w)) : [...operatingWindows, draft]
+    );
+    setDraft(null);
+    toast({
+      title: exists ? 'Window Updated' : 'Window Added',
+      description: formatOperatingWindow(draft),
+    });
+  };
+
+  return (
+    <Card className="mb-4">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Operating Windows
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {operatingWindows.map((w) => (
+            <div key={w.id} className="flex items-center justify-between gap-2 rounded-lg border p-2 text-sm">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{formatOperatingWindow(w)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {w.terminalId ? `Terminal ${w.terminalId}` : 'All terminals'} • {w.slotMinutes}m slots • {w.minDurationMinutes}-{w.maxDurationMinutes}m stops
+                </p>
+              </div>
+              <div className="flex flex-shrink-0">
+                <Button variant="ghost" size="sm" onClick={() => handleEdit(w)} title="Edit window">
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(w.id)} title="Remove window">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {draft ? (
+          <div className="space-y-3 rounded-lg border p-3">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="window-shift">Shift</Label>
+                <Input
+                  id="window-shift"
+                  value={draft.shift}
+                  placeholder="Morning, Lunch..."
+                  onChange={(e) => setDraft({ ...draft, shift: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="window-terminal">Terminal ID</Label>
+                <Input
+                  id="window-terminal"
+                  value={draft.terminalId ?? ''}
+                  placeholder="All terminals"
+                  onChange={(e) => setDraft({ ...draft, terminalId: e.target.value.trim() || undefined })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="window-start">Start</Label>
+                <Input
+                  id="window-start"
+                  type="time"
+                  value={draft.start}
+                  onChange={(e) => setDraft({ ...draft, start: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="window-end">End</Label>
+                <Input
+                  id="window-end"
+                  type="time"
+                  value={draft.end}
+                  onChange={(e) => setDraft({ ...draft, end: e.target.value })}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">An end before the start runs past midnight (e.g. 22:00 - 02:00).</p>
+
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="window-slot">Slot (m)</Label>
+                <Input
+                  id="window-slot"
+                  type="number"
+                  min="1"
+                  value={draft.slotMinutes}
+                  onChange={(e) => setDraft({ ...draft, slotMinutes: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="window-min">Min (m)</Label>
+                <Input
+                  id="window-min"
+                  type="number"
+                  min="1"
+                  value={draft.minDurationMinutes}
+                  onChange={(e) => setDraft({ ...draft, minDurationMinutes: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="window-max">Max (m)</Label>
+                <Input
+                  id="window-max"
+                  type="number"
+                  min="1"
+                  value={draft.maxDurationMinutes}
+                  onChange={(e) => setDraft({ ...draft, maxDurationMinutes: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Weekdays</Label>
+              <div className="flex flex-wrap gap-3">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <div key={label} className="flex items-center gap-1">
+                    <Checkbox
+                      id={`window-day-${day}`}
+                      checked={draft.weekdays.includes(day as Weekday)}
+                      onCheckedChange={(checked) => toggleWeekday(day as Weekday, Boolean(checked))}
+                    />
+                    <Label htmlFor={`window-day-${day}`} className="text-xs font-normal">
+                      {label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">Leave all unchecked for every day.</p>
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <div className="flex gap-2">
+              <Button size="sm" className="flex-1" onClick={handleSave}>
+                Save Window
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" size="sm" className="w-full" onClick={handleAdd}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Window
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, Route, X } from 'lucide-react';
+import { formatRouteDistance, optimizeRouteOrder } from '@/lib/route-optimizer';
+import { assignConsecutiveTimeSlots, validateHexagonsInWindow } from '@/lib/scheduling-utils';
+import type { OperatingWindow, RouteDistanceMetric, RouteStart, ScheduledHexagon } from '@/types/scheduling';
+import ZonedTimeSlot from './zoned-time-slot';
+
+const TERMINAL_START = 'terminal';
+
+interface RouteOptimizerPanelProps {
+  hexagons: ScheduledHexagon[]; // current stops, sorted by time
+  operatingWindow: OperatingWindow;
+  terminalLocation?: { lat: number; lng: number };
+  timeZone?: string;
+  onAccept: (hexagons: ScheduledHexagon[]) => void;
+  onReject: () => void;
+}
+
+export default function RouteOptimizerPanel({
+  hexagons,
+  operatingWindow,
+  terminalLocation,
+  timeZone,
+  onAccept,
+  onReject,
+}: RouteOptimizerPanelProps) {
+  const [startValue, setStartValue] = useState(terminalLocation ? TERMINAL_START : hexagons[0]?.hexagonId ?? '');
+  const [metric, setMetric] = useState<RouteDistanceMetric>('grid');
+
+  const { proposal, proposedHexagons, windowError } = useMemo(() => {
+    const start: RouteStart = startValue === TERMINAL_START && terminalLocation
+      ? { type: 'location', ...terminalLocation }
+      : { type: 'cell', hexagonId: startValue };
+    const result = optimizeRouteOrder(hexagons.map(h => h.hexagonId), start, metric);
+    const byId = new Map(hexagons.map(h => [h.hexagonId, h] as const));
+    const ordered = assignConsecutiveTimeSlots(result.hexagonIds.map(id => byId.get(id)!), operatingWindow);
+
+    return {
+      proposal: result,
+      proposedHexagons: ordered,
+      windowError: validateHexagonsInWindow(ordered, operatingWindow),
+    };
+  }, [hexagons, operatingWindow, terminalLocation, startValue, metric]);
+
+  const savedPercent = proposal.currentDistance > 0
+    ? Math.round((1 - proposal.distance / proposal.currentDistance) * 100)
+    : 0;
+
+  return (
+    <Card className="p-3 space-y-3">
+      <div className="flex items-center gap-2 font-medium">
+        <Route className="h-4 w-4" />
+        Optimized Order
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="route-start" className="text-xs">Start From</Label>
+          <Select value={startValue} onValueChange={setStartValue}>
+            <SelectTrigger id="route-start">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {terminalLocation && <SelectItem value={TERMINAL_START}>Terminal (zone centre)</SelectItem>}
+              {hexagons.map((hexagon) => (
+                <SelectItem key={hexagon.hexagonId} value={hexagon.hexagonId}>
+                  Hex #{hexagon.hexagonNumber}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="route-metric" className="text-xs">Distance</Label>
+          <Select value={metric} onValueChange={(value) => setMetric(value as RouteDistanceMetric)}>
+            <SelectTrigger id="route-metric">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="grid">H3 grid steps</SelectItem>
+              <SelectItem value="haversine">Straight line (km)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {formatRouteDistance(proposal.currentDistance, metric)} → {formatRouteDistance(proposal.distance, metric)}
+        {savedPercent > 0 && <Badge variant="secondary" className="ml-2 text-xs">-{savedPercent}%</Badge>}
+      </p>
+
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {proposedHexagons.map((hexagon, index) => (
+          <div key={hexagon.hexagonId} className="flex items-center gap-2 text-xs">
+            <Badge variant="outline" className="text-xs">#{index + 1}</Badge>
+            <span className="w-16 flex-shrink-0">Hex #{hexagon.hexagonNumber}</span>
+            <ZonedTimeSlot slot={hexagon.timeSlot} timeZone={timeZone} className="text-muted-foreground" />
+          </div>
+        ))}
+      </div>
+
+      {windowError && <p className="text-sm text-destructive">{windowError}</p>}
+
+      <div className="flex gap-2">
+        <Button size="sm" className="flex-1" onClick={() => onAccept(proposedHexagons)} disabled={!!windowError}>
+          <Check className="h-4 w-4 mr-1" />
+          Accept
+        </Button>
+        <Button size="sm" variant="outline" onClick={onReject}>
+          <X className="h-4 w-4 mr-1" />
+          Reject
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import type { HexagonSchedule } from '@/types/scheduling';
+import { formatTimeSlot } from '@/lib/scheduling-utils';
+
+interface SavedRouteRowsProps {
+  route: HexagonSchedule; // the saved copy, as read back from storage
+}
+
+/**
+ * The stored rows of a route (one per stop), listed before they are removed or replaced
+ */
+export default function SavedRouteRows({ route }: SavedRouteRowsProps) {
+  return (
+    <div className="space-y-1">
+      <p className="text-sm font-medium text-foreground">
+        "{route.name}" at {route.terminalId}: {route.hexagons.length} row{route.hexagons.length !== 1 ? 's' : ''}
+      </p>
+      <ul className="max-h-32 overflow-y-auto rounded border p-2 text-xs space-y-0.5">
+        {route.hexagons.map((hexagon, index) => (
+          <li key={index} className="flex gap-2">
+            <span className="w-5 text-right text-muted-foreground">{index + 1}.</span>
+            <span className="font-mono">{hexagon.hexagonId}</span>
+            <span className="ml-auto">{formatTimeSlot(hexagon.timeSlot)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
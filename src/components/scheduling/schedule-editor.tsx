@@ -1,15 +1,17 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import type { HexagonSchedule, ScheduledHexagon } from '@/types/scheduling';
+import { useState, useEffect, useRef } from 'react';
+import type { HexagonSchedule, OperatingWindow, RecurrenceRule, ScheduledHexagon, ScheduleException, StopSelectionRequest } from '@/types/scheduling';
+import type { ScheduleDraft } from '@/types/session';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { X, Clock, MapPin, Plus, Edit } from 'lucide-react';
+import { X, Clock, MapPin, Plus, Edit, Route, LocateFixed } from 'lucide-react';
 import { 
   generateTimeSlots, 
   getNextAvailableTimeSlot, 
@@ -18,17 +20,37 @@ import {
   formatTimeSlot,
   sortScheduledHexagonsByTime,
   createCustomTimeSlot,
-  getHexagonNumber
+  getHexagonNumber,
+  formatOperatingWindow,
+  validateHexagonsInWindow,
+  getSlotDuration,
+  getSlotEndMinutes,
+  getWindowBounds,
+  getWindowTimeSlot,
+  createTimeSlotFromMinutes,
+  DEFAULT_OPERATING_WINDOW
 } from '@/lib/scheduling-utils';
+import { getTimeZoneAbbreviation } from '@/lib/time-zones';
+import { EVERY_DAY, applyExceptionOverrides, validateRecurrence } from '@/lib/recurrence';
 import CustomTimeInput from './custom-time-input';
-import { timeToMinutes, minutesToTime } from '@/lib/scheduling-utils';
+import ScheduleRecurrenceEditor from './schedule-recurrence-editor';
+import RouteOptimizerPanel from './route-optimizer-panel';
+import ZonedTimeSlot from './zoned-time-slot';
 
 interface ScheduleEditorProps {
   schedule?: HexagonSchedule | null;
+  draft?: ScheduleDraft | null; // unsaved edits to resume instead of the schedule as saved
   availableHexagons: string[];
   selectedHexagons: Set<string>;
   scheduledHexagons: ScheduledHexagon[];
-  onSave: (name: string, hexagons: ScheduledHexagon[]) => void;
+  operatingWindows: OperatingWindow[];
+  onSave: (
+    name: string,
+    hexagons: ScheduledHexagon[],
+    operatingWindow: OperatingWindow,
+    recurrence: RecurrenceRule,
+    exceptions: ScheduleException[]
+  ) => void;
   onCancel: () => void;
   onHexagonSelect: (hexagonId: string) => void;
   onHexagonDeselect: (hexagonId: string) => void;
@@ -37,14 +59,22 @@ interface ScheduleEditorProps {
   onHexagonVisualSelect?: (hexagonId: string) => void;
   onTimeInputOpenChange?: (isOpen: boolean) => void;
   onEditHexagonChange?: (hexId: string | null) => void;
+  onDraftChange?: (draft: ScheduleDraft) => void;
+  onCommand?: (label: string) => void; // called right before an undoable change to the stops
+  onZoomToHexagon?: (hexagonId: string) => void;
+  selectionRequest?: StopSelectionRequest | null; // stops picked or dropped with the map selection tools
   selectedTerminalId?: string;
+  timeZone?: string; // terminal zone the slot times are entered in
+  terminalLocation?: { lat: number; lng: number }; // where optimized routes can start
 }
 
 export default function ScheduleEditor({
   schedule,
+  draft,
   availableHexagons,
   selectedHexagons,
   scheduledHexagons,
+  operatingWindows,
   onSave,
   onCancel,
   onHexagonSelect,
@@ -54,34 +84,78 @@ export default function ScheduleEditor({
   onHexagonVisualSelect,
   onTimeInputOpenChange,
   onEditHexagonChange,
+  onDraftChange,
+  onCommand,
+  onZoomToHexagon,
+  selectionRequest,
   selectedTerminalId,
+  timeZone,
+  terminalLocation,
 }: ScheduleEditorProps) {
-  const [scheduleName, setScheduleName] = useState(schedule?.name || '');
+  const [scheduleName, setScheduleName] = useState(draft?.name ?? schedule?.name ?? '');
   const [nameError, setNameError] = useState<string | null>(null);
   const [showCustomTimeInput, setShowCustomTimeInput] = useState(false);
   const [selectedHexagonForCustomTime, setSelectedHexagonForCustomTime] = useState<string | null>(null);
+  const [operatingWindow, setOperatingWindow] = useState<OperatingWindow>(
+    draft?.operatingWindow ?? schedule?.operatingWindow ?? operatingWindows[0] ?? DEFAULT_OPERATING_WINDOW
+  );
+  const [recurrence, setRecurrence] = useState<RecurrenceRule>(draft?.recurrence ?? schedule?.recurrence ?? EVERY_DAY);
+  const [exceptions, setExceptions] = useState<ScheduleException[]>(draft?.exceptions ?? schedule?.exceptions ?? []);
+  const [showRouteOptimizer, setShowRouteOptimizer] = useState(false);
   const { toast } = useToast();
 
+  // A schedule keeps the window it was saved with even if that window has since been edited or removed
+  const windowOptions = operatingWindows.some(w => w.id === operatingWindow.id)
+    ? operatingWindows
+    : [operatingWindow, ...operatingWindows];
+
   // Local state for managing scheduled hexagons for both create and edit
-  const [localScheduledHexagons, setLocalScheduledHexagons] = useState<ScheduledHexagon[]>([]);
+  const [localScheduledHexagons, setLocalScheduledHexagons] = useState<ScheduledHexagon[]>(draft?.hexagons ?? []);
   
   // Always use local scheduled state for rendering; initialize from schedule when editing
   const currentScheduledHexagons = localScheduledHexagons;
 
-  const allTimeSlots = generateTimeSlots();
+  const allTimeSlots = generateTimeSlots(operatingWindow);
   const assignedTimeSlots = currentScheduledHexagons.map(h => h.timeSlot);
   const isAllSlotsFilled = areAllTimeSlotsFilled(allTimeSlots, assignedTimeSlots);
 
   useEffect(() => {
-    if (schedule) {
+    if (draft) {
+      // Resuming after a reload: the draft already holds the schedule's edits
+      setScheduleName(draft.name);
+      setLocalScheduledHexagons(draft.hexagons);
+      setOperatingWindow(draft.operatingWindow);
+      setRecurrence(draft.recurrence);
+      setExceptions(draft.exceptions);
+    } else if (schedule) {
       setScheduleName(schedule.name);
       setLocalScheduledHexagons(schedule.hexagons || []);
+      setOperatingWindow(schedule.operatingWindow);
+      setRecurrence(schedule.recurrence);
+      setExceptions(schedule.exceptions);
     } else {
       // When creating a new schedule, reset local state
       setScheduleName('');
       setLocalScheduledHexagons([]);
+      setOperatingWindow(operatingWindows[0] ?? DEFAULT_OPERATING_WINDOW);
+      setRecurrence(EVERY_DAY);
+      setExceptions([]);
+    }
+  }, [schedule, draft]);
+
+  // Autosave what is in the editor so a reload or crash does not lose it
+  useEffect(() => {
+    if (onDraftChange) {
+      onDraftChange({
+        scheduleId: schedule?.id,
+        name: scheduleName,
+        hexagons: localScheduledHexagons,
+        operatingWindow,
+        recurrence,
+        exceptions,
+      });
     }
-  }, [schedule]);
+  }, [schedule, scheduleName, localScheduledHexagons, operatingWindow, recurrence, exceptions, onDraftChange]);
 
   // Notify parent when local scheduled hexagons change (for both create and edit)
   useEffect(() => {
@@ -108,6 +182,47 @@ export default function ScheduleEditor({
     }
   }, [selectedHexagons, currentScheduledHexagons, showCustomTimeInput]);
 
+  // The request already pending when the editor (re)mounts has been applied by an earlier instance
+  const appliedSelectionRequest = useRef(selectionRequest);
+
+  // New stops take the next free slots, in the order the map tool reached them
+  useEffect(() => {
+    if (!selectionRequest || selectionRequest === appliedSelectionRequest.current) return;
+    appliedSelectionRequest.current = selectionRequest;
+
+    const removed = new Set(selectionRequest.remove);
+    let next = localScheduledHexagons.filter(h => !removed.has(h.hexagonId));
+    const added: string[] = [];
+    selectionRequest.add.forEach(hexagonId => {
+      const timeSlot = getNextAvailableTimeSlot(allTimeSlots, next.map(h => h.timeSlot));
+      if (!timeSlot) return;
+      const hexagonNumber = getHexagonNumber(hexagonId, availableHexagons);
+      next = [...next, { hexagonId, hexagonNumber, timeSlot, polygonId: 0 }];
+      added.push(hexagonId);
+    });
+
+    const skipped = selectionRequest.add.length - added.length;
+    if (skipped > 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Not all stops fit',
+        description: `${skipped} selected hexagon(s) were left out: the operating window has no free slots for them.`,
+      });
+    }
+    if (added.length === 0 && selectionRequest.remove.length === 0) return;
+
+    if (onCommand) {
+      const parts = [
+        added.length > 0 && `add ${added.length}`,
+        selectionRequest.remove.length > 0 && `remove ${selectionRequest.remove.length}`,
+      ].filter(Boolean);
+      onCommand(`Map selection: ${parts.join(', ')} stop(s)`);
+    }
+    selectionRequest.remove.forEach(hexagonId => onHexagonDeselect(hexagonId));
+    if (onHexagonVisualSelect) added.forEach(hexagonId => onHexagonVisualSelect(hexagonId));
+    setLocalScheduledHexagons(next);
+  }, [selectionRequest]);
+
   const handleNameChange = (value: string) => {
     setScheduleName(value);
     setNameError(null);
@@ -126,6 +241,8 @@ export default function ScheduleEditor({
   };
 
   const handleRemoveHexagon = (hexagonId: string) => {
+    const removed = localScheduledHexagons.find(h => h.hexagonId === hexagonId);
+    if (onCommand && removed) onCommand(`Remove stop Hex #${removed.hexagonNumber}`);
     // Always inform parent to clear visual selection and any global state
     onHexagonDeselect(hexagonId);
     // Update local state (both create and edit)
@@ -161,34 +278,33 @@ export default function ScheduleEditor({
       const updated = [...sorted];
       // Update the edited hexagon
       const edited = { ...updated[idx] };
-      edited.timeSlot = { ...edited.timeSlot, start: timeSlot.start, end: timeSlot.end };
+      edited.timeSlot = { ...timeSlot };
       edited.customDuration = duration;
       updated[idx] = edited;
 
-      // Recompute subsequent hexagons preserving their durations
+      // Recompute subsequent hexagons preserving their durations (absolute minutes so the chain can cross midnight)
       for (let i = idx + 1; i < updated.length; i++) {
-        const prevEnd = updated[i - 1].timeSlot.end;
-        const dur = updated[i].customDuration ?? (timeToMinutes(updated[i].timeSlot.end) - timeToMinutes(updated[i].timeSlot.start));
-        const newStart = prevEnd;
-        const newEnd = minutesToTime(timeToMinutes(newStart) + dur);
+        const prevEnd = getSlotEndMinutes(updated[i - 1].timeSlot);
+        const dur = updated[i].customDuration ?? getSlotDuration(updated[i].timeSlot);
         updated[i] = {
           ...updated[i],
-          timeSlot: { ...updated[i].timeSlot, start: newStart, end: newEnd },
+          timeSlot: createTimeSlotFromMinutes(prevEnd, prevEnd + dur),
           customDuration: dur,
         };
       }
 
-      // Constraint: last end must be <= 20:00
-      const lastEndMinutes = timeToMinutes(updated[updated.length - 1].timeSlot.end);
-      if (lastEndMinutes > timeToMinutes('20:00')) {
+      // Constraint: the shifted stops must still end inside the operating window
+      const lastEndMinutes = getSlotEndMinutes(updated[updated.length - 1].timeSlot);
+      if (lastEndMinutes > getWindowBounds(operatingWindow).end) {
         toast({
           variant: 'destructive',
           title: 'Time exceeds allowed range',
-          description: 'Schedules must fit between 4:30 PM and 8:00 PM.',
+          description: `Schedules must fit between ${formatTimeSlot(getWindowTimeSlot(operatingWindow))}.`,
         });
         return; // do not apply
       }
 
+      if (onCommand) onCommand(`Change time of Hex #${edited.hexagonNumber}`);
       // Apply updates back to local state preserving original unsorted order by hexagonId mapping
       const updatedById = new Map(updated.map(h => [h.hexagonId, h] as const));
       setLocalScheduledHexagons(prev => prev.map(h => updatedById.get(h.hexagonId) || h));
@@ -202,6 +318,7 @@ export default function ScheduleEditor({
         polygonId: 0,
         customDuration: duration,
       };
+      if (onCommand) onCommand(`Add stop Hex #${hexagonNumber}`);
       setLocalScheduledHexagons(prev => [...prev, newScheduledHexagon]);
       onHexagonSelectWithCustomTime(selectedHexagonForCustomTime, timeSlot, duration);
     }
@@ -230,6 +347,17 @@ export default function ScheduleEditor({
     if (onEditHexagonChange) onEditHexagonChange(null);
   };
 
+  const handleAcceptOptimizedRoute = (hexagons: ScheduledHexagon[]) => {
+    // Array order is the visiting order: the map numbers stops by it and the sheet writes it as Ordering
+    if (onCommand) onCommand('Reorder route');
+    setLocalScheduledHexagons(hexagons);
+    setShowRouteOptimizer(false);
+    toast({
+      title: 'Route Reordered',
+      description: `${hexagons.length} stops re-timed back to back in the optimized order.`,
+    });
+  };
+
   const handleSave = () => {
     const error = validateScheduleName(scheduleName, []);
     if (error) {
@@ -246,7 +374,66 @@ export default function ScheduleEditor({
       return;
     }
 
-    onSave(scheduleName.trim(), currentScheduledHexagons);
+    const windowError = validateHexagonsInWindow(currentScheduledHexagons, operatingWindow);
+    if (windowError) {
+      toast({
+        variant: 'destructive',
+        title: `Outside the ${operatingWindow.shift} window`,
+        description: windowError,
+      });
+      return;
+    }
+
+    const recurrenceError = validateRecurrence(recurrence);
+    if (recurrenceError) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid recurrence',
+        description: recurrenceError,
+      });
+      return;
+    }
+
+    // Drop overrides for stops that have since been removed from the route
+    const scheduledIds = new Set(currentScheduledHexagons.map(h => h.hexagonId));
+    const savedExceptions = exceptions.map(exception => (
+      exception.overrides
+        ? {
+            ...exception,
+            overrides: Object.fromEntries(Object.entries(exception.overrides).filter(([id]) => scheduledIds.has(id))),
+          }
+        : exception
+    ));
+
+    for (const exception of savedExceptions) {
+      if (exception.type !== 'override') continue;
+      const overrideError = validateHexagonsInWindow(applyExceptionOverrides(currentScheduledHexagons, exception), operatingWindow);
+      if (overrideError) {
+        toast({
+          variant: 'destructive',
+          title: `Changed times on ${exception.date} fall outside the ${operatingWindow.shift} window`,
+          description: overrideError,
+        });
+        return;
+      }
+    }
+
+    onSave(scheduleName.trim(), currentScheduledHexagons, operatingWindow, recurrence, savedExceptions);
+  };
+
+  const handleOperatingWindowChange = (windowId: string) => {
+    const nextWindow = windowOptions.find(w => w.id === windowId);
+    if (!nextWindow) return;
+
+    setOperatingWindow(nextWindow);
+    const windowError = validateHexagonsInWindow(currentScheduledHexagons, nextWindow);
+    if (windowError) {
+      toast({
+        variant: 'destructive',
+        title: `Some stops fall outside the ${nextWindow.shift} window`,
+        description: `${windowError}. Adjust them before saving.`,
+      });
+    }
   };
 
   const sortedScheduledHexagons = sortScheduledHexagonsByTime(currentScheduledHexagons);
@@ -271,6 +458,11 @@ export default function ScheduleEditor({
           <span className="font-medium">Terminal ID:</span> {selectedTerminalId}
         </div>
       )}
+      {timeZone && (
+        <div className="text-sm text-muted-foreground">
+          <span className="font-medium">Time Zone:</span> {timeZone} ({getTimeZoneAbbreviation(timeZone)}) &bull; times are terminal-local
+        </div>
+      )}
       {/* Schedule Name */}
       <div className="space-y-2">
         <Label htmlFor="schedule-name">Schedule Name</Label>
@@ -286,6 +478,36 @@ export default function ScheduleEditor({
         )}
       </div>
 
+      {/* Operating Window */}
+      <div className="space-y-2">
+        <Label htmlFor="operating-window">Operating Window</Label>
+        <Select value={operatingWindow.id} onValueChange={handleOperatingWindowChange}>
+          <SelectTrigger id="operating-window">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {windowOptions.map((w) => (
+              <SelectItem key={w.id} value={w.id}>
+                {formatOperatingWindow(w)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {operatingWindow.slotMinutes}-minute slots, stops of {operatingWindow.minDurationMinutes}-{operatingWindow.maxDurationMinutes} minutes.
+        </p>
+      </div>
+
+      {/* Recurrence */}
+      <ScheduleRecurrenceEditor
+        recurrence={recurrence}
+        exceptions={exceptions}
+        hexagons={sortedScheduledHexagons}
+        operatingWindow={operatingWindow}
+        onRecurrenceChange={setRecurrence}
+        onExceptionsChange={setExceptions}
+      />
+
       <Separator />
 
       {/* Available Hexagons */}
@@ -365,11 +587,35 @@ export default function ScheduleEditor({
       <div className="space-y-3">
         <div className="flex items-center justify-between">
           <h4 className="font-medium">Scheduled Hexagons</h4>
-          <Badge variant="default">
-            {currentScheduledHexagons.length} scheduled
-          </Badge>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowRouteOptimizer(true)}
+              disabled={currentScheduledHexagons.length < 2 || showRouteOptimizer}
+              className="text-xs"
+              title="Propose a visiting order that avoids zig-zags"
+            >
+              <Route className="h-3 w-3 mr-1" />
+              Optimize Order
+            </Button>
+            <Badge variant="default">
+              {currentScheduledHexagons.length} scheduled
+            </Badge>
+          </div>
         </div>
 
+        {showRouteOptimizer && currentScheduledHexagons.length >= 2 && (
+          <RouteOptimizerPanel
+            hexagons={sortedScheduledHexagons}
+            operatingWindow={operatingWindow}
+            terminalLocation={terminalLocation}
+            timeZone={timeZone}
+            onAccept={handleAcceptOptimizedRoute}
+            onReject={() => setShowRouteOptimizer(false)}
+          />
+        )}
+
         {currentScheduledHexagons.length === 0 ? (
           <div className="p-4 text-center text-sm text-muted-foreground border-2 border-dashed rounded-lg">
             <MapPin className="h-8 w-8 mx-auto mb-2 opacity-50" />
@@ -389,15 +635,24 @@ export default function ScheduleEditor({
                       <p className="font-medium text-sm">
                         Hex #{scheduledHex.hexagonNumber}
                       </p>
-                      <p className="text-xs text-muted-foreground">
-                        {formatTimeSlot(scheduledHex.timeSlot)}
-                        {scheduledHex.customDuration && scheduledHex.customDuration !== 15 && (
+                      <ZonedTimeSlot slot={scheduledHex.timeSlot} timeZone={timeZone} className="block text-xs text-muted-foreground">
+                        {scheduledHex.customDuration && scheduledHex.customDuration !== operatingWindow.slotMinutes && (
                           <span className="ml-1 text-primary">({scheduledHex.customDuration}m)</span>
                         )}
-                      </p>
+                      </ZonedTimeSlot>
                     </div>
                   </div>
                   <div className="flex items-center gap-1">
+                    {onZoomToHexagon && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onZoomToHexagon(scheduledHex.hexagonId)}
+                        title="Zoom to hexagon"
+                      >
+                        <LocateFixed className="h-4 w-4" />
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
@@ -428,16 +683,18 @@ export default function ScheduleEditor({
           {(() => {
             const editing = currentScheduledHexagons.find(h => h.hexagonId === selectedHexagonForCustomTime);
             const defStart = editing ? editing.timeSlot.start : undefined;
-            const defDuration = editing ? (editing.customDuration ?? (timeToMinutes(editing.timeSlot.end) - timeToMinutes(editing.timeSlot.start))) : undefined;
+            const defDuration = editing ? (editing.customDuration ?? getSlotDuration(editing.timeSlot)) : undefined;
             return (
               <CustomTimeInput
                 existingSlots={existingSlotsForValidation}
+                operatingWindow={operatingWindow}
                 onTimeSlotSelect={handleCustomTimeSlotSelect}
                 onCancel={handleCancelCustomTime}
                 selectedHexagonId={selectedHexagonForCustomTime}
                 scheduledHexagons={currentScheduledHexagons}
                 defaultStartTime={defStart}
                 defaultDuration={defDuration}
+                timeZone={timeZone}
               />
             );
           })()}
@@ -1,37 +1,42 @@
 'use client';
 
-import type { HexagonSchedule } from '@/types/scheduling';
+import { useState } from 'react';
+import type { HexagonSchedule, ScheduledHexagon } from '@/types/scheduling';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
   DropdownMenuItem, 
   DropdownMenuTrigger 
 } from '@/components/ui/dropdown-menu';
-import { 
-  AlertDialog, 
-  AlertDialogAction, 
-  AlertDialogCancel, 
-  AlertDialogContent, 
-  AlertDialogDescription, 
-  AlertDialogFooter, 
-  AlertDialogHeader, 
-  AlertDialogTitle, 
-  AlertDialogTrigger 
-} from '@/components/ui/alert-dialog';
-import { MoreVertical, Edit, Trash2, Copy, Eye } from 'lucide-react';
-import { formatTimeSlot, sortScheduledHexagonsByTime } from '@/lib/scheduling-utils';
+import { MoreVertical, Edit, Trash2, Copy, Eye, LocateFixed } from 'lucide-react';
+import {
+  createTimeSlotFromMinutes,
+  formatOperatingWindow,
+  getSlotEndMinutes,
+  getSlotStartMinutes,
+  sortScheduledHexagonsByTime,
+} from '@/lib/scheduling-utils';
+import { formatRecurrence, getScheduleException, getScheduleForDate, toDateKey } from '@/lib/recurrence';
+import ZonedTimeSlot from './zoned-time-slot';
+import DeleteRouteDialog from './delete-route-dialog';
 
 interface ScheduleListProps {
   schedules: HexagonSchedule[];
   onEdit: (schedule: HexagonSchedule) => void;
-  onDelete: (id: string) => void;
+  onDelete: (id: string, removedSavedRows: boolean) => void;
   onDuplicate: (id: string) => void;
+  onZoomTo?: (schedule: HexagonSchedule) => void;
 }
 
-export default function ScheduleList({ schedules, onEdit, onDelete, onDuplicate }: ScheduleListProps) {
+export default function ScheduleList({ schedules, onEdit, onDelete, onDuplicate, onZoomTo }: ScheduleListProps) {
+  // Date whose version of each route is shown (weekday pattern, holidays and changed times applied)
+  const [viewDate, setViewDate] = useState(() => toDateKey(new Date()));
+
   const formatDate = (date: Date) => {
     return new Intl.DateTimeFormat('en-US', {
       month: 'short',
@@ -41,14 +46,15 @@ export default function ScheduleList({ schedules, onEdit, onDelete, onDuplicate
     }).format(date);
   };
 
-  const getScheduleDuration = (schedule: HexagonSchedule) => {
-    if (schedule.hexagons.length === 0) return 'No hexagons';
+  const getScheduleDuration = (schedule: HexagonSchedule, hexagons: ScheduledHexagon[]) => {
+    if (hexagons.length === 0) return 'No hexagons';
     
-    const sortedHexagons = sortScheduledHexagonsByTime(schedule.hexagons);
+    const sortedHexagons = sortScheduledHexagonsByTime(hexagons);
     const firstSlot = sortedHexagons[0].timeSlot;
     const lastSlot = sortedHexagons[sortedHexagons.length - 1].timeSlot;
+    const span = createTimeSlotFromMinutes(getSlotStartMinutes(firstSlot), getSlotEndMinutes(lastSlot));
     
-    return `${formatTimeSlot(firstSlot)} - ${formatTimeSlot(lastSlot)}`;
+    return <ZonedTimeSlot slot={span} timeZone={schedule.timeZone} />;
   };
 
   if (schedules.length === 0) {
@@ -62,75 +68,91 @@ export default function ScheduleList({ schedules, onEdit, onDelete, onDuplicate
 
   return (
     <div className="space-y-3 px-2">
-      {schedules.map((schedule) => (
-        <Card key={schedule.id} className="p-4">
-          <div className="flex items-start justify-between">
-            <div className="flex-1 min-w-0">
-              <div className="flex items-center gap-2 mb-2">
-                <h4 className="font-semibold truncate">{schedule.name}</h4>
-                <Badge variant="secondary" className="text-xs">
-                  {schedule.hexagons.length} hexagon{schedule.hexagons.length !== 1 ? 's' : ''}
-                </Badge>
-              </div>
-              
-              <div className="space-y-1 text-sm text-muted-foreground">
-                <p>Duration: {getScheduleDuration(schedule)}</p>
-                <p>Created: {formatDate(schedule.createdAt)}</p>
-                {schedule.updatedAt.getTime() !== schedule.createdAt.getTime() && (
-                  <p>Updated: {formatDate(schedule.updatedAt)}</p>
-                )}
-              </div>
-            </div>
+      <div className="flex items-center gap-2">
+        <Label htmlFor="schedule-view-date" className="text-sm whitespace-nowrap">Show routes on</Label>
+        <Input
+          id="schedule-view-date"
+          type="date"
+          value={viewDate}
+          onChange={(e) => setViewDate(e.target.value || toDateKey(new Date()))}
+        />
+      </div>
+      {schedules.map((schedule) => {
+        const hexagonsOnDate = getScheduleForDate(schedule, viewDate);
+        const exceptionOnDate = getScheduleException(schedule, viewDate);
 
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="ghost" size="sm">
-                  <MoreVertical className="h-4 w-4" />
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end">
-                <DropdownMenuItem onClick={() => onEdit(schedule)}>
-                  <Edit className="h-4 w-4 mr-2" />
-                  Edit
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => onDuplicate(schedule.id)}>
-                  <Copy className="h-4 w-4 mr-2" />
-                  Duplicate
-                </DropdownMenuItem>
-                <DropdownMenuItem disabled>
-                  <Eye className="h-4 w-4 mr-2" />
-                  View (Coming Soon)
-                </DropdownMenuItem>
-                <AlertDialog>
-                  <AlertDialogTrigger asChild>
+        return (
+          <Card key={schedule.id} className={`p-4 ${hexagonsOnDate ? '' : 'opacity-60'}`}>
+            <div className="flex items-start justify-between">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-2">
+                  <h4 className="font-semibold truncate">{schedule.name}</h4>
+                  <Badge variant="secondary" className="text-xs">
+                    {schedule.hexagons.length} hexagon{schedule.hexagons.length !== 1 ? 's' : ''}
+                  </Badge>
+                </div>
+                
+                <div className="space-y-1 text-sm text-muted-foreground">
+                  {hexagonsOnDate ? (
+                    <div>Duration: {getScheduleDuration(schedule, hexagonsOnDate)}</div>
+                  ) : (
+                    <p>Not running on {viewDate}</p>
+                  )}
+                  {exceptionOnDate && (
+                    <p className="text-primary">
+                      {exceptionOnDate.type === 'skip' ? 'No service' : 'Changed times'} on {viewDate}
+                      {exceptionOnDate.note && <> ({exceptionOnDate.note})</>}
+                    </p>
+                  )}
+                  <p>Runs: {formatRecurrence(schedule.recurrence)}</p>
+                  {schedule.exceptions.length > 0 && (
+                    <p>Exceptions: {schedule.exceptions.length}</p>
+                  )}
+                  <p>Window: {formatOperatingWindow(schedule.operatingWindow)}</p>
+                  <p>Created: {formatDate(schedule.createdAt)}</p>
+                  {schedule.updatedAt.getTime() !== schedule.createdAt.getTime() && (
+                    <p>Updated: {formatDate(schedule.updatedAt)}</p>
+                  )}
+                </div>
+              </div>
+  
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm">
+                    <MoreVertical className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => onEdit(schedule)}>
+                    <Edit className="h-4 w-4 mr-2" />
+                    Edit
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => onDuplicate(schedule.id)}>
+                    <Copy className="h-4 w-4 mr-2" />
+                    Duplicate
+                  </DropdownMenuItem>
+                  {onZoomTo && (
+                    <DropdownMenuItem onClick={() => onZoomTo(schedule)} disabled={schedule.hexagons.length === 0}>
+                      <LocateFixed className="h-4 w-4 mr-2" />
+                      Zoom to Route
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem disabled>
+                    <Eye className="h-4 w-4 mr-2" />
+                    View (Coming Soon)
+                  </DropdownMenuItem>
+                  <DeleteRouteDialog schedule={schedule} onDelete={onDelete}>
                     <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
                       <Trash2 className="h-4 w-4 mr-2" />
                       Delete
                     </DropdownMenuItem>
-                  </AlertDialogTrigger>
-                  <AlertDialogContent>
-                    <AlertDialogHeader>
-                      <AlertDialogTitle>Delete Schedule</AlertDialogTitle>
-                      <AlertDialogDescription>
-                        Are you sure you want to delete "{schedule.name}"? This action cannot be undone.
-                      </AlertDialogDescription>
-                    </AlertDialogHeader>
-                    <AlertDialogFooter>
-                      <AlertDialogCancel>Cancel</AlertDialogCancel>
-                      <AlertDialogAction
-                        onClick={() => onDelete(schedule.id)}
-                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                      >
-                        Delete
-                      </AlertDialogAction>
-                    </AlertDialogFooter>
-                  </AlertDialogContent>
-                </AlertDialog>
-              </DropdownMenuContent>
-            </DropdownMenu>
-          </div>
-        </Card>
-      ))}
+                  </DeleteRouteDialog>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          </Card>
+        );
+      })}
     </div>
   );
 }
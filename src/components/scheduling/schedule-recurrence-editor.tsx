@@ -0,0 +1,206 @@
+'use client';
+
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  WEEKDAY_LABELS,
+  createCustomTimeSlot,
+  formatTimeSlot,
+  getSlotDuration,
+  resolveDayOffset,
+} from '@/lib/scheduling-utils';
+import { formatRecurrence, isValidDateKey } from '@/lib/recurrence';
+import type {
+  OperatingWindow,
+  RecurrenceRule,
+  ScheduledHexagon,
+  ScheduleException,
+  Weekday,
+} from '@/types/scheduling';
+
+interface ScheduleRecurrenceEditorProps {
+  recurrence: RecurrenceRule;
+  exceptions: ScheduleException[];
+  hexagons: ScheduledHexagon[]; // the route's usual stops, sorted by time
+  operatingWindow: OperatingWindow;
+  onRecurrenceChange: (recurrence: RecurrenceRule) => void;
+  onExceptionsChange: (exceptions: ScheduleException[]) => void;
+}
+
+export default function ScheduleRecurrenceEditor({
+  recurrence,
+  exceptions,
+  hexagons,
+  operatingWindow,
+  onRecurrenceChange,
+  onExceptionsChange,
+}: ScheduleRecurrenceEditorProps) {
+  const [newDate, setNewDate] = useState('');
+  const [newType, setNewType] = useState<ScheduleException['type']>('skip');
+  const [newNote, setNewNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleWeekday = (day: Weekday, checked: boolean) => {
+    const weekdays = checked
+      ? [...recurrence.weekdays, day].sort()
+      : recurrence.weekdays.filter(d => d !== day);
+    onRecurrenceChange({ ...recurrence, weekdays });
+  };
+
+  const handleAddException = () => {
+    if (!isValidDateKey(newDate)) {
+      setError('Pick a date for the exception');
+      return;
+    }
+    if (exceptions.some(e => e.date === newDate)) {
+      setError(`${newDate} already has an exception`);
+      return;
+    }
+
+    const exception: ScheduleException = {
+      date: newDate,
+      type: newType,
+      ...(newNote.trim() && { note: newNote.trim() }),
+      ...(newType === 'override' && { overrides: {} }),
+    };
+    onExceptionsChange([...exceptions, exception].sort((a, b) => a.date.localeCompare(b.date)));
+    setNewDate('');
+    setNewNote('');
+    setError(null);
+  };
+
+  const handleOverrideChange = (exception: ScheduleException, hexagon: ScheduledHexagon, start: string) => {
+    const overrides = { ...exception.overrides };
+    if (!start || start === hexagon.timeSlot.start) {
+      delete overrides[hexagon.hexagonId];
+    } else {
+      const duration = hexagon.customDuration ?? getSlotDuration(hexagon.timeSlot);
+      overrides[hexagon.hexagonId] = createCustomTimeSlot(start, duration, resolveDayOffset(start, operatingWindow));
+    }
+    onExceptionsChange(exceptions.map(e => (e.date === exception.date ? { ...e, overrides } : e)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Runs On</Label>
+        <div className="flex flex-wrap gap-3">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <div key={label} className="flex items-center gap-1">
+              <Checkbox
+                id={`recurrence-day-${day}`}
+                checked={recurrence.weekdays.includes(day as Weekday)}
+                onCheckedChange={(checked) => toggleWeekday(day as Weekday, Boolean(checked))}
+              />
+              <Label htmlFor={`recurrence-day-${day}`} className="text-xs font-normal">
+                {label}
+              </Label>
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="recurrence-from" className="text-xs">Effective From</Label>
+            <Input
+              id="recurrence-from"
+              type="date"
+              value={recurrence.effectiveFrom ?? ''}
+              onChange={(e) => onRecurrenceChange({ ...recurrence, effectiveFrom: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="recurrence-to" className="text-xs">Effective To</Label>
+            <Input
+              id="recurrence-to"
+              type="date"
+              value={recurrence.effectiveTo ?? ''}
+              onChange={(e) => onRecurrenceChange({ ...recurrence, effectiveTo: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">{formatRecurrence(recurrence)}. Leave all days unchecked for every day.</p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Exceptions</Label>
+          <Badge variant="outline">{exceptions.length}</Badge>
+        </div>
+
+        {exceptions.map((exception) => (
+          <div key={exception.date} className="space-y-2 rounded-lg border p-2 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <span className="font-medium">{exception.date}</span>
+                <Badge variant={exception.type === 'skip' ? 'secondary' : 'default'} className="ml-2 text-xs">
+                  {exception.type === 'skip' ? 'No service' : 'Changed times'}
+                </Badge>
+                {exception.note && <p className="text-xs text-muted-foreground truncate">{exception.note}</p>}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onExceptionsChange(exceptions.filter(e => e.date !== exception.date))}
+                title="Remove exception"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {exception.type === 'override' && (
+              hexagons.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Schedule some hexagons to override their times.</p>
+              ) : (
+                <div className="space-y-1">
+                  {hexagons.map((hexagon) => {
+                    const override = exception.overrides?.[hexagon.hexagonId];
+                    return (
+                      <div key={hexagon.hexagonId} className="flex items-center gap-2 text-xs">
+                        <span className="w-16 flex-shrink-0">Hex #{hexagon.hexagonNumber}</span>
+                        <Input
+                          type="time"
+                          className="h-8"
+                          value={(override ?? hexagon.timeSlot).start}
+                          onChange={(e) => handleOverrideChange(exception, hexagon, e.target.value)}
+                        />
+                        <span className={override ? 'text-primary' : 'text-muted-foreground'}>
+                          {formatTimeSlot(override ?? hexagon.timeSlot)}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )
+            )}
+          </div>
+        ))}
+
+        <div className="grid grid-cols-2 gap-2">
+          <Input type="date" value={newDate} onChange={(e) => setNewDate(e.target.value)} aria-label="Exception date" />
+          <Select value={newType} onValueChange={(value) => setNewType(value as ScheduleException['type'])}>
+            <SelectTrigger aria-label="Exception type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="skip">No service (holiday)</SelectItem>
+              <SelectItem value="override">Changed times</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex gap-2">
+          <Input value={newNote} placeholder="Note (e.g. Christmas)" onChange={(e) => setNewNote(e.target.value)} />
+          <Button variant="outline" size="sm" onClick={handleAddException}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -1,34 +1,56 @@
 'use client';
 
 import { useMemo, useState } from 'react';
-import type { HexagonSchedule, ScheduledHexagon } from '@/types/scheduling';
+import type { HexagonSchedule, OperatingWindow, RecurrenceRule, ScheduledHexagon, ScheduleException, StopSelectionRequest } from '@/types/scheduling';
+import type { ScheduleDraft } from '@/types/session';
 import ScheduleList from './schedule-list';
 import ScheduleEditor from './schedule-editor';
 import GoogleSheetsConfig from './google-sheets-config';
+import OperatingWindowsConfig from './operating-windows-config';
 import { Button } from '@/components/ui/button';
 import { Plus, ArrowLeft } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { getOperatingWindowsFor } from '@/lib/scheduling-utils';
+import { findRecurrenceConflict, formatRecurrence, getUncoveredWeekdays } from '@/lib/recurrence';
 
 interface ScheduleTabProps {
   schedules: HexagonSchedule[];
   availableHexagons: string[];
-  onScheduleCreate: (name: string, hexagons: ScheduledHexagon[], terminalId?: string) => void;
+  onScheduleCreate: (
+    name: string,
+    hexagons: ScheduledHexagon[],
+    terminalId: string | undefined,
+    operatingWindow: OperatingWindow,
+    recurrence: RecurrenceRule,
+    exceptions: ScheduleException[]
+  ) => void;
   onScheduleUpdate: (id: string, updates: Partial<HexagonSchedule>) => void;
-  onScheduleDelete: (id: string) => void;
-  onScheduleDuplicate: (id: string) => void;
+  onScheduleDelete: (id: string, removedSavedRows: boolean) => void;
+  onScheduleDuplicate: (id: string, recurrence: RecurrenceRule) => void;
   onHexagonSelect: (hexagonId: string) => void;
   onHexagonDeselect: (hexagonId: string) => void;
   onHexagonSelectWithCustomTime: (hexagonId: string, timeSlot: any, duration: number) => void;
   selectedHexagons: Set<string>;
   scheduledHexagons: ScheduledHexagon[];
+  operatingWindows: OperatingWindow[];
+  onOperatingWindowsChange: (windows: OperatingWindow[]) => void;
   onRoutesLoaded?: (routes: HexagonSchedule[]) => void;
+  onRouteSaved: (route: HexagonSchedule) => void;
+  onDataRefreshed?: () => void;
   onViewChange?: (view: 'list' | 'create' | 'edit') => void;
   onLocalScheduledHexagonsChange?: (hexagons: ScheduledHexagon[]) => void;
   selectedTerminalId?: string;
+  terminalTimeZone?: string;
+  terminalLocation?: { lat: number; lng: number };
   onClearSchedulingState?: () => void;
   onHexagonVisualSelect?: (hexagonId: string) => void;
   onTimeInputOpenChange?: (isOpen: boolean) => void;
   onEditHexagonChange?: (hexId: string | null) => void;
+  initialDraft?: ScheduleDraft | null; // an editor left open, reopened when the tab mounts
+  onDraftChange?: (draft: ScheduleDraft | null) => void; // null once the editor is closed
+  onCommand?: (label: string) => void;
+  onZoomToCells?: (cells: string[]) => void;
+  stopSelectionRequest?: StopSelectionRequest | null;
 }
 
 export default function ScheduleTab({
@@ -43,27 +65,45 @@ export default function ScheduleTab({
   onHexagonSelectWithCustomTime,
   selectedHexagons,
   scheduledHexagons,
+  operatingWindows,
+  onOperatingWindowsChange,
   onRoutesLoaded,
+  onRouteSaved,
+  onDataRefreshed,
   onViewChange,
   onLocalScheduledHexagonsChange,
   selectedTerminalId,
+  terminalTimeZone,
+  terminalLocation,
   onClearSchedulingState,
   onHexagonVisualSelect,
   onTimeInputOpenChange,
   onEditHexagonChange,
+  initialDraft,
+  onDraftChange,
+  onCommand,
+  onZoomToCells,
+  stopSelectionRequest,
 }: ScheduleTabProps) {
-  const [currentView, setCurrentView] = useState<'list' | 'create' | 'edit'>('list');
-  const [editingSchedule, setEditingSchedule] = useState<HexagonSchedule | null>(null);
+  // A draft of a schedule that has since been deleted is resumed as a new schedule
+  const [resumeDraft, setResumeDraft] = useState<ScheduleDraft | null>(initialDraft ?? null);
+  const [editingSchedule, setEditingSchedule] = useState<HexagonSchedule | null>(
+    () => schedules.find(s => s.id === initialDraft?.scheduleId) ?? null
+  );
+  const [currentView, setCurrentView] = useState<'list' | 'create' | 'edit'>(
+    initialDraft ? (editingSchedule ? 'edit' : 'create') : 'list'
+  );
   const { toast } = useToast();
 
-  const hasScheduleForSelectedTerminal = useMemo(() => {
-    if (!selectedTerminalId) return false;
-    return schedules.some(s => s.terminalId === selectedTerminalId);
-  }, [schedules, selectedTerminalId]);
+  const terminalWindows = useMemo(
+    () => getOperatingWindowsFor(operatingWindows, selectedTerminalId),
+    [operatingWindows, selectedTerminalId]
+  );
 
   const handleCreateNew = () => {
     setCurrentView('create');
     setEditingSchedule(null);
+    setResumeDraft(null);
     // Clear the global scheduling state when creating a new schedule
     // This ensures we start with a clean slate
     if (onClearSchedulingState) {
@@ -78,6 +118,7 @@ export default function ScheduleTab({
   const handleEdit = (schedule: HexagonSchedule) => {
     setEditingSchedule(schedule);
     setCurrentView('edit');
+    setResumeDraft(null);
     // Clear current visual selections and global scheduled state; editor will rehydrate
     if (onClearSchedulingState) {
       onClearSchedulingState();
@@ -88,30 +129,77 @@ export default function ScheduleTab({
     }
   };
 
+  // Routes of a terminal must not run on the same days, so the copy takes the days none of them cover yet
+  // (duplicating a weekday route gives a weekend route). With every day taken, the copy keeps the source's
+  // days and opens in the editor, where saving asks for days that do not overlap.
+  const handleDuplicate = (id: string) => {
+    const source = schedules.find(s => s.id === id);
+    if (!source) return;
+
+    const terminalRoutes = schedules.filter(s => s.terminalId === source.terminalId);
+    const freeWeekdays = getUncoveredWeekdays(terminalRoutes.map(s => s.recurrence));
+    if (freeWeekdays.length > 0) {
+      onScheduleDuplicate(id, { weekdays: freeWeekdays });
+      return;
+    }
+
+    onClearSchedulingState?.();
+    setEditingSchedule(null);
+    setResumeDraft({
+      name: `${source.name} (Copy)`,
+      hexagons: source.hexagons,
+      operatingWindow: source.operatingWindow,
+      recurrence: source.recurrence,
+      exceptions: [],
+    });
+    setCurrentView('create');
+    source.hexagons.forEach(hexagon => onHexagonVisualSelect?.(hexagon.hexagonId));
+    onViewChange?.('create');
+    toast({
+      title: 'Set the days for the copy',
+      description: `Every day already has a route for this terminal, and the copy runs ${formatRecurrence(source.recurrence)} like "${source.name}". Change its days or those of an existing route before saving.`,
+    });
+  };
+
   const handleBackToList = () => {
     setCurrentView('list');
     setEditingSchedule(null);
+    setResumeDraft(null);
+    if (onDraftChange) {
+      onDraftChange(null);
+    }
     // Notify parent about view change
     if (onViewChange) {
       onViewChange('list');
     }
   };
 
-  const handleSave = (name: string, hexagons: ScheduledHexagon[]) => {
+  const handleSave = (
+    name: string,
+    hexagons: ScheduledHexagon[],
+    operatingWindow: OperatingWindow,
+    recurrence: RecurrenceRule,
+    exceptions: ScheduleException[]
+  ) => {
+    // A terminal may have several routes (e.g. weekday and weekend) as long as they never run on the same day
+    const conflict = findRecurrenceConflict(schedules, {
+      id: editingSchedule?.id,
+      terminalId: editingSchedule?.terminalId ?? selectedTerminalId ?? '',
+      recurrence,
+    });
+    if (conflict) {
+      toast({
+        variant: 'destructive',
+        title: 'Overlapping routes',
+        description: `"${conflict.name}" already runs ${formatRecurrence(conflict.recurrence)} for this terminal. Change the days or dates of one of them.`,
+      });
+      return;
+    }
+
     if (editingSchedule) {
-      onScheduleUpdate(editingSchedule.id, { name, hexagons, updatedAt: new Date() });
+      onScheduleUpdate(editingSchedule.id, { name, hexagons, operatingWindow, recurrence, exceptions, updatedAt: new Date() });
     } else {
-      if (hasScheduleForSelectedTerminal) {
-        toast({
-          variant: 'destructive',
-          title: 'Limit Reached',
-          description: 'Only one route per terminal is allowed. Edit the existing route instead.',
-        });
-        setCurrentView('list');
-        if (onViewChange) onViewChange('list');
-        return;
-      }
-      onScheduleCreate(name, hexagons, selectedTerminalId);
+      onScheduleCreate(name, hexagons, selectedTerminalId, operatingWindow, recurrence, exceptions);
     }
     handleBackToList();
   };
@@ -122,11 +210,6 @@ export default function ScheduleTab({
     }
   };
 
-  const handleRouteSave = async (route: HexagonSchedule) => {
-    // This will be handled by the GoogleSheetsConfig component
-    // We could add auto-save functionality here if needed
-  };
-
   if (availableHexagons.length === 0) {
     return (
       <div className="p-4 text-center text-sm text-muted-foreground">
@@ -143,11 +226,11 @@ export default function ScheduleTab({
           <div className="flex items-center justify-between px-2">
             <div className="flex flex-col">
               <h3 className="text-lg font-semibold">Schedule Routes</h3>
-              {hasScheduleForSelectedTerminal && (
-                <span className="text-xs text-muted-foreground">Only one route per terminal is allowed.</span>
+              {schedules.some(s => s.terminalId === selectedTerminalId) && (
+                <span className="text-xs text-muted-foreground">Routes of a terminal must run on different days.</span>
               )}
             </div>
-            <Button onClick={handleCreateNew} size="sm" disabled={hasScheduleForSelectedTerminal} title={hasScheduleForSelectedTerminal ? 'Only one route per terminal is allowed. Edit the existing route.' : ''}>
+            <Button onClick={handleCreateNew} size="sm">
               <Plus className="h-4 w-4 mr-2" />
               New Schedule
             </Button>
@@ -156,13 +239,20 @@ export default function ScheduleTab({
             schedules={schedules}
             onEdit={handleEdit}
             onDelete={onScheduleDelete}
-            onDuplicate={onScheduleDuplicate}
+            onDuplicate={handleDuplicate}
+            onZoomTo={onZoomToCells && ((schedule) => onZoomToCells(schedule.hexagons.map(h => h.hexagonId)))}
           />
           <GoogleSheetsConfig
-            onRouteSave={handleRouteSave}
+            onRouteSaved={onRouteSaved}
             onRoutesLoaded={handleRoutesLoaded}
             currentRoutes={schedules}
             selectedTerminalId={selectedTerminalId}
+            onDataRefreshed={onDataRefreshed}
+          />
+          <OperatingWindowsConfig
+            operatingWindows={operatingWindows}
+            onOperatingWindowsChange={onOperatingWindowsChange}
+            selectedTerminalId={selectedTerminalId}
           />
         </>
       )}
@@ -180,9 +270,11 @@ export default function ScheduleTab({
           </div>
           <ScheduleEditor
             schedule={editingSchedule}
+            draft={resumeDraft}
             availableHexagons={availableHexagons}
             selectedHexagons={selectedHexagons}
             scheduledHexagons={editingSchedule ? editingSchedule.hexagons : []}
+            operatingWindows={terminalWindows}
             onSave={handleSave}
             onCancel={handleBackToList}
             onHexagonSelect={onHexagonSelect}
@@ -192,7 +284,13 @@ export default function ScheduleTab({
             onHexagonVisualSelect={onHexagonVisualSelect}
             onTimeInputOpenChange={onTimeInputOpenChange}
             onEditHexagonChange={onEditHexagonChange}
+            onDraftChange={onDraftChange}
+            onCommand={onCommand}
+            onZoomToHexagon={onZoomToCells && ((hexagonId) => onZoomToCells([hexagonId]))}
+            selectionRequest={stopSelectionRequest}
             selectedTerminalId={selectedTerminalId}
+            timeZone={editingSchedule?.timeZone ?? terminalTimeZone}
+            terminalLocation={terminalLocation}
           />
         </>
       )}
@@ -4,8 +4,9 @@ import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { MapPin, Clock, Eye, EyeOff } from 'lucide-react';
-import { formatTimeSlot, sortScheduledHexagonsByTime } from '@/lib/scheduling-utils';
+import { formatDuration, formatTimeSlot, getSlotEndMinutes, getSlotStartMinutes, sortScheduledHexagonsByTime } from '@/lib/scheduling-utils';
 import type { HexagonSchedule, ScheduledHexagon } from '@/types/scheduling';
+import ZonedTimeSlot from './zoned-time-slot';
 
 interface ScheduleVisualizerProps {
   schedule: HexagonSchedule;
@@ -37,20 +38,10 @@ export default function ScheduleVisualizer({
     const firstSlot = sortedHexagons[0].timeSlot;
     const lastSlot = sortedHexagons[sortedHexagons.length - 1].timeSlot;
     
-    const [startHour, startMin] = firstSlot.start.split(':').map(Number);
-    const [endHour, endMin] = lastSlot.end.split(':').map(Number);
+    // Absolute minutes keep a 22:00 - 02:00 route at 4h instead of going negative
+    const totalMinutes = getSlotEndMinutes(lastSlot) - getSlotStartMinutes(firstSlot);
     
-    const startMinutes = startHour * 60 + startMin;
-    const endMinutes = endHour * 60 + endMin;
-    const totalMinutes = endMinutes - startMinutes;
-    
-    const hours = Math.floor(totalMinutes / 60);
-    const minutes = totalMinutes % 60;
-    
-    if (hours > 0) {
-      return `${hours}h ${minutes}m`;
-    }
-    return `${minutes}m`;
+    return formatDuration(totalMinutes);
   };
 
   return (
@@ -128,9 +119,11 @@ export default function ScheduleVisualizer({
                     </div>
                     <div className="flex items-center gap-2 mt-1">
                       <Clock className="h-3 w-3 text-muted-foreground" />
-                      <span className="text-sm text-muted-foreground">
-                        {formatTimeSlot(scheduledHex.timeSlot)}
-                      </span>
+                      <ZonedTimeSlot
+                        slot={scheduledHex.timeSlot}
+                        timeZone={schedule.timeZone}
+                        className="text-sm text-muted-foreground"
+                      />
                     </div>
                   </div>
 
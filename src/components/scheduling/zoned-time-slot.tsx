@@ -0,0 +1,38 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { formatTimeSlot } from '@/lib/scheduling-utils';
+import { convertTimeSlot, getTimeZoneAbbreviation, getViewerTimeZone, getTimeZoneOffset } from '@/lib/time-zones';
+import type { TimeSlot } from '@/types/scheduling';
+
+interface ZonedTimeSlotProps {
+  slot: TimeSlot;
+  timeZone?: string; // terminal zone the slot's times are in
+  className?: string;
+  children?: ReactNode; // inline extras after the terminal-local time, e.g. a duration
+}
+
+/**
+ * Terminal-local slot with its zone, plus the viewer's local time when the two differ
+ */
+export default function ZonedTimeSlot({ slot, timeZone, className, children }: ZonedTimeSlotProps) {
+  if (!timeZone) {
+    return <span className={className}>{formatTimeSlot(slot)}{children}</span>;
+  }
+
+  const now = new Date();
+  const viewerTimeZone = getViewerTimeZone();
+  const sameOffset = getTimeZoneOffset(timeZone, now) === getTimeZoneOffset(viewerTimeZone, now);
+
+  return (
+    <span className={className} title={timeZone}>
+      {formatTimeSlot(slot)} {getTimeZoneAbbreviation(timeZone, now)}
+      {children}
+      {!sameOffset && (
+        <span className="block text-xs text-muted-foreground">
+          {formatTimeSlot(convertTimeSlot(slot, timeZone, viewerTimeZone, now))} your time ({getTimeZoneAbbreviation(viewerTimeZone, now)})
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { useState } from 'react';
+import { FolderOpen, Pencil, Plus, Trash2 } from 'lucide-react';
+import type { SavedSession } from '@/types/session';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+type SessionMenuProps = {
+  currentSession: { id: string; name: string } | null; // null until the restore prompt is answered
+  sessions: SavedSession[]; // saved sessions, most recent first
+  lastSavedAt: Date | null;
+  onNew: () => void;
+  onSwitch: (id: string) => void;
+  onRename: (name: string) => void;
+  onDelete: () => void; // deletes the current session and starts a new one
+};
+
+const formatSavedAt = (date: Date) => date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Named sessions kept in this browser; the current one is autosaved
+ */
+export default function SessionMenu({
+  currentSession,
+  sessions,
+  lastSavedAt,
+  onNew,
+  onSwitch,
+  onRename,
+  onDelete,
+}: SessionMenuProps) {
+  const [isRenameOpen, setIsRenameOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  const otherSessions = sessions.filter(s => s.id !== currentSession?.id);
+
+  const handleRenameOpen = () => {
+    setName(currentSession?.name ?? '');
+    setIsRenameOpen(true);
+  };
+
+  const handleRename = () => {
+    if (!name.trim()) return;
+    onRename(name.trim());
+    setIsRenameOpen(false);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={!currentSession} title="Sessions saved in this browser">
+            <FolderOpen className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel className="flex flex-col">
+            <span className="truncate">{currentSession?.name}</span>
+            <span className="text-xs font-normal text-muted-foreground">
+              {lastSavedAt ? `Autosaved ${formatSavedAt(lastSavedAt)}` : 'Not saved yet'}
+            </span>
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={onNew}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Session
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleRenameOpen}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Rename...
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={onDelete} className="text-destructive focus:text-destructive">
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete Session
+          </DropdownMenuItem>
+          {otherSessions.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-muted-foreground">Open</DropdownMenuLabel>
+              {otherSessions.map(session => (
+                <DropdownMenuItem key={session.id} onClick={() => onSwitch(session.id)} className="flex flex-col items-start">
+                  <span className="truncate w-full">{session.name}</span>
+                  <span className="text-xs text-muted-foreground">{formatSavedAt(session.updatedAt)}</span>
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isRenameOpen} onOpenChange={setIsRenameOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename Session</DialogTitle>
+            <DialogDescription>Sessions are kept in this browser only.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="session-name">Name</Label>
+            <Input
+              id="session-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRenameOpen(false)}>Cancel</Button>
+            <Button onClick={handleRename} disabled={!name.trim()}>Rename</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import type { SavedSession } from '@/types/session';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+interface SessionRestoreDialogProps {
+  session: SavedSession | null; // the session offered for restore; null = closed
+  onRestore: (session: SavedSession) => void;
+  onStartFresh: () => void; // the offered session stays saved
+}
+
+/**
+ * Offers the last session on load, summarizing what it holds
+ */
+export default function SessionRestoreDialog({ session, onRestore, onStartFresh }: SessionRestoreDialogProps) {
+  if (!session) return null;
+
+  const { polygons, schedules, draft } = session.snapshot;
+
+  return (
+    <AlertDialog open>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Restore your last session?</AlertDialogTitle>
+          <AlertDialogDescription>
+            "{session.name}" was last saved {session.updatedAt.toLocaleString()}.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <ul className="list-disc pl-5 text-sm text-muted-foreground">
+          <li>{polygons.length} polygon(s)</li>
+          <li>{schedules.length} schedule(s)</li>
+          {draft && (
+            <li>
+              An unsaved {draft.scheduleId ? 'edit of' : 'new'} schedule{draft.name && ` "${draft.name}"`} with {draft.hexagons.length} stop(s)
+            </li>
+          )}
+        </ul>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onStartFresh}>Start Fresh</AlertDialogCancel>
+          <AlertDialogAction onClick={() => onRestore(session)}>Restore</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { Link } from 'lucide-react';
+import { buildDeepLinkUrl, getLinkCells, type DeepLinkState } from '@/lib/deep-link';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+
+type ShareLinkButtonProps = {
+  link: DeepLinkState;
+};
+
+/**
+ * Copies a link that opens the app on the same terminal, selection, schedule and map view
+ */
+export default function ShareLinkButton({ link }: ShareLinkButtonProps) {
+  const { toast } = useToast();
+
+  const handleCopy = async () => {
+    const url = buildDeepLinkUrl(link);
+    const selectionLeftOut = !!link.cells?.length && link.resolution !== undefined && !getLinkCells(link.cells, link.resolution);
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: 'Link Copied',
+        description: selectionLeftOut
+          ? 'The hexagon selection is too large for a link, so the link opens this terminal and view without it.'
+          : 'Anyone with the link opens this terminal, selection and view.',
+      });
+    } catch (error) {
+      console.error('Error copying link:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Could not copy link',
+        description: url,
+      });
+    }
+  };
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleCopy} title="Copy a link to this view">
+      <Link className="h-4 w-4" />
+    </Button>
+  );
+}
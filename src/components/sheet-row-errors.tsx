@@ -0,0 +1,51 @@
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import type { SheetRowError } from '@/types/storage';
+
+interface SheetRowErrorsProps {
+  title: string; // e.g. "Route sheet"
+  errors: SheetRowError[];
+  error?: string; // the sheet could not be read at all
+}
+
+/**
+ * Problems found while reading a sheet: a load error, or one line per bad cell
+ */
+export default function SheetRowErrors({ title, errors, error }: SheetRowErrorsProps) {
+  if (!error && errors.length === 0) return null;
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>{title} could not be loaded</AlertTitle>
+        <AlertDescription className="text-xs">{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const skippedRows = new Set(errors.filter(e => e.rowSkipped).map(e => e.row)).size;
+  const summary = [
+    skippedRows > 0 && `${skippedRows} row${skippedRows !== 1 ? 's' : ''} skipped`,
+    errors.length > 0 && `${errors.length} problem${errors.length !== 1 ? 's' : ''}`,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <Alert>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>{title}: {summary}</AlertTitle>
+      <AlertDescription>
+        <ul className="max-h-32 overflow-y-auto text-xs space-y-0.5">
+          {errors.map((e, index) => (
+            <li key={index}>
+              Row {e.row}, <span className="font-medium">{e.column}</span>: {e.reason}
+              {e.rowSkipped && <span className="text-muted-foreground"> (row skipped)</span>}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
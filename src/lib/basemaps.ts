@@ -0,0 +1,111 @@
+import type { Basemap, BasemapSource, MapOverlays, OfflineTilesInfo } from '@/types/map-layers';
+
+const OSM_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+export const BUILT_IN_BASEMAPS: Basemap[] = [
+  {
+    id: 'osm',
+    name: 'OpenStreetMap',
+    attribution: OSM_ATTRIBUTION,
+    source: { type: 'xyz', url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', maxZoom: 19 },
+  },
+  {
+    id: 'satellite',
+    name: 'Satellite',
+    attribution: 'Tiles &copy; Esri &mdash; Source: Esri, Maxar, Earthstar Geographics, and the GIS User Community',
+    source: { type: 'xyz', url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}', maxZoom: 19 },
+  },
+  {
+    id: 'dark',
+    name: 'Dark',
+    attribution: `${OSM_ATTRIBUTION} &copy; <a href="https://carto.com/attributions">CARTO</a>`,
+    source: { type: 'xyz', url: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png', subdomains: 'abcd', maxZoom: 20 },
+  },
+];
+
+export const DEFAULT_BASEMAP_ID = 'osm';
+export const OFFLINE_BASEMAP_ID = 'offline';
+
+export const DEFAULT_MAP_OVERLAYS: MapOverlays = {
+  polygonOutlines: true,
+  h3Grid: false,
+  h3GridResolution: 8,
+  neighbouringTerminals: false,
+};
+
+// Served by the /tiles route from the file named in GEOHEX_OFFLINE_TILES
+export const createOfflineBasemap = (info: OfflineTilesInfo): Basemap => ({
+  id: OFFLINE_BASEMAP_ID,
+  name: `Offline (${info.name})`,
+  attribution: info.attribution,
+  source: { type: 'offline', minZoom: info.minZoom, maxZoom: info.maxZoom },
+});
+
+/**
+ * The {z}/{x}/{y} URL template Leaflet requests tiles with
+ */
+export const getBasemapTileUrl = (source: BasemapSource): string => {
+  switch (source.type) {
+    case 'xyz':
+      return source.url;
+    case 'offline':
+      return '/tiles/{z}/{x}/{y}';
+    case 'wmts': {
+      // KVP GetTile; assumes a Web Mercator matrix set whose matrix IDs are the zoom levels (e.g. GoogleMapsCompatible)
+      const params = new URLSearchParams({
+        SERVICE: 'WMTS',
+        REQUEST: 'GetTile',
+        VERSION: '1.0.0',
+        LAYER: source.layer,
+        STYLE: source.style,
+        TILEMATRIXSET: source.tileMatrixSet,
+        FORMAT: source.format,
+      });
+      const separator = source.url.includes('?') ? '&' : '?';
+      return `${source.url}${separator}${params}&TILEMATRIX={z}&TILEROW={y}&TILECOL={x}`;
+    }
+  }
+};
+
+const isHttpUrl = (value: string): boolean => /^https?:\/\/\S+$/.test(value);
+
+/**
+ * Check a basemap added in the layer menu; returns an error message or null
+ */
+export const validateCustomBasemap = (basemap: Basemap): string | null => {
+  if (!basemap.name.trim()) return 'Give the basemap a name';
+
+  const { source } = basemap;
+  if (source.type === 'offline') return 'Offline tiles are configured on the server';
+  if (!isHttpUrl(source.url)) return 'The URL must start with http(s)://';
+  if (source.type === 'xyz' && !['{z}', '{x}', '{y}'].every(part => source.url.includes(part))) {
+    return 'An XYZ URL needs {z}, {x} and {y} placeholders';
+  }
+  if (source.type === 'wmts' && (!source.layer.trim() || !source.tileMatrixSet.trim())) {
+    return 'A WMTS basemap needs a layer and a tile matrix set';
+  }
+  return null;
+};
+
+// Browser-only: custom basemaps and the last choice are kept per browser
+const CUSTOM_BASEMAPS_KEY = 'geohex-custom-basemaps';
+const SELECTED_BASEMAP_KEY = 'geohex-basemap';
+
+export const loadCustomBasemaps = (): Basemap[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_BASEMAPS_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomBasemaps = (basemaps: Basemap[]): void => {
+  localStorage.setItem(CUSTOM_BASEMAPS_KEY, JSON.stringify(basemaps));
+};
+
+export const loadSelectedBasemapId = (): string | null => localStorage.getItem(SELECTED_BASEMAP_KEY);
+
+export const saveSelectedBasemapId = (id: string): void => {
+  localStorage.setItem(SELECTED_BASEMAP_KEY, id);
+};
@@ -0,0 +1,134 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DataSourceRegistry } from '@/types/data-sources';
+import type { StorageConfig } from '@/types/storage';
+import { DEFAULT_DATA_SOURCE_REGISTRY, dataSourceRegistrySchema } from './data-sources';
+
+// Server-only: reads the registry from disk and the environment
+
+export const DATA_SOURCES_FILE = process.env.GEOHEX_DATA_SOURCES_FILE || path.join(process.cwd(), 'data-sources.json');
+
+// Local storage backends (sqlite, directory) may only use paths inside this folder
+export const DATA_DIR = path.resolve(process.env.GEOHEX_DATA_DIR || path.join(process.cwd(), 'data'));
+
+// Env vars that override the default workspace's live sources, e.g. to point a deployment at staging
+const ENV_OVERRIDES = {
+  GEOHEX_POLYGON_SHEET_URL: 'polygon source',
+  GEOHEX_ROUTES_SHEET_URL: 'route source',
+  GEOHEX_WEBHOOK_URL: 'webhook',
+  GEOHEX_DEFAULT_WORKSPACE: 'default workspace',
+  GEOHEX_STORAGE: 'storage backend',
+} as const;
+
+// Read with GEOHEX_STORAGE: "sqlite" and "directory" need GEOHEX_STORAGE_PATH, "google-sheets" uses the sheets
+const getEnvStorage = (): StorageConfig | undefined => {
+  const { GEOHEX_STORAGE, GEOHEX_STORAGE_PATH } = process.env;
+  if (GEOHEX_STORAGE === 'google-sheets') return { type: 'google-sheets' };
+  if ((GEOHEX_STORAGE === 'sqlite' || GEOHEX_STORAGE === 'directory') && GEOHEX_STORAGE_PATH) {
+    return { type: GEOHEX_STORAGE, path: GEOHEX_STORAGE_PATH };
+  }
+  if (GEOHEX_STORAGE) {
+    throw new Error(`GEOHEX_STORAGE must be google-sheets, sqlite or directory (with GEOHEX_STORAGE_PATH), got "${GEOHEX_STORAGE}".`);
+  }
+  return undefined;
+};
+
+/**
+ * The registry as stored in the config file, or the built-in one when there is no file
+ */
+export const readDataSourceRegistryFile = async (): Promise<DataSourceRegistry> => {
+  try {
+    return dataSourceRegistrySchema.parse(JSON.parse(await fs.readFile(DATA_SOURCES_FILE, 'utf8')));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return DEFAULT_DATA_SOURCE_REGISTRY;
+    }
+    throw new Error(`Could not read ${DATA_SOURCES_FILE}: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+export const writeDataSourceRegistryFile = async (registry: DataSourceRegistry): Promise<void> => {
+  await fs.writeFile(DATA_SOURCES_FILE, `${JSON.stringify(registry, null, 2)}\n`, 'utf8');
+};
+
+/**
+ * Names of the override env vars that are set, with what they replace
+ */
+export const getActiveEnvOverrides = (): string[] => {
+  return Object.entries(ENV_OVERRIDES)
+    .filter(([name]) => process.env[name])
+    .map(([name, label]) => `${name} (${label})`);
+};
+
+/**
+ * The registry actions should use: the config file with env overrides applied
+ */
+export const loadDataSourceRegistry = async (): Promise<DataSourceRegistry> => {
+  const registry = await readDataSourceRegistryFile();
+  const {
+    GEOHEX_POLYGON_SHEET_URL,
+    GEOHEX_ROUTES_SHEET_URL,
+    GEOHEX_WEBHOOK_URL,
+    GEOHEX_DEFAULT_WORKSPACE,
+  } = process.env;
+
+  const defaultWorkspaceId = GEOHEX_DEFAULT_WORKSPACE || registry.defaultWorkspaceId;
+  const storage = getEnvStorage();
+  return {
+    defaultWorkspaceId,
+    workspaces: registry.workspaces.map(workspace => {
+      const sources = workspace.environments[workspace.environment];
+      if (workspace.id !== defaultWorkspaceId || !sources) return workspace;
+
+      return {
+        ...workspace,
+        environments: {
+          ...workspace.environments,
+          [workspace.environment]: {
+            polygons: { ...sources.polygons, url: GEOHEX_POLYGON_SHEET_URL || sources.polygons.url },
+            routes: { ...sources.routes, url: GEOHEX_ROUTES_SHEET_URL || sources.routes.url },
+            writeTarget: { ...sources.writeTarget, webhookUrl: GEOHEX_WEBHOOK_URL || sources.writeTarget.webhookUrl },
+            storage: storage ?? sources.storage,
+          },
+        },
+      };
+    }),
+  };
+};
+
+/**
+ * A storage path from the config or environment, resolved from the working directory;
+ * throws when it points outside DATA_DIR
+ */
+export const resolveStoragePath = (storagePath: string): string => {
+  const resolved = path.resolve(storagePath);
+  const relative = path.relative(DATA_DIR, resolved);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Storage path "${storagePath}" must be inside ${DATA_DIR}.`);
+  }
+  return resolved;
+};
+
+/**
+ * The first storage path in a registry that resolveStoragePath rejects, as an error message
+ */
+export const checkStoragePaths = (registry: DataSourceRegistry): string | null => {
+  for (const workspace of registry.workspaces) {
+    for (const sources of Object.values(workspace.environments)) {
+      if (!sources?.storage || sources.storage.type === 'google-sheets') continue;
+      try {
+        resolveStoragePath(sources.storage.path);
+      } catch (error) {
+        return `${workspace.name}: ${error instanceof Error ? error.message : error}`;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Editing from the browser is off unless the deployment turns it on; the action has no login to check
+ */
+export const isDataSourceConfigWritable = (): boolean => {
+  return process.env.GEOHEX_DATA_SOURCES_EDITABLE === 'true';
+};
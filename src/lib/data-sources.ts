@@ -0,0 +1,176 @@
+import { z } from 'zod';
+import type {
+  ActiveDataSources,
+  ColumnMapping,
+  DataEnvironment,
+  DataSourceRegistry,
+  DataSourceRole,
+} from '@/types/data-sources';
+import { POLYGON_SHEET, ROUTE_SHEET } from '@/lib/storage/sheet-schemas';
+
+export const DATA_ENVIRONMENTS: DataEnvironment[] = ['staging', 'production'];
+
+// Columns the app reads from each source, by canonical name; each can be mapped to a different sheet header
+export const DATA_SOURCE_COLUMNS: Record<DataSourceRole, readonly string[]> = {
+  polygons: POLYGON_SHEET.columns,
+  routes: ROUTE_SHEET.columns,
+};
+
+// Built-in sources, used when no config file or env override says otherwise
+export const DEFAULT_DATA_SOURCE_REGISTRY: DataSourceRegistry = {
+  defaultWorkspaceId: 'default',
+  workspaces: [
+    {
+      id: 'default',
+      name: 'Default',
+      environment: 'production',
+      environments: {
+        production: {
+          polygons: {
+            url: 'https://docs.google.com/spreadsheets/d/100PpgFmO116AwqEZduLG_94U7JBUPa1_wvd3keZpL2A/edit?gid=0#gid=0',
+            columns: {},
+          },
+          routes: {
+            url: 'https://docs.google.com/spreadsheets/d/100PpgFmO116AwqEZduLG_94U7JBUPa1_wvd3keZpL2A/edit?gid=1174409#gid=1174409',
+            columns: {},
+          },
+          writeTarget: {
+            webhookUrl: 'https://script.google.com/macros/s/AKfycbw6KiuiyBwM21c9K2I-eC4fVu62i29nsXPR074UdIWB7rxHERm9-G9QwD4kb8BVuSp_/exec',
+          },
+        },
+      },
+    },
+  ],
+};
+
+export const getSheetIdAndGid = (url: string): { sheetId: string | null; gid: string | null } => {
+  const sheetIdMatch = url.match(/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
+  const gidMatch = url.match(/gid=([0-9]+)/);
+
+  return {
+    sheetId: sheetIdMatch ? sheetIdMatch[1] : null,
+    gid: gidMatch ? gidMatch[1] : null,
+  };
+};
+
+/**
+ * Pick a workspace (falling back to the registry default) and its live environment
+ */
+export const resolveDataSources = (registry: DataSourceRegistry, workspaceId?: string): ActiveDataSources => {
+  const workspace =
+    registry.workspaces.find(w => w.id === workspaceId) ??
+    registry.workspaces.find(w => w.id === registry.defaultWorkspaceId) ??
+    registry.workspaces[0];
+  if (!workspace) {
+    throw new Error('No data-source workspace is configured.');
+  }
+
+  const sources = workspace.environments[workspace.environment];
+  if (!sources) {
+    throw new Error(`Workspace "${workspace.name}" has no ${workspace.environment} data sources configured.`);
+  }
+
+  return { ...sources, workspaceId: workspace.id, environment: workspace.environment };
+};
+
+/**
+ * The sheet header a canonical column is stored under
+ */
+export const toSheetColumn = (canonical: string, columns: ColumnMapping): string => {
+  return columns[canonical]?.trim() || canonical;
+};
+
+/**
+ * Webhooks must be Apps Script web apps, so the server never sends requests to other hosts
+ */
+export const isAppsScriptUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' && url.hostname === 'script.google.com';
+  } catch {
+    return false;
+  }
+};
+
+const sheetSourceSchema = z.object({
+  url: z.string(),
+  columns: z.record(z.string()),
+});
+
+const dataSourceSetSchema = z.object({
+  polygons: sheetSourceSchema,
+  routes: sheetSourceSchema,
+  writeTarget: z.object({
+    webhookUrl: z.string(),
+    routesUrl: z.string().optional(),
+    polygonsUrl: z.string().optional(),
+  }),
+  storage: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('google-sheets') }),
+    z.object({ type: z.literal('sqlite'), path: z.string() }),
+    z.object({ type: z.literal('directory'), path: z.string() }),
+  ]).optional(),
+});
+
+// The shape of data-sources.json; unknown keys are dropped
+export const dataSourceRegistrySchema: z.ZodType<DataSourceRegistry> = z.object({
+  defaultWorkspaceId: z.string(),
+  workspaces: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    environment: z.enum(['staging', 'production']),
+    environments: z.object({
+      staging: dataSourceSetSchema.optional(),
+      production: dataSourceSetSchema.optional(),
+    }),
+  })),
+});
+
+/**
+ * Parse a registry sent from the browser, then check it; returns the registry or an error message
+ */
+export const parseDataSourceRegistry = (input: unknown): { registry: DataSourceRegistry } | { error: string } => {
+  const result = dataSourceRegistrySchema.safeParse(input);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { error: `Invalid settings at ${issue.path.join('.') || 'the top level'}: ${issue.message}` };
+  }
+  const error = validateDataSourceRegistry(result.data);
+  return error ? { error } : { registry: result.data };
+};
+
+/**
+ * Check a registry before it is saved; returns an error message or null
+ */
+export const validateDataSourceRegistry = (registry: DataSourceRegistry): string | null => {
+  if (registry.workspaces.length === 0) return 'Add at least one workspace';
+
+  const ids = new Set<string>();
+  for (const workspace of registry.workspaces) {
+    if (!workspace.id.trim()) return 'Every workspace needs an ID';
+    if (ids.has(workspace.id)) return `Workspace ID "${workspace.id}" is used twice`;
+    ids.add(workspace.id);
+
+    if (!workspace.environments[workspace.environment]) {
+      return `Workspace "${workspace.name}" is set to ${workspace.environment} but has no ${workspace.environment} sources`;
+    }
+
+    for (const [environment, sources] of Object.entries(workspace.environments)) {
+      if (!sources) continue;
+      const label = `${workspace.name} (${environment})`;
+      if (sources.storage && sources.storage.type !== 'google-sheets') {
+        if (!sources.storage.path.trim()) return `${label}: ${sources.storage.type} storage needs a path`;
+        continue;
+      }
+      if (!getSheetIdAndGid(sources.polygons.url).sheetId) return `${label}: polygon source is not a Google Sheets URL`;
+      if (!getSheetIdAndGid(sources.routes.url).sheetId) return `${label}: route source is not a Google Sheets URL`;
+      if (!isAppsScriptUrl(sources.writeTarget.webhookUrl)) return `${label}: webhook URL must be an https://script.google.com web app`;
+      for (const url of [sources.writeTarget.routesUrl, sources.writeTarget.polygonsUrl]) {
+        if (url && !getSheetIdAndGid(url).sheetId) return `${label}: write target ${url} is not a Google Sheets URL`;
+      }
+    }
+  }
+
+  if (!ids.has(registry.defaultWorkspaceId)) return 'The default workspace must be one of the workspaces';
+  return null;
+};
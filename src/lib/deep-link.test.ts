@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { cellToChildren, getResolution, latLngToCell } from 'h3-js';
+import { encodeDeepLink, parseDeepLink, type DeepLinkState } from './deep-link';
+
+const PARENT = latLngToCell(52.37, 4.9, 7);
+
+describe('parseDeepLink', () => {
+  it('reads back what encodeDeepLink wrote', () => {
+    const state: DeepLinkState = {
+      terminalId: 'AMS-01',
+      resolution: 9,
+      cells: cellToChildren(PARENT, 9),
+      scheduleId: 'route-1',
+      tab: 'schedules',
+      viewport: { lat: 52.37, lng: 4.9, zoom: 12 },
+    };
+
+    const query = encodeDeepLink(state);
+    const parsed = parseDeepLink(`?${query}`);
+
+    // The full set of children travels as their compacted parent
+    assert.equal(new URLSearchParams(query).get('cells'), PARENT);
+    assert.deepEqual({ ...parsed, cells: [...(parsed?.cells ?? [])].sort() }, { ...state, cells: [...state.cells!].sort() });
+  });
+
+  it('leaves out a selection that expands past the limit and flags it', () => {
+    const coarse = latLngToCell(52.37, 4.9, 5);
+
+    const parsed = parseDeepLink(`?t=AMS-01&res=12&cells=${coarse}`);
+
+    assert.equal(getResolution(coarse), 5);
+    assert.deepEqual(parsed, { terminalId: 'AMS-01', resolution: 12, cellsOverLimit: true });
+  });
+
+  it('keeps a selection within the limit', () => {
+    const parsed = parseDeepLink(`?res=9&cells=${PARENT}`);
+
+    assert.equal(parsed?.cells?.length, 49);
+    assert.equal(parsed?.cellsOverLimit, undefined);
+  });
+
+  it('drops malformed parts and keeps the rest', () => {
+    const parsed = parseDeepLink('?t=AMS-01&res=16&cells=zzz,123&tab=map&view=91,4.9,12');
+
+    assert.deepEqual(parsed, { terminalId: 'AMS-01' });
+  });
+
+  it('returns null when nothing in the query is usable', () => {
+    assert.equal(parseDeepLink(''), null);
+    assert.equal(parseDeepLink('?utm_source=mail'), null);
+    assert.equal(parseDeepLink('?t=%20&res=abc&cells=not-a-cell&schedule=&tab=other&view=a,b,c'), null);
+  });
+});
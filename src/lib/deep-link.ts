@@ -0,0 +1,124 @@
+import { cellToChildrenSize, compactCells, getResolution, isValidCell, uncompactCells } from 'h3-js';
+import type { MapViewport } from '@/types/geometry';
+
+// What a shared link puts back; every part is optional so a link can be as narrow as "terminal X"
+export interface DeepLinkState {
+  terminalId?: string;
+  resolution?: number;
+  cells?: string[];    // the hexagon selection, uncompacted to `resolution`
+  scheduleId?: string; // route opened in the schedule editor
+  tab?: 'input' | 'schedules';
+  viewport?: MapViewport;
+  cellsOverLimit?: boolean; // the link held a selection too large to open, which was left out
+}
+
+const PARAMS = {
+  terminalId: 't',
+  resolution: 'res',
+  cells: 'cells',
+  scheduleId: 'schedule',
+  tab: 'tab',
+  viewport: 'view',
+} as const;
+
+const COORDINATE_DECIMALS = 5; // about a metre
+
+// A link's selection is left out past these, so opening a link stays fast and the query string stays short
+export const MAX_LINK_CELLS = 50_000; // cells once expanded to the link's resolution
+const MAX_LINK_CELL_IDS = 2_000; // IDs in the query string, about 32 KB
+
+/**
+ * Cells at `resolution` are compacted to keep the link short; cells of other resolutions
+ * (from compacted polygons) are listed as they are
+ */
+export const compactSelection = (cells: string[], resolution: number): string[] => {
+  const atResolution = cells.filter(cell => getResolution(cell) === resolution);
+  const others = cells.filter(cell => getResolution(cell) !== resolution);
+  return [...compactCells(atResolution), ...others];
+};
+
+// Coarser cells come back as their children at `resolution`, so a mixed selection is restored at one resolution
+export const expandSelection = (cells: string[], resolution: number): string[] => {
+  return cells.flatMap(cell => (getResolution(cell) < resolution ? uncompactCells([cell], resolution) : [cell]));
+};
+
+// Counted with cellToChildrenSize, so a huge selection is never expanded just to be measured
+const getExpandedSize = (cells: string[], resolution: number): number => {
+  return cells.reduce((total, cell) => total + (getResolution(cell) < resolution ? cellToChildrenSize(cell, resolution) : 1), 0);
+};
+
+/**
+ * The selection as written to a link, or null when it is too large to share that way
+ */
+export const getLinkCells = (cells: string[], resolution: number): string[] | null => {
+  if (cells.length > MAX_LINK_CELLS) return null;
+  const compacted = compactSelection(cells, resolution);
+  return compacted.length <= MAX_LINK_CELL_IDS ? compacted : null;
+};
+
+export const encodeDeepLink = (state: DeepLinkState): string => {
+  const params = new URLSearchParams();
+  if (state.terminalId) params.set(PARAMS.terminalId, state.terminalId);
+  if (state.resolution !== undefined) params.set(PARAMS.resolution, String(state.resolution));
+  const linkCells = state.cells?.length && state.resolution !== undefined ? getLinkCells(state.cells, state.resolution) : null;
+  if (linkCells) params.set(PARAMS.cells, linkCells.join(','));
+  if (state.scheduleId) params.set(PARAMS.scheduleId, state.scheduleId);
+  if (state.tab && state.tab !== 'input') params.set(PARAMS.tab, state.tab);
+  if (state.viewport) {
+    const { lat, lng, zoom } = state.viewport;
+    params.set(PARAMS.viewport, [lat.toFixed(COORDINATE_DECIMALS), lng.toFixed(COORDINATE_DECIMALS), zoom].join(','));
+  }
+  return params.toString();
+};
+
+/**
+ * A "lat,lng,zoom" view, as written to links and GEOHEX_MAP_DEFAULT_VIEW
+ */
+export const parseViewport = (value: string): MapViewport | null => {
+  const [lat, lng, zoom] = value.split(',').map(Number);
+  return [lat, lng, zoom].every(Number.isFinite) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180
+    ? { lat, lng, zoom }
+    : null;
+};
+
+/**
+ * The link state in a query string; malformed parts are dropped rather than failing the whole link.
+ * Returns null when the query holds no link state at all.
+ */
+export const parseDeepLink = (search: string): DeepLinkState | null => {
+  const params = new URLSearchParams(search);
+  const state: DeepLinkState = {};
+
+  const terminalId = params.get(PARAMS.terminalId)?.trim();
+  if (terminalId) state.terminalId = terminalId;
+
+  const resolution = Number(params.get(PARAMS.resolution));
+  if (params.has(PARAMS.resolution) && Number.isInteger(resolution) && resolution >= 0 && resolution <= 15) {
+    state.resolution = resolution;
+  }
+
+  const cells = (params.get(PARAMS.cells) ?? '').split(',').filter(cell => isValidCell(cell));
+  const tooLarge = cells.length > MAX_LINK_CELL_IDS
+    || (state.resolution !== undefined && getExpandedSize(cells, state.resolution) > MAX_LINK_CELLS);
+  if (tooLarge) {
+    state.cellsOverLimit = true;
+  } else if (cells.length > 0) {
+    state.cells = state.resolution === undefined ? cells : expandSelection(cells, state.resolution);
+  }
+
+  const scheduleId = params.get(PARAMS.scheduleId)?.trim();
+  if (scheduleId) state.scheduleId = scheduleId;
+
+  const tab = params.get(PARAMS.tab);
+  if (tab === 'input' || tab === 'schedules') state.tab = tab;
+
+  const viewport = parseViewport(params.get(PARAMS.viewport) ?? '');
+  if (viewport) state.viewport = viewport;
+
+  return Object.keys(state).length > 0 ? state : null;
+};
+
+export const buildDeepLinkUrl = (state: DeepLinkState): string => {
+  const query = encodeDeepLink(state);
+  return `${window.location.origin}${window.location.pathname}${query ? `?${query}` : ''}`;
+};
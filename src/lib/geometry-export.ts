@@ -0,0 +1,352 @@
+import JSZip from 'jszip';
+import Papa from 'papaparse';
+import { cellToBoundary, getResolution } from 'h3-js';
+import type { MultiPolygonCoordinates, Position } from '@/types/geometry';
+import type { HexagonSchedule } from '@/types/scheduling';
+import { geometryToWkt } from './geometry-utils';
+import { getTimeZoneOffset } from './time-zones';
+import { writeShapefile, type DbfField } from './shapefile';
+
+export type ExportFormat = 'geojson' | 'kml' | 'csv' | 'shapefile';
+
+export type ExportLayer = 'polygon' | 'hexagon' | 'route_stop';
+
+export interface ExportProperties {
+  layer: ExportLayer;
+  terminal_id: string;
+  route_name: string;
+  hexagon_id: string;
+  ordering: number | null;
+  start_time: string;
+  end_time: string;
+  start_day_offset: number | null; // days after the service day, for overnight routes
+  end_day_offset: number | null;
+  time_zone: string; // IANA zone the start/end times are wall-clock in; empty when unknown
+  resolution: number | null;
+}
+
+export interface ExportFeature {
+  geometry: MultiPolygonCoordinates;
+  properties: ExportProperties;
+}
+
+export interface ExportSource {
+  polygons: { geometry: MultiPolygonCoordinates; resolution: number; terminalId?: string; allH3Indexes: string[] }[];
+  selectedH3Indexes: string[];
+  schedules: HexagonSchedule[];
+}
+
+const WGS84_PRJ =
+  'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+const SHAPEFILE_FIELDS: DbfField[] = [
+  { name: 'layer', type: 'C', length: 12 },
+  { name: 'terminal', type: 'C', length: 64 },
+  { name: 'route', type: 'C', length: 100 },
+  { name: 'hex_id', type: 'C', length: 16 },
+  { name: 'ordering', type: 'N', length: 6 },
+  { name: 'start_time', type: 'C', length: 5 },
+  { name: 'end_time', type: 'C', length: 5 },
+  { name: 'start_day', type: 'N', length: 2 },
+  { name: 'end_day', type: 'N', length: 2 },
+  { name: 'time_zone', type: 'C', length: 64 },
+  { name: 'resolution', type: 'N', length: 2 },
+];
+
+const LAYER_FILE_NAMES: Record<ExportLayer, string> = {
+  polygon: 'polygons',
+  hexagon: 'hexagons',
+  route_stop: 'route_stops',
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+  csv: 'text/csv',
+  shapefile: 'application/zip',
+};
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  geojson: 'geojson',
+  kml: 'kml',
+  csv: 'csv',
+  shapefile: 'zip',
+};
+
+const cellGeometry = (cell: string): MultiPolygonCoordinates => {
+  // GeoJSON formatting returns a closed [lng, lat] loop
+  return [[cellToBoundary(cell, true) as Position[]]];
+};
+
+/**
+ * Flatten polygons, selected cells and schedules into one list of exportable features
+ */
+export const buildExportFeatures = ({ polygons, selectedH3Indexes, schedules }: ExportSource): ExportFeature[] => {
+  const features: ExportFeature[] = [];
+  const terminalByCell = new Map<string, string>();
+
+  polygons.forEach((polygon, i) => {
+    polygon.allH3Indexes.forEach((cell) => terminalByCell.set(cell, polygon.terminalId ?? ''));
+    features.push({
+      geometry: polygon.geometry,
+      properties: {
+        layer: 'polygon',
+        terminal_id: polygon.terminalId ?? '',
+        route_name: '',
+        hexagon_id: '',
+        ordering: i + 1,
+        start_time: '',
+        end_time: '',
+        start_day_offset: null,
+        end_day_offset: null,
+        time_zone: '',
+        resolution: polygon.resolution,
+      },
+    });
+  });
+
+  selectedH3Indexes.forEach((cell, i) => {
+    features.push({
+      geometry: cellGeometry(cell),
+      properties: {
+        layer: 'hexagon',
+        terminal_id: terminalByCell.get(cell) ?? '',
+        route_name: '',
+        hexagon_id: cell,
+        ordering: i + 1,
+        start_time: '',
+        end_time: '',
+        start_day_offset: null,
+        end_day_offset: null,
+        time_zone: '',
+        resolution: getResolution(cell),
+      },
+    });
+  });
+
+  schedules.forEach((schedule) => {
+    // Same ordering as the route sheet: position in the schedule's hexagon list
+    schedule.hexagons.forEach((hexagon, i) => {
+      features.push({
+        geometry: cellGeometry(hexagon.hexagonId),
+        properties: {
+          layer: 'route_stop',
+          terminal_id: schedule.terminalId,
+          route_name: schedule.name,
+          hexagon_id: hexagon.hexagonId,
+          ordering: i + 1,
+          start_time: hexagon.timeSlot.start,
+          end_time: hexagon.timeSlot.end,
+          start_day_offset: hexagon.timeSlot.startDayOffset ?? 0,
+          end_day_offset: hexagon.timeSlot.endDayOffset ?? 0,
+          time_zone: schedule.timeZone ?? '',
+          resolution: getResolution(hexagon.hexagonId),
+        },
+      });
+    });
+  });
+
+  return features;
+};
+
+/**
+ * GeoJSON FeatureCollection (RFC 7946)
+ */
+export const toGeoJson = (features: ExportFeature[]): string => {
+  return JSON.stringify(
+    {
+      type: 'FeatureCollection',
+      features: features.map((feature) => ({
+        type: 'Feature',
+        geometry:
+          feature.geometry.length === 1
+            ? { type: 'Polygon', coordinates: feature.geometry[0] }
+            : { type: 'MultiPolygon', coordinates: feature.geometry },
+        properties: feature.properties,
+      })),
+    },
+    null,
+    2
+  );
+};
+
+const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+const kmlPolygon = (rings: Position[][]): string => {
+  const coordinates = (ring: Position[]) => ring.map(([lng, lat]) => `${lng},${lat}`).join(' ');
+  const [outer, ...holes] = rings;
+  return [
+    '<Polygon>',
+    `<outerBoundaryIs><LinearRing><coordinates>${coordinates(outer)}</coordinates></LinearRing></outerBoundaryIs>`,
+    ...holes.map((hole) => `<innerBoundaryIs><LinearRing><coordinates>${coordinates(hole)}</coordinates></LinearRing></innerBoundaryIs>`),
+    '</Polygon>',
+  ].join('');
+};
+
+const formatIsoDate = (date: Date): string => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * UTC offset suffix (e.g., "+02:00") of a wall-clock date and time in a zone
+ */
+const formatUtcOffset = (timeZone: string, isoDate: string, time: string): string => {
+  const wallAsUtc = Date.parse(`${isoDate}T${time}:00Z`);
+  const guess = getTimeZoneOffset(timeZone, new Date(wallAsUtc));
+  const offset = getTimeZoneOffset(timeZone, new Date(wallAsUtc - guess * 60000));
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const sign = offset < 0 ? '-' : '+';
+  return `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+};
+
+/**
+ * KML document with one folder per layer; route stops carry a TimeSpan on the reference date,
+ * with the UTC offset of their time zone when known
+ */
+export const toKml = (features: ExportFeature[], referenceDate: Date = new Date()): string => {
+  const day = (offset: number | null) => {
+    const date = new Date(referenceDate);
+    date.setDate(date.getDate() + (offset ?? 0));
+    return formatIsoDate(date);
+  };
+  const dateTime = (offset: number | null, time: string, timeZone: string) => {
+    const isoDate = day(offset);
+    return `${isoDate}T${time}:00${timeZone ? formatUtcOffset(timeZone, isoDate, time) : ''}`;
+  };
+
+  const placemark = (feature: ExportFeature): string => {
+    const { properties } = feature;
+    const name = properties.hexagon_id || properties.terminal_id || properties.layer;
+    const data = Object.entries(properties)
+      .map(([key, value]) => `<Data name="${key}"><value>${escapeXml(value === null ? '' : String(value))}</value></Data>`)
+      .join('');
+    const timeSpan = properties.start_time && properties.end_time
+      ? `<TimeSpan><begin>${dateTime(properties.start_day_offset, properties.start_time, properties.time_zone)}</begin><end>${dateTime(properties.end_day_offset, properties.end_time, properties.time_zone)}</end></TimeSpan>`
+      : '';
+    const geometry = feature.geometry.length === 1
+      ? kmlPolygon(feature.geometry[0])
+      : `<MultiGeometry>${feature.geometry.map(kmlPolygon).join('')}</MultiGeometry>`;
+
+    return `<Placemark><name>${escapeXml(name)}</name>${timeSpan}<ExtendedData>${data}</ExtendedData>${geometry}</Placemark>`;
+  };
+
+  const folders = (Object.keys(LAYER_FILE_NAMES) as ExportLayer[])
+    .map((layer) => {
+      const layerFeatures = features.filter((feature) => feature.properties.layer === layer);
+      if (layerFeatures.length === 0) return '';
+      return `<Folder><name>${LAYER_FILE_NAMES[layer]}</name>${layerFeatures.map(placemark).join('\n')}</Folder>`;
+    })
+    .filter(Boolean);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    '<name>GeoHex Uberizer Export</name>',
+    ...folders,
+    '</Document>',
+    '</kml>',
+  ].join('\n');
+};
+
+/**
+ * Flat CSV, one row per feature, geometry as WKT
+ */
+export const toCsv = (features: ExportFeature[]): string => {
+  return Papa.unparse(
+    features.map((feature) => ({
+      ...feature.properties,
+      ordering: feature.properties.ordering ?? '',
+      start_day_offset: feature.properties.start_day_offset ?? '',
+      end_day_offset: feature.properties.end_day_offset ?? '',
+      resolution: feature.properties.resolution ?? '',
+      wkt: geometryToWkt(feature.geometry),
+    }))
+  );
+};
+
+/**
+ * Zip with one WGS84 polygon shapefile per layer
+ */
+export const toShapefileZip = async (features: ExportFeature[]): Promise<Blob> => {
+  const zip = new JSZip();
+
+  (Object.keys(LAYER_FILE_NAMES) as ExportLayer[]).forEach((layer) => {
+    const layerFeatures = features.filter((feature) => feature.properties.layer === layer);
+    if (layerFeatures.length === 0) return;
+
+    const { shp, shx, dbf } = writeShapefile(
+      layerFeatures.map(({ geometry, properties }) => ({
+        geometry,
+        properties: {
+          layer: properties.layer,
+          terminal: properties.terminal_id,
+          route: properties.route_name,
+          hex_id: properties.hexagon_id,
+          ordering: properties.ordering,
+          start_time: properties.start_time,
+          end_time: properties.end_time,
+          start_day: properties.start_day_offset,
+          end_day: properties.end_day_offset,
+          time_zone: properties.time_zone,
+          resolution: properties.resolution,
+        },
+      })),
+      SHAPEFILE_FIELDS
+    );
+
+    const baseName = LAYER_FILE_NAMES[layer];
+    zip.file(`${baseName}.shp`, shp);
+    zip.file(`${baseName}.shx`, shx);
+    zip.file(`${baseName}.dbf`, dbf);
+    zip.file(`${baseName}.prj`, WGS84_PRJ);
+    zip.file(`${baseName}.cpg`, 'UTF-8');
+  });
+
+  return zip.generateAsync({ type: 'blob' });
+};
+
+/**
+ * Serialize the features in the requested format
+ */
+export const exportFeatures = async (features: ExportFeature[], format: ExportFormat): Promise<Blob> => {
+  switch (format) {
+    case 'geojson':
+      return new Blob([toGeoJson(features)], { type: MIME_TYPES.geojson });
+    case 'kml':
+      return new Blob([toKml(features)], { type: MIME_TYPES.kml });
+    case 'csv':
+      return new Blob([toCsv(features)], { type: MIME_TYPES.csv });
+    case 'shapefile':
+      return toShapefileZip(features);
+  }
+};
+
+/**
+ * Build a timestamped file name for an export (e.g., "geohex-export-2024-05-01.geojson")
+ */
+export const getExportFileName = (format: ExportFormat, prefix = 'geohex-export'): string => {
+  return `${prefix}-${formatIsoDate(new Date())}.${FILE_EXTENSIONS[format]}`;
+};
+
+/**
+ * Trigger a browser download for a blob
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
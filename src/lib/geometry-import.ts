@@ -0,0 +1,340 @@
+import JSZip from 'jszip';
+import type { LinearRing, MultiPolygonCoordinates, PolygonCoordinates, Position } from '@/types/geometry';
+import { readShapefile } from './shapefile';
+
+export interface ImportedFeature {
+  geometry: MultiPolygonCoordinates;
+  properties: Record<string, string>;
+}
+
+export interface GeometryImportResult {
+  format: 'geojson' | 'kml' | 'kmz' | 'shapefile';
+  features: ImportedFeature[];
+  errors: string[]; // Per-feature problems, e.g. "Feature #3: Point geometries are not supported"
+}
+
+// Property names we try, in order, when guessing which one holds the Terminal ID
+const TERMINAL_ID_PROPERTY_CANDIDATES = ['terminal id', 'terminal_id', 'terminalid', 'terminal', 'id', 'name'];
+
+const stringifyProperties = (properties: Record<string, unknown> | null | undefined): Record<string, string> => {
+  const result: Record<string, string> = {};
+  Object.entries(properties ?? {}).forEach(([key, value]) => {
+    if (value === null || value === undefined) return;
+    result[key] = typeof value === 'object' ? JSON.stringify(value) : String(value).trim();
+  });
+  return result;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+/**
+ * Drop Z/M values and close the ring if needed; positions that are not numbers become NaN and fail validation
+ */
+const normalizeRing = (coordinates: unknown): LinearRing => {
+  const ring: LinearRing = asArray(coordinates).map((position) => {
+    const [lng, lat] = asArray(position);
+    return [typeof lng === 'number' ? lng : NaN, typeof lat === 'number' ? lat : NaN] as Position;
+  });
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  if (first && (first[0] !== last[0] || first[1] !== last[1])) {
+    ring.push(first);
+  }
+  return ring;
+};
+
+const isValidRing = (ring: LinearRing): boolean => {
+  return ring.length >= 4 && ring.every(([lng, lat]) => Number.isFinite(lng) && Number.isFinite(lat));
+};
+
+/**
+ * Problems with the rings of a geometry, one per bad ring; like WKT import, a feature with any is not imported
+ */
+const findInvalidRings = (geometry: MultiPolygonCoordinates): string[] => {
+  return geometry.flatMap((polygon, p) => {
+    if (polygon.length === 0) return [`Polygon #${p + 1} has no rings`];
+    return polygon.flatMap((ring, r) => isValidRing(ring)
+      ? []
+      : [`Polygon #${p + 1}, ${r === 0 ? 'outer ring' : `hole #${r}`}: needs at least 3 distinct positions with numeric coordinates`]);
+  });
+};
+
+// GeoJSON
+
+type GeoJsonGeometry = {
+  type: string;
+  coordinates?: unknown;
+  geometries?: unknown;
+};
+
+type GeoJsonFeature = {
+  geometry: GeoJsonGeometry | null;
+  properties?: Record<string, unknown>;
+};
+
+const isGeoJsonGeometry = (value: unknown): value is GeoJsonGeometry => {
+  return isRecord(value) && typeof value.type === 'string';
+};
+
+const toGeoJsonFeature = (value: unknown): GeoJsonFeature => {
+  if (!isRecord(value)) return { geometry: null };
+  return {
+    geometry: isGeoJsonGeometry(value.geometry) ? value.geometry : null,
+    properties: isRecord(value.properties) ? value.properties : undefined,
+  };
+};
+
+const geoJsonGeometryToPolygons = (geometry: GeoJsonGeometry): MultiPolygonCoordinates => {
+  switch (geometry.type) {
+    case 'Polygon':
+      return [asArray(geometry.coordinates).map(normalizeRing)];
+    case 'MultiPolygon':
+      return asArray(geometry.coordinates).map((polygon) => asArray(polygon).map(normalizeRing));
+    case 'GeometryCollection':
+      return asArray(geometry.geometries).filter(isGeoJsonGeometry).flatMap(geoJsonGeometryToPolygons);
+    default:
+      return [];
+  }
+};
+
+/**
+ * Parse a GeoJSON FeatureCollection, Feature or bare geometry
+ */
+export const parseGeoJson = (text: string): GeometryImportResult => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid GeoJSON: ${error instanceof Error ? error.message : 'could not parse JSON'}`);
+  }
+
+  const rawFeatures: GeoJsonFeature[] = !isRecord(json)
+    ? []
+    : json.type === 'FeatureCollection'
+      ? asArray(json.features).map(toGeoJsonFeature)
+      : json.type === 'Feature'
+        ? [toGeoJsonFeature(json)]
+        : isGeoJsonGeometry(json)
+          ? [{ geometry: json, properties: {} }]
+          : [];
+
+  if (rawFeatures.length === 0) {
+    throw new Error('Invalid GeoJSON: expected a FeatureCollection, Feature or geometry object.');
+  }
+
+  const features: ImportedFeature[] = [];
+  const errors: string[] = [];
+
+  rawFeatures.forEach((feature, i) => {
+    if (!feature.geometry) {
+      errors.push(`Feature #${i + 1}: Missing geometry`);
+      return;
+    }
+    const geometry = geoJsonGeometryToPolygons(feature.geometry);
+    if (geometry.length === 0) {
+      errors.push(`Feature #${i + 1}: ${feature.geometry.type} geometries are not supported, only polygons`);
+      return;
+    }
+    const ringErrors = findInvalidRings(geometry);
+    if (ringErrors.length > 0) {
+      ringErrors.forEach((error) => errors.push(`Feature #${i + 1}: ${error}`));
+      return;
+    }
+    features.push({ geometry, properties: stringifyProperties(feature.properties) });
+  });
+
+  return { format: 'geojson', features, errors };
+};
+
+// KML
+
+const parseKmlCoordinates = (text: string | null | undefined): LinearRing => {
+  const coordinates = (text ?? '')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((tuple) => tuple.split(',').map(Number));
+  return normalizeRing(coordinates);
+};
+
+const childrenByTag = (element: Element, tagName: string): Element[] => {
+  return Array.from(element.getElementsByTagName(tagName));
+};
+
+const kmlPolygonToCoordinates = (polygon: Element): PolygonCoordinates => {
+  const outer = childrenByTag(polygon, 'outerBoundaryIs')[0];
+  const inner = childrenByTag(polygon, 'innerBoundaryIs');
+  const ringOf = (boundary: Element) =>
+    parseKmlCoordinates(childrenByTag(boundary, 'coordinates')[0]?.textContent);
+
+  return outer ? [ringOf(outer), ...inner.map(ringOf)] : [];
+};
+
+const kmlPlacemarkProperties = (placemark: Element): Record<string, string> => {
+  const properties: Record<string, string> = {};
+
+  const name = Array.from(placemark.children).find((child) => child.tagName === 'name');
+  if (name?.textContent) properties.name = name.textContent.trim();
+
+  const description = Array.from(placemark.children).find((child) => child.tagName === 'description');
+  if (description?.textContent) properties.description = description.textContent.trim();
+
+  // <ExtendedData><Data name="..."><value>...</value></Data>
+  childrenByTag(placemark, 'Data').forEach((data) => {
+    const key = data.getAttribute('name');
+    const value = childrenByTag(data, 'value')[0]?.textContent;
+    if (key && value) properties[key] = value.trim();
+  });
+
+  // <ExtendedData><SchemaData><SimpleData name="...">...</SimpleData>
+  childrenByTag(placemark, 'SimpleData').forEach((data) => {
+    const key = data.getAttribute('name');
+    if (key && data.textContent) properties[key] = data.textContent.trim();
+  });
+
+  return properties;
+};
+
+/**
+ * Parse KML placemarks (including MultiGeometry) into polygon features
+ */
+export const parseKml = (text: string): GeometryImportResult => {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid KML: the file is not well-formed XML.');
+  }
+
+  const features: ImportedFeature[] = [];
+  const errors: string[] = [];
+
+  childrenByTag(document.documentElement, 'Placemark').forEach((placemark, i) => {
+    const properties = kmlPlacemarkProperties(placemark);
+    const label = properties.name ?? `#${i + 1}`;
+    const geometry = childrenByTag(placemark, 'Polygon').map(kmlPolygonToCoordinates);
+
+    if (geometry.length === 0) {
+      errors.push(`Placemark ${label}: No polygon found`);
+      return;
+    }
+    const ringErrors = findInvalidRings(geometry);
+    if (ringErrors.length > 0) {
+      ringErrors.forEach((error) => errors.push(`Placemark ${label}: ${error}`));
+      return;
+    }
+    features.push({ geometry, properties });
+  });
+
+  return { format: 'kml', features, errors };
+};
+
+// Zipped formats
+
+const findZipEntry = (zip: JSZip, extension: string): JSZip.JSZipObject | null => {
+  const matches = zip.file(new RegExp(`\\.${extension}$`, 'i')).filter((entry) => !entry.name.startsWith('__MACOSX'));
+  return matches[0] ?? null;
+};
+
+/**
+ * Parse a KMZ archive by reading its main KML document (doc.kml by convention)
+ */
+export const parseKmz = async (buffer: ArrayBuffer): Promise<GeometryImportResult> => {
+  const zip = await JSZip.loadAsync(buffer);
+  const entry = zip.file('doc.kml') ?? findZipEntry(zip, 'kml');
+  if (!entry) {
+    throw new Error('Invalid KMZ: no .kml document found inside the archive.');
+  }
+  const result = parseKml(await entry.async('string'));
+  return { ...result, format: 'kmz' };
+};
+
+/**
+ * Parse a zipped shapefile (.shp + .dbf, optional .prj/.cpg)
+ */
+export const parseShapefileZip = async (buffer: ArrayBuffer): Promise<GeometryImportResult> => {
+  const zip = await JSZip.loadAsync(buffer);
+  const shp = findZipEntry(zip, 'shp');
+  if (!shp) {
+    throw new Error('Invalid shapefile archive: no .shp file found.');
+  }
+
+  const prj = findZipEntry(zip, 'prj');
+  if (prj) {
+    const wkt = await prj.async('string');
+    if (/^\s*PROJCS/i.test(wkt)) {
+      throw new Error('Shapefile uses a projected coordinate system. Re-export it as WGS84 (EPSG:4326).');
+    }
+  }
+
+  const dbf = findZipEntry(zip, 'dbf');
+  const cpg = findZipEntry(zip, 'cpg');
+  const encoding = cpg ? (await cpg.async('string')).trim().toLowerCase() || undefined : undefined;
+
+  const records = readShapefile(
+    await shp.async('arraybuffer'),
+    dbf ? await dbf.async('arraybuffer') : undefined,
+    encoding
+  );
+
+  const features: ImportedFeature[] = [];
+  const errors: string[] = [];
+  records.forEach((record, i) => {
+    if (!record.geometry || record.geometry.length === 0) {
+      errors.push(`Record #${i + 1}: Empty geometry`);
+      return;
+    }
+    const ringErrors = findInvalidRings(record.geometry);
+    if (ringErrors.length > 0) {
+      ringErrors.forEach((error) => errors.push(`Record #${i + 1}: ${error}`));
+      return;
+    }
+    features.push({ geometry: record.geometry, properties: record.properties });
+  });
+
+  return { format: 'shapefile', features, errors };
+};
+
+/**
+ * Detect the format from the file extension and parse it
+ */
+export const importGeometryFile = async (file: File): Promise<GeometryImportResult> => {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith('.geojson') || name.endsWith('.json')) {
+    return parseGeoJson(await file.text());
+  }
+  if (name.endsWith('.kml')) {
+    return parseKml(await file.text());
+  }
+  if (name.endsWith('.kmz')) {
+    return parseKmz(await file.arrayBuffer());
+  }
+  if (name.endsWith('.zip')) {
+    return parseShapefileZip(await file.arrayBuffer());
+  }
+
+  throw new Error('Unsupported file type. Use .geojson, .json, .kml, .kmz or a zipped shapefile (.zip).');
+};
+
+/**
+ * Collect every property name used across the features
+ */
+export const getFeaturePropertyNames = (features: ImportedFeature[]): string[] => {
+  const names = new Set<string>();
+  features.forEach((feature) => Object.keys(feature.properties).forEach((key) => names.add(key)));
+  return Array.from(names).sort();
+};
+
+/**
+ * Pick the property most likely to hold the Terminal ID
+ */
+export const guessTerminalIdProperty = (propertyNames: string[]): string | undefined => {
+  for (const candidate of TERMINAL_ID_PROPERTY_CANDIDATES) {
+    const match = propertyNames.find((name) => name.trim().toLowerCase() === candidate);
+    if (match) return match;
+  }
+  return propertyNames[0];
+};
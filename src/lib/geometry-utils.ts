@@ -0,0 +1,152 @@
+import { compactCells, polygonToCellsExperimental, POLYGON_TO_CELLS_FLAGS, uncompactCells } from 'h3-js';
+import type {
+  ContainmentMode,
+  LeafletPolygon,
+  MultiPolygonCoordinates,
+  PolyfillOptions,
+  PolygonCoordinates,
+  Position,
+} from '@/types/geometry';
+
+export const CONTAINMENT_MODES: { value: ContainmentMode; label: string; description: string }[] = [
+  { value: 'center', label: 'Center', description: 'Cells whose center is inside the polygon' },
+  { value: 'full', label: 'Full', description: 'Cells entirely inside the polygon' },
+  { value: 'overlapping', label: 'Overlapping', description: 'Cells that touch the polygon at all' },
+  { value: 'overlappingBbox', label: 'Overlapping (bbox)', description: 'Cells whose bounding box touches the polygon' },
+];
+
+const CONTAINMENT_FLAGS: Record<ContainmentMode, string> = {
+  center: POLYGON_TO_CELLS_FLAGS.containmentCenter,
+  full: POLYGON_TO_CELLS_FLAGS.containmentFull,
+  overlapping: POLYGON_TO_CELLS_FLAGS.containmentOverlapping,
+  overlappingBbox: POLYGON_TO_CELLS_FLAGS.containmentOverlappingBbox,
+};
+
+export const DEFAULT_CONTAINMENT_MODE: ContainmentMode = 'overlapping';
+
+/**
+ * Fill every polygon (holes included) with H3 cells and return the de-duplicated union
+ */
+export const geometryToH3Cells = (
+  polygons: MultiPolygonCoordinates,
+  resolution: number,
+  containmentMode: ContainmentMode = DEFAULT_CONTAINMENT_MODE
+): string[] => {
+  const cells = new Set<string>();
+
+  polygons.forEach((rings) => {
+    // isGeoJson = true: rings are [lng, lat] and the first ring is the outer boundary
+    polygonToCellsExperimental(rings, resolution, CONTAINMENT_FLAGS[containmentMode], true).forEach((cell) => cells.add(cell));
+  });
+
+  return Array.from(cells);
+};
+
+// Uncompacting goes at most this many resolutions finer than the polyfill; each step multiplies the cells by 7
+export const MAX_UNCOMPACT_STEPS = 2;
+
+/**
+ * Polyfill, then optionally compact to mixed resolutions and expand back out to a target resolution
+ */
+export const polyfillGeometry = (polygons: MultiPolygonCoordinates, options: PolyfillOptions): string[] => {
+  const cells = geometryToH3Cells(polygons, options.resolution, options.containmentMode);
+  if (!options.compact) return cells;
+
+  const compacted = compactCells(cells);
+  // uncompactCells cannot go coarser than the finest compacted cell, which is the polyfill resolution
+  if (options.uncompactResolution === null || options.uncompactResolution < options.resolution) {
+    return compacted;
+  }
+  return uncompactCells(compacted, Math.min(options.uncompactResolution, options.resolution + MAX_UNCOMPACT_STEPS));
+};
+
+/**
+ * Cell count for each containment mode at a resolution, for comparing modes before switching
+ */
+export const countCellsByContainmentMode = (
+  polygons: MultiPolygonCoordinates,
+  resolution: number
+): Record<ContainmentMode, number> => {
+  return CONTAINMENT_MODES.reduce((counts, { value }) => {
+    counts[value] = geometryToH3Cells(polygons, resolution, value).length;
+    return counts;
+  }, {} as Record<ContainmentMode, number>);
+};
+
+/**
+ * Convert [lng, lat] polygons into Leaflet's lat/lng nesting, keeping holes
+ */
+export const toLeafletPolygon = (polygons: MultiPolygonCoordinates): LeafletPolygon => {
+  return polygons.map((rings) => rings.map((ring) => ring.map(([lng, lat]) => ({ lat, lng }))));
+};
+
+/**
+ * Serialize polygons back to WKT: POLYGON for a single part, MULTIPOLYGON otherwise
+ */
+export const geometryToWkt = (polygons: MultiPolygonCoordinates): string => {
+  const ringText = (ring: Position[]) => `(${ring.map(([lng, lat]) => `${lng} ${lat}`).join(', ')})`;
+  const polygonText = (rings: PolygonCoordinates) => `(${rings.map(ringText).join(', ')})`;
+
+  if (polygons.length === 1) {
+    return `POLYGON ${polygonText(polygons[0])}`;
+  }
+  return `MULTIPOLYGON (${polygons.map(polygonText).join(', ')})`;
+};
+
+/**
+ * Read a GeoJSON Polygon/MultiPolygon geometry (e.g., from a Leaflet layer's toGeoJSON) as polygons
+ */
+export const fromGeoJsonGeometry = (geometry: { type: string; coordinates: unknown }): MultiPolygonCoordinates => {
+  if (geometry.type === 'Polygon') {
+    return [geometry.coordinates as PolygonCoordinates];
+  }
+  if (geometry.type === 'MultiPolygon') {
+    return geometry.coordinates as MultiPolygonCoordinates;
+  }
+  return [];
+};
+
+/**
+ * Approximate a circle as a closed polygon ring using great-circle destination points
+ */
+export const circleToGeometry = (
+  center: { lat: number; lng: number },
+  radiusMeters: number,
+  segments = 64
+): MultiPolygonCoordinates => {
+  const earthRadius = 6371008.8;
+  const angularDistance = radiusMeters / earthRadius;
+  const lat1 = (center.lat * Math.PI) / 180;
+  const lng1 = (center.lng * Math.PI) / 180;
+
+  const ring: Position[] = [];
+  for (let i = 0; i < segments; i++) {
+    const bearing = (2 * Math.PI * i) / segments;
+    const lat2 = Math.asin(
+      Math.sin(lat1) * Math.cos(angularDistance) + Math.cos(lat1) * Math.sin(angularDistance) * Math.cos(bearing)
+    );
+    const lng2 =
+      lng1 +
+      Math.atan2(
+        Math.sin(bearing) * Math.sin(angularDistance) * Math.cos(lat1),
+        Math.cos(angularDistance) - Math.sin(lat1) * Math.sin(lat2)
+      );
+    ring.push([(lng2 * 180) / Math.PI, (lat2 * 180) / Math.PI]);
+  }
+  ring.push(ring[0]);
+
+  return [[ring]];
+};
+
+/**
+ * Mean of the outer-ring vertices: a cheap "location" for a zone, good enough for lookups and route starts
+ */
+export const getGeometryCentroid = (polygons: MultiPolygonCoordinates): { lat: number; lng: number } | null => {
+  const points = polygons.flatMap((rings) => rings[0] ?? []);
+  if (points.length === 0) return null;
+
+  return {
+    lat: points.reduce((sum, [, lat]) => sum + lat, 0) / points.length,
+    lng: points.reduce((sum, [lng]) => sum + lng, 0) / points.length,
+  };
+};
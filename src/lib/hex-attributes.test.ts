@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { cellToChildren, latLngToCell } from 'h3-js';
+import type { SheetTable } from '@/types/storage';
+import { getClassBreaks, importHexAttributes } from './hex-attributes';
+
+const PARENT = latLngToCell(52.37, 4.9, 8);
+const [CHILD_A, CHILD_B, CHILD_C] = cellToChildren(PARENT, 9);
+const OTHER = latLngToCell(51.92, 4.48, 9);
+
+const table = (rows: string[][]): SheetTable => ({ headers: ['hexagon_id', 'demand', 'zone'], rows });
+
+describe('getClassBreaks', () => {
+  it('splits equal intervals between the lowest and highest value', () => {
+    assert.deepEqual(getClassBreaks([0, 3, 10], 'equalInterval', 5), [0, 2, 4, 6, 8, 10]);
+  });
+
+  it('takes quantile breaks from the sorted values', () => {
+    assert.deepEqual(getClassBreaks([9, 1, 5, 3, 7], 'quantile', 4), [1, 3, 5, 7, 9]);
+  });
+
+  it('returns fewer classes when quantiles coincide', () => {
+    assert.deepEqual(getClassBreaks([1, 1, 1, 1, 2], 'quantile', 4), [1, 2]);
+  });
+
+  it('returns a single class when every value is the same, and none without values', () => {
+    assert.deepEqual(getClassBreaks([4, 4, 4], 'equalInterval', 5), [4, 4]);
+    assert.deepEqual(getClassBreaks([], 'quantile', 5), []);
+  });
+});
+
+describe('importHexAttributes', () => {
+  it('aggregates children up to their parent at the chosen resolution', () => {
+    const rows = [[CHILD_A, '2', 'north'], [CHILD_B, '5', 'south'], [CHILD_C, '8', 'south'], [OTHER, '1', 'west']];
+
+    const sum = importHexAttributes(table(rows), 'demand.csv', { idColumn: 'hexagon_id', resolution: 8, aggregation: 'sum' });
+    const mean = importHexAttributes(table(rows), 'demand.csv', { idColumn: 'hexagon_id', resolution: 8, aggregation: 'mean' });
+
+    assert.deepEqual(sum.errors, []);
+    assert.deepEqual(sum.layer.values[PARENT], { demand: 15, zone: 'south' });
+    assert.equal(mean.layer.values[PARENT].demand, 5);
+    assert.equal(Object.keys(sum.layer.values).length, 2);
+  });
+
+  it('keeps cells as they are without a resolution', () => {
+    const result = importHexAttributes(
+      table([[CHILD_A, '2', 'north'], [CHILD_A, '6', 'north'], [CHILD_B, '5', 'south']]),
+      'demand.csv',
+      { idColumn: 'hexagon_id', resolution: null, aggregation: 'max' }
+    );
+
+    assert.deepEqual(result.layer.values, { [CHILD_A]: { demand: 6, zone: 'north' }, [CHILD_B]: { demand: 5, zone: 'south' } });
+  });
+
+  it('decides whether a column is numeric from the imported rows only', () => {
+    const coarse = latLngToCell(52.37, 4.9, 6);
+
+    const result = importHexAttributes(
+      table([[CHILD_A, '2', 'north'], ['not-a-cell', 'n/a', 'east'], [coarse, 'unknown', 'east']]),
+      'demand.csv',
+      { idColumn: 'hexagon_id', resolution: 8, aggregation: 'sum' }
+    );
+
+    assert.deepEqual(result.layer.attributes, [{ name: 'demand', kind: 'numeric' }, { name: 'zone', kind: 'categorical' }]);
+    assert.deepEqual(result.errors.map(({ row, rowSkipped }) => ({ row, rowSkipped })), [
+      { row: 3, rowSkipped: true },
+      { row: 4, rowSkipped: true },
+    ]);
+  });
+});
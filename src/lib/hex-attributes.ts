@@ -0,0 +1,256 @@
+import { cellToParent, getResolution, isValidCell } from 'h3-js';
+import type { SheetRowError, SheetTable } from '@/types/storage';
+import type {
+  AttributeAggregation,
+  Choropleth,
+  ChoroplethLegend,
+  ChoroplethSettings,
+  ClassingMethod,
+  HexAttribute,
+  HexAttributeLayer,
+  HexAttributeValue,
+} from '@/types/hex-attributes';
+
+export const HEXAGON_ID_COLUMN = 'hexagon_id';
+
+export const AGGREGATIONS: { value: AttributeAggregation; label: string }[] = [
+  { value: 'sum', label: 'Sum' },
+  { value: 'mean', label: 'Mean' },
+  { value: 'min', label: 'Minimum' },
+  { value: 'max', label: 'Maximum' },
+];
+
+export const CLASSING_METHODS: { value: ClassingMethod; label: string }[] = [
+  { value: 'quantile', label: 'Quantile' },
+  { value: 'equalInterval', label: 'Equal interval' },
+];
+
+export const MIN_CLASS_COUNT = 3;
+export const MAX_CLASS_COUNT = 7;
+
+export const DEFAULT_CHOROPLETH_SETTINGS: ChoroplethSettings = {
+  visible: true,
+  attribute: null,
+  method: 'quantile',
+  classCount: 5,
+};
+
+// ColorBrewer YlOrRd: light for low values, dark red for high ones
+const SEQUENTIAL_PALETTE = ['#ffffb2', '#fed976', '#feb24c', '#fd8d3c', '#fc4e2a', '#e31a1c', '#b10026'];
+// Tableau 10; categories past these share OTHER_COLOR
+const CATEGORICAL_PALETTE = ['#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f', '#edc948', '#b07aa1', '#ff9da7', '#9c755f', '#bab0ac'];
+const OTHER_COLOR = '#6b7280';
+
+// Headers are compared without case, spaces or punctuation, so "Hexagon ID" and "H3 index" are found too
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+const ID_HEADERS = ['hexagonid', 'hexid', 'h3index', 'h3', 'h3cell', 'cell'];
+
+export const guessHexagonIdColumn = (headers: string[]): string | undefined => {
+  return ID_HEADERS
+    .map(candidate => headers.find(header => normalizeHeader(header) === candidate))
+    .find(Boolean);
+};
+
+const parseNumber = (value: string): number | null => {
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(value)) return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+const aggregateNumbers = (values: number[], aggregation: AttributeAggregation): number => {
+  switch (aggregation) {
+    case 'sum':
+      return values.reduce((total, value) => total + value, 0);
+    case 'mean':
+      return values.reduce((total, value) => total + value, 0) / values.length;
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+  }
+};
+
+// Most common value; ties go to the one seen first
+const mostCommon = (values: string[]): string => {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  let best = values[0];
+  counts.forEach((count, value) => {
+    if (count > (counts.get(best) ?? 0)) best = value;
+  });
+  return best;
+};
+
+export interface HexAttributeImportOptions {
+  idColumn: string;
+  resolution: number | null; // aggregate finer cells up to this; null = keep the cells as they are
+  aggregation: AttributeAggregation;
+}
+
+/**
+ * Turn a CSV/sheet table keyed by hexagon ID into a layer; every other column becomes an attribute,
+ * and rows that land on the same cell (duplicates, or children of one parent) are aggregated
+ */
+export const importHexAttributes = (
+  table: SheetTable,
+  source: string,
+  { idColumn, resolution, aggregation }: HexAttributeImportOptions
+): { layer: HexAttributeLayer; errors: SheetRowError[] } => {
+  const idIndex = table.headers.indexOf(idColumn);
+  if (idIndex < 0) throw new Error(`The table has no "${idColumn}" column.`);
+
+  const columns = table.headers
+    .map((name, index) => ({ name: name.trim(), index }))
+    .filter(({ name, index }) => index !== idIndex && name);
+
+  const errors: SheetRowError[] = [];
+  const rowsByCell = new Map<string, string[][]>();
+  table.rows.forEach((row, i) => {
+    const rowNumber = i + 2; // the header is row 1
+    const id = row[idIndex]?.trim() ?? '';
+    if (!isValidCell(id)) {
+      errors.push({ row: rowNumber, column: idColumn, reason: id ? 'is not an H3 cell index' : 'is empty', rowSkipped: true });
+      return;
+    }
+
+    let cell = id;
+    if (resolution !== null) {
+      const cellResolution = getResolution(id);
+      if (cellResolution < resolution) {
+        errors.push({ row: rowNumber, column: idColumn, reason: `is coarser than resolution ${resolution} and cannot be split`, rowSkipped: true });
+        return;
+      }
+      cell = cellResolution > resolution ? cellToParent(id, resolution) : id;
+    }
+
+    const rows = rowsByCell.get(cell) ?? [];
+    rows.push(row);
+    rowsByCell.set(cell, rows);
+  });
+
+  // A column is numeric only if every value in the imported rows is a number; skipped rows do not count
+  const acceptedRows = Array.from(rowsByCell.values()).flat();
+  const attributeColumns: (HexAttribute & { index: number })[] = [];
+  columns.forEach(({ name, index }) => {
+    const values = acceptedRows.map(row => row[index]?.trim() ?? '').filter(Boolean);
+    if (values.length === 0) return;
+    attributeColumns.push({ name, index, kind: values.every(value => parseNumber(value) !== null) ? 'numeric' : 'categorical' });
+  });
+
+  const values: HexAttributeLayer['values'] = {};
+  rowsByCell.forEach((rows, cell) => {
+    const cellValues: Record<string, HexAttributeValue> = {};
+    attributeColumns.forEach(({ name, index, kind }) => {
+      const raw = rows.map(row => row[index]?.trim() ?? '').filter(Boolean);
+      if (raw.length === 0) return;
+      cellValues[name] = kind === 'numeric'
+        ? aggregateNumbers(raw.map(value => parseNumber(value)!), aggregation)
+        : mostCommon(raw);
+    });
+    values[cell] = cellValues;
+  });
+
+  const attributes = attributeColumns.map(({ name, kind }) => ({ name, kind }));
+  return { layer: { source, resolution, aggregation, attributes, values }, errors };
+};
+
+/**
+ * Class boundaries from the lowest to the highest value; at most `classCount` classes,
+ * fewer when quantiles coincide or every value is the same
+ */
+export const getClassBreaks = (values: number[], method: ClassingMethod, classCount: number): number[] => {
+  if (values.length === 0) return [];
+  const sorted = [...values].sort((a, b) => a - b);
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (min === max) return [min, max];
+
+  const inner = Array.from({ length: classCount - 1 }, (_, i) => {
+    const fraction = (i + 1) / classCount;
+    return method === 'quantile'
+      ? sorted[Math.floor(fraction * (sorted.length - 1))]
+      : min + fraction * (max - min);
+  });
+  return Array.from(new Set([min, ...inner.filter(value => value > min && value < max), max]));
+};
+
+// Spreads the palette over however many classes there are
+const sequentialColor = (classIndex: number, classCount: number): string => {
+  if (classCount <= 1) return SEQUENTIAL_PALETTE[SEQUENTIAL_PALETTE.length - 1];
+  return SEQUENTIAL_PALETTE[Math.round(classIndex * (SEQUENTIAL_PALETTE.length - 1) / (classCount - 1))];
+};
+
+const formatValue = (value: HexAttributeValue): string => {
+  return typeof value === 'number' ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : value;
+};
+
+export const formatClassRange = (min: number, max: number): string => {
+  return min === max ? formatValue(min) : `${formatValue(min)} – ${formatValue(max)}`;
+};
+
+const escapeHtml = (value: string): string => {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+};
+
+/**
+ * Colors for every cell with a value for the chosen attribute, the legend to go with them,
+ * and the hover text listing all of a cell's attributes (the shown one in bold)
+ */
+export const buildChoropleth = (layer: HexAttributeLayer, settings: ChoroplethSettings): Choropleth | null => {
+  const attribute = layer.attributes.find(({ name }) => name === settings.attribute) ?? layer.attributes[0];
+  if (!attribute) return null;
+
+  const cells = Object.entries(layer.values).filter(([, values]) => values[attribute.name] !== undefined);
+  const colors = new Map<string, string>();
+  let legend: ChoroplethLegend;
+
+  if (attribute.kind === 'numeric') {
+    const breaks = getClassBreaks(cells.map(([, values]) => values[attribute.name] as number), settings.method, settings.classCount);
+    const classCount = Math.max(1, breaks.length - 1);
+    const classes = Array.from({ length: classCount }, (_, i) => ({
+      min: breaks[i],
+      max: breaks[i + 1] ?? breaks[i],
+      color: sequentialColor(i, classCount),
+      count: 0,
+    }));
+    cells.forEach(([cell, values]) => {
+      const value = values[attribute.name] as number;
+      const classIndex = Math.max(0, classes.findIndex(({ max }) => value <= max));
+      classes[classIndex].count++;
+      colors.set(cell, classes[classIndex].color);
+    });
+    legend = { attribute: attribute.name, kind: 'numeric', classes };
+  } else {
+    // Most frequent categories get their own color
+    const counts = new Map<string, number>();
+    cells.forEach(([, values]) => {
+      const value = String(values[attribute.name]);
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    });
+    const ranked = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+    const named = ranked.slice(0, CATEGORICAL_PALETTE.length);
+    const categoryColors = new Map(named.map(([value], i) => [value, CATEGORICAL_PALETTE[i]] as const));
+    cells.forEach(([cell, values]) => {
+      colors.set(cell, categoryColors.get(String(values[attribute.name])) ?? OTHER_COLOR);
+    });
+
+    const otherCount = ranked.slice(CATEGORICAL_PALETTE.length).reduce((total, [, count]) => total + count, 0);
+    const categories = named.map(([value, count], i) => ({ value, color: CATEGORICAL_PALETTE[i], count }));
+    if (otherCount > 0) categories.push({ value: 'Other', color: OTHER_COLOR, count: otherCount });
+    legend = { attribute: attribute.name, kind: 'categorical', categories };
+  }
+
+  const describe = (index: string): string | null => {
+    const values = layer.values[index];
+    if (!values) return null;
+    const rows = layer.attributes
+      .filter(({ name }) => values[name] !== undefined)
+      .map(({ name }) => {
+        const row = `${escapeHtml(name)}: ${escapeHtml(formatValue(values[name]))}`;
+        return name === attribute.name ? `<b>${row}</b>` : row;
+      });
+    return [index, ...rows].join('<br/>');
+  };
+
+  return { colors, legend, describe };
+};
@@ -0,0 +1,279 @@
+import L from 'leaflet';
+import type { LatLngLiteral } from 'leaflet';
+import { getResolution, latLngToCell } from 'h3-js';
+
+// Browser-only: draws every hexagon onto one canvas instead of a DOM/SVG element per cell
+
+const PANE_NAME = 'hexagons';
+const PANE_Z_INDEX = 450; // above the source polygons (overlay pane, 400), below markers and tooltips
+
+export interface HexagonCanvasPane {
+  name: string;
+  zIndex: number;
+}
+
+export interface HexagonStyle {
+  color: string;
+  weight: number;
+  opacity: number;
+  fillColor: string;
+  fillOpacity: number;
+  label?: string; // drawn at the cell center, e.g. the stop number
+}
+
+interface HexagonEntry {
+  boundary: LatLngLiteral[];
+  bounds: L.LatLngBounds;
+  center: L.LatLng;
+  style: HexagonStyle;
+}
+
+const sameStyle = (a: HexagonStyle, b: HexagonStyle): boolean => (
+  a.color === b.color
+  && a.weight === b.weight
+  && a.opacity === b.opacity
+  && a.fillColor === b.fillColor
+  && a.fillOpacity === b.fillOpacity
+  && a.label === b.label
+);
+
+export class HexagonCanvasLayer extends L.Layer {
+  private readonly pane: HexagonCanvasPane;
+  private entries = new Map<string, HexagonEntry>();
+  private resolutions = new Set<number>(); // resolutions present, tried in turn when hit-testing
+  private canvas: HTMLCanvasElement | null = null;
+  private frame: number | null = null;
+  private showsPointer = false;
+  private onCellClick?: (index: string) => void;
+  private describeCell?: (index: string) => string | null;
+  private hoverTooltip: L.Tooltip | null = null;
+  private hoverIndex: string | null = null;
+
+  // Several layers can be stacked, each in its own pane
+  constructor(pane: HexagonCanvasPane = { name: PANE_NAME, zIndex: PANE_Z_INDEX }) {
+    super();
+    this.pane = pane;
+  }
+
+  /**
+   * Replace the set of cells; cells already drawn keep their style, new ones start with `defaultStyle`
+   */
+  setHexagons(hexagons: { index: string; boundary: LatLngLiteral[] }[], defaultStyle: HexagonStyle): this {
+    const incoming = new Set(hexagons.map(hex => hex.index));
+    if (this.hoverIndex && !incoming.has(this.hoverIndex)) this.hideHoverTooltip();
+    this.entries.forEach((_, index) => {
+      if (!incoming.has(index)) this.entries.delete(index);
+    });
+
+    hexagons.forEach(({ index, boundary }) => {
+      if (this.entries.has(index)) return;
+      const bounds = L.latLngBounds(boundary);
+      this.entries.set(index, { boundary, bounds, center: bounds.getCenter(), style: defaultStyle });
+    });
+
+    this.resolutions = new Set(Array.from(this.entries.keys(), getResolution));
+    return this.scheduleRedraw();
+  }
+
+  /**
+   * Restyle cells by H3 index; the canvas is only redrawn when some cell actually changed
+   */
+  setStyles(getStyle: (index: string) => HexagonStyle): this {
+    let changed = false;
+    this.entries.forEach((entry, index) => {
+      const style = getStyle(index);
+      if (!sameStyle(entry.style, style)) {
+        entry.style = style;
+        changed = true;
+      }
+    });
+    return changed ? this.scheduleRedraw() : this;
+  }
+
+  setClickHandler(onCellClick?: (index: string) => void): this {
+    this.onCellClick = onCellClick;
+    return this;
+  }
+
+  /**
+   * Show hover text for the cell under the pointer; cells the function returns null for get none
+   */
+  setTooltipHandler(describeCell?: (index: string) => string | null): this {
+    this.describeCell = describeCell;
+    this.hideHoverTooltip();
+    return this;
+  }
+
+  getBounds(): L.LatLngBounds | null {
+    let bounds: L.LatLngBounds | null = null;
+    for (const entry of this.entries.values()) {
+      bounds = bounds ? bounds.extend(entry.bounds) : L.latLngBounds(entry.bounds.getSouthWest(), entry.bounds.getNorthEast());
+    }
+    return bounds;
+  }
+
+  getCellCount(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * The drawn cell under a point, found with latLngToCell rather than per-cell listeners
+   */
+  cellAt(latLng: L.LatLng): string | null {
+    for (const resolution of this.resolutions) {
+      const index = latLngToCell(latLng.lat, latLng.lng, resolution);
+      if (this.entries.has(index)) return index;
+    }
+    return null;
+  }
+
+  onAdd(map: L.Map): this {
+    const pane = map.getPane(this.pane.name) ?? map.createPane(this.pane.name);
+    pane.style.zIndex = String(this.pane.zIndex);
+    pane.style.pointerEvents = 'none'; // clicks reach the map and the polygons below; hit-testing is done here
+
+    // leaflet-zoom-hide keeps the stale frame from being shown scaled during zoom animations
+    this.canvas = L.DomUtil.create('canvas', 'leaflet-zoom-hide', pane);
+    this.reset();
+    return this;
+  }
+
+  onRemove(map: L.Map): this {
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.frame = null;
+    this.canvas?.remove();
+    this.canvas = null;
+    this.setPointer(map, false);
+    this.hideHoverTooltip();
+    return this;
+  }
+
+  getEvents(): Record<string, L.LeafletEventHandlerFn> {
+    return {
+      viewreset: this.reset,
+      moveend: this.reset,
+      zoomend: this.reset,
+      resize: this.reset,
+      click: this.handleClick as L.LeafletEventHandlerFn,
+      mousemove: this.handleMouseMove as L.LeafletEventHandlerFn,
+      mouseout: this.hideHoverTooltip,
+    };
+  }
+
+  private handleClick = (event: L.LeafletMouseEvent) => {
+    if (!this.onCellClick) return;
+    const index = this.cellAt(event.latlng);
+    if (index) this.onCellClick(index);
+  };
+
+  private handleMouseMove = (event: L.LeafletMouseEvent) => {
+    if (!this._map) return;
+    const index = this.onCellClick || this.describeCell ? this.cellAt(event.latlng) : null;
+    this.setPointer(this._map, !!this.onCellClick && index !== null);
+    if (this.describeCell) this.showHoverTooltip(this._map, index);
+  };
+
+  // One tooltip is moved from cell to cell, placed at the cell center
+  private showHoverTooltip(map: L.Map, index: string | null) {
+    if (index === this.hoverIndex) return;
+    const content = index && this.describeCell?.(index);
+    if (!index || !content) {
+      this.hideHoverTooltip();
+      return;
+    }
+
+    this.hoverIndex = index;
+    this.hoverTooltip ??= L.tooltip({ direction: 'top', offset: [0, -8] });
+    this.hoverTooltip.setLatLng(this.entries.get(index)!.center).setContent(content);
+    map.openTooltip(this.hoverTooltip);
+  }
+
+  private hideHoverTooltip = () => {
+    this.hoverIndex = null;
+    if (this.hoverTooltip) this._map?.closeTooltip(this.hoverTooltip);
+  };
+
+  private setPointer(map: L.Map, pointer: boolean) {
+    if (pointer === this.showsPointer) return;
+    this.showsPointer = pointer;
+    map.getContainer().style.cursor = pointer ? 'pointer' : '';
+  }
+
+  private scheduleRedraw(): this {
+    if (this.canvas && this.frame === null) {
+      this.frame = requestAnimationFrame(() => {
+        this.frame = null;
+        this.draw();
+      });
+    }
+    return this;
+  }
+
+  // Size and place the canvas over the visible map, then draw
+  private reset = () => {
+    const map = this._map;
+    const canvas = this.canvas;
+    if (!map || !canvas) return;
+
+    const size = map.getSize();
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = size.x * ratio;
+    canvas.height = size.y * ratio;
+    canvas.style.width = `${size.x}px`;
+    canvas.style.height = `${size.y}px`;
+    L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+    this.draw();
+  };
+
+  private draw() {
+    const map = this._map;
+    const ctx = this.canvas?.getContext('2d');
+    if (!map || !ctx || !this.canvas) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+
+    // Only cells in (or just around) the view are projected
+    const visible = map.getBounds().pad(0.1);
+    const labelled: HexagonEntry[] = [];
+
+    this.entries.forEach(entry => {
+      if (!visible.intersects(entry.bounds)) return;
+      const { style } = entry;
+
+      ctx.beginPath();
+      entry.boundary.forEach((latLng, i) => {
+        const point = map.latLngToContainerPoint(latLng);
+        if (i === 0) ctx.moveTo(point.x, point.y);
+        else ctx.lineTo(point.x, point.y);
+      });
+      ctx.closePath();
+
+      ctx.globalAlpha = style.fillOpacity;
+      ctx.fillStyle = style.fillColor;
+      ctx.fill();
+      ctx.globalAlpha = style.opacity;
+      ctx.strokeStyle = style.color;
+      ctx.lineWidth = style.weight;
+      ctx.lineJoin = 'round';
+      ctx.stroke();
+
+      if (style.label) labelled.push(entry);
+    });
+
+    // Labels last so neighbouring cells never paint over them
+    ctx.globalAlpha = 1;
+    ctx.font = 'bold 12px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = 'white';
+    ctx.shadowColor = 'black';
+    ctx.shadowBlur = 5;
+    labelled.forEach(entry => {
+      const point = map.latLngToContainerPoint(entry.center);
+      ctx.fillText(entry.style.label ?? '', point.x, point.y);
+    });
+    ctx.shadowBlur = 0;
+  }
+}
@@ -0,0 +1,65 @@
+// Undo history as a list of states, each labelled with the command that produced it.
+// Entry 0 is where the session started; `index` is the entry currently shown.
+
+// Older entries are dropped past this, keeping memory bounded on long sessions
+const MAX_HISTORY_ENTRIES = 100;
+
+export interface HistoryEntry<T> {
+  id: number;
+  label: string; // "Remove polygon", "Change time of Hex #4", ...
+  state: T;
+  at: Date;
+}
+
+export interface HistoryStack<T> {
+  entries: HistoryEntry<T>[];
+  index: number;
+}
+
+let nextEntryId = 1;
+
+const createEntry = <T>(label: string, state: T): HistoryEntry<T> => ({
+  id: nextEntryId++,
+  label,
+  state,
+  at: new Date(),
+});
+
+export const createHistory = <T>(state: T, label = 'Session opened'): HistoryStack<T> => ({
+  entries: [createEntry(label, state)],
+  index: 0,
+});
+
+/**
+ * Record a command; anything that could have been redone is discarded
+ */
+export const pushHistory = <T>(history: HistoryStack<T>, label: string, state: T): HistoryStack<T> => {
+  const entries = [...history.entries.slice(0, history.index + 1), createEntry(label, state)]
+    .slice(-MAX_HISTORY_ENTRIES);
+  return { entries, index: entries.length - 1 };
+};
+
+/**
+ * Fold a change that is not a command of its own (typing a name, a save returning its revision) into the current entry
+ */
+export const amendHistory = <T>(history: HistoryStack<T>, state: T): HistoryStack<T> => ({
+  entries: history.entries.map((entry, i) => (i === history.index ? { ...entry, state } : entry)),
+  index: history.index,
+});
+
+/**
+ * Change every recorded state, e.g. when something outside the session (a deleted saved route) makes them stale
+ */
+export const rewriteHistory = <T>(history: HistoryStack<T>, update: (state: T) => T): HistoryStack<T> => ({
+  entries: history.entries.map(entry => ({ ...entry, state: update(entry.state) })),
+  index: history.index,
+});
+
+export const moveHistory = <T>(history: HistoryStack<T>, index: number): HistoryStack<T> => ({
+  entries: history.entries,
+  index: Math.max(0, Math.min(index, history.entries.length - 1)),
+});
+
+export const canUndo = (history: HistoryStack<unknown>): boolean => history.index > 0;
+
+export const canRedo = (history: HistoryStack<unknown>): boolean => history.index < history.entries.length - 1;
@@ -0,0 +1,168 @@
+import L from 'leaflet';
+import type { Position, SelectionShape, SelectionTool } from '@/types/geometry';
+
+// Browser-only: turns drags and clicks on the map into selection shapes; which cells they pick is decided elsewhere
+
+const PREVIEW_STYLE: L.PolylineOptions = {
+  color: '#3b82f6',
+  weight: 2,
+  dashArray: '4 4',
+  fillOpacity: 0.1,
+  interactive: false,
+};
+
+const toPosition = (latLng: L.LatLng): Position => [latLng.lng, latLng.lat];
+
+const toRectangleRing = (a: L.LatLng, b: L.LatLng): Position[] => [
+  [a.lng, a.lat],
+  [b.lng, a.lat],
+  [b.lng, b.lat],
+  [a.lng, b.lat],
+];
+
+export class MapSelectionHandler extends L.Handler {
+  private tool: SelectionTool | null = null;
+  private drag: 'rectangle' | 'lasso' | null = null; // a shape being drawn with the button held down
+  private points: L.LatLng[] = [];
+  private preview: L.Path | null = null;
+  private drewShape = false; // swallows the click that ends a drag, so it does not also toggle a cell
+  private onShape?: (shape: SelectionShape) => void;
+
+  constructor(private readonly map: L.Map) {
+    super(map);
+  }
+
+  setShapeHandler(onShape?: (shape: SelectionShape) => void): this {
+    this.onShape = onShape;
+    return this;
+  }
+
+  /**
+   * Switch tools; null leaves only shift-drag rectangles, with normal panning and zooming
+   */
+  setTool(tool: SelectionTool | null): this {
+    this.cancel();
+    this.tool = tool;
+
+    // Drag tools need the button to draw rather than pan; the line tool finishes on double-click
+    const {map} = this;
+    if (tool === 'rectangle' || tool === 'lasso') map.dragging.disable();
+    else map.dragging.enable();
+    if (tool === 'line') map.doubleClickZoom.disable();
+    else map.doubleClickZoom.enable();
+
+    if (tool) L.DomUtil.addClass(map.getContainer(), 'leaflet-crosshair');
+    else L.DomUtil.removeClass(map.getContainer(), 'leaflet-crosshair');
+    return this;
+  }
+
+  /**
+   * Whether map clicks belong to a selection tool rather than to the cell under them
+   */
+  capturesClicks(): boolean {
+    return this.tool !== null || this.drewShape;
+  }
+
+  addHooks() {
+    this.map.boxZoom.disable(); // shift-drag selects instead of zooming
+    this.map.on('mousedown', this.handleMouseDown);
+    this.map.on('mousemove', this.handleMouseMove);
+    this.map.on('click', this.handleClick);
+    this.map.on('dblclick', this.handleDoubleClick);
+    L.DomEvent.on(document as unknown as HTMLElement, 'mouseup', this.handleMouseUp);
+    L.DomEvent.on(document as unknown as HTMLElement, 'keydown', this.handleKeyDown as L.DomEvent.EventHandlerFn);
+  }
+
+  removeHooks() {
+    this.cancel();
+    this.map.off('mousedown', this.handleMouseDown);
+    this.map.off('mousemove', this.handleMouseMove);
+    this.map.off('click', this.handleClick);
+    this.map.off('dblclick', this.handleDoubleClick);
+    L.DomEvent.off(document as unknown as HTMLElement, 'mouseup', this.handleMouseUp);
+    L.DomEvent.off(document as unknown as HTMLElement, 'keydown', this.handleKeyDown as L.DomEvent.EventHandlerFn);
+    this.map.boxZoom.enable();
+  }
+
+  private isDrawingShapes(): boolean {
+    return this.map.pm.globalDrawModeEnabled();
+  }
+
+  private handleMouseDown = (event: L.LeafletEvent) => {
+    const { latlng, originalEvent } = event as L.LeafletMouseEvent;
+    if (originalEvent.button !== 0 || this.isDrawingShapes()) return;
+
+    const shiftDrag = this.tool === null && originalEvent.shiftKey;
+    if (this.tool !== 'rectangle' && this.tool !== 'lasso' && !shiftDrag) return;
+
+    this.drag = this.tool === 'lasso' ? 'lasso' : 'rectangle';
+    this.points = [latlng];
+    L.DomUtil.disableTextSelection();
+  };
+
+  private handleMouseMove = (event: L.LeafletEvent) => {
+    if (!this.drag) return;
+    const { latlng } = event as L.LeafletMouseEvent;
+
+    if (this.drag === 'lasso') {
+      this.points.push(latlng);
+      this.showPreview(this.points, true);
+    } else {
+      this.points = [this.points[0], latlng];
+      this.showPreview(toRectangleRing(this.points[0], latlng).map(([lng, lat]) => L.latLng(lat, lng)), true);
+    }
+  };
+
+  private handleMouseUp = () => {
+    if (!this.drag) return;
+    const [first, last] = [this.points[0], this.points[this.points.length - 1]];
+    const shape: SelectionShape | null = this.drag === 'lasso'
+      ? (this.points.length >= 3 ? { type: 'lasso', ring: this.points.map(toPosition) } : null)
+      : (first && last && !first.equals(last) ? { type: 'rectangle', ring: toRectangleRing(first, last) } : null);
+
+    this.cancel();
+    L.DomUtil.enableTextSelection();
+    if (!shape) return;
+
+    this.drewShape = true;
+    setTimeout(() => { this.drewShape = false; }, 0);
+    this.onShape?.(shape);
+  };
+
+  private handleClick = (event: L.LeafletEvent) => {
+    const { latlng } = event as L.LeafletMouseEvent;
+    if (this.isDrawingShapes()) return;
+
+    if (this.tool === 'ring') {
+      this.onShape?.({ type: 'ring', center: toPosition(latlng) });
+    } else if (this.tool === 'line') {
+      this.points.push(latlng);
+      this.showPreview(this.points, false);
+    }
+  };
+
+  private handleDoubleClick = () => {
+    if (this.tool !== 'line') return;
+    // Both clicks of the double-click have already added the end point
+    const points = this.points.filter((point, i) => i === 0 || !point.equals(this.points[i - 1]));
+    this.cancel();
+    if (points.length >= 2) this.onShape?.({ type: 'line', points: points.map(toPosition) });
+  };
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') this.cancel();
+  };
+
+  private showPreview(points: L.LatLng[], closed: boolean) {
+    this.preview?.remove();
+    this.preview = (closed ? L.polygon(points, PREVIEW_STYLE) : L.polyline(points, PREVIEW_STYLE)).addTo(this.map);
+  }
+
+  // Drops a shape that is half drawn
+  private cancel() {
+    this.drag = null;
+    this.points = [];
+    this.preview?.remove();
+    this.preview = null;
+  }
+}
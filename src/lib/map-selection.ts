@@ -0,0 +1,106 @@
+import { cellToLatLng, getResolution, gridDisk, gridPathCells, latLngToCell } from 'h3-js';
+import type { Position, SelectionMode, SelectionShape } from '@/types/geometry';
+import { getGridDistance } from './route-optimizer';
+import { isPointInRing } from './shapefile';
+
+export const SELECTION_MODES: { value: SelectionMode; label: string }[] = [
+  { value: 'add', label: 'Add' },
+  { value: 'subtract', label: 'Subtract' },
+  { value: 'intersect', label: 'Intersect' },
+];
+
+export const DEFAULT_RING_RADIUS = 1;
+export const MAX_RING_RADIUS = 10;
+export const MAX_LINE_SEGMENT_CELLS = 10_000; // longer line segments are rejected rather than walked cell by cell
+
+const SAMPLES_PER_CELL = 4; // a quarter of the center spacing, so the sampled fallback does not step over cells
+
+// The resolution most of the candidate cells are at; mixed sets come from compacted polygons
+const getMainResolution = (cells: string[]): number | null => {
+  const counts = new Map<number, number>();
+  cells.forEach(cell => {
+    const resolution = getResolution(cell);
+    counts.set(resolution, (counts.get(resolution) ?? 0) + 1);
+  });
+  let main: number | null = null;
+  counts.forEach((count, resolution) => {
+    if (main === null || count > (counts.get(main) ?? 0)) main = resolution;
+  });
+  return main;
+};
+
+// The candidate cell under a point, trying each resolution present
+const findCellAt = ([lng, lat]: Position, candidates: Set<string>, resolutions: number[]): string | null => {
+  for (const resolution of resolutions) {
+    const cell = latLngToCell(lat, lng, resolution);
+    if (candidates.has(cell)) return cell;
+  }
+  return null;
+};
+
+// gridPathCells fails across pentagons and very long distances; those segments are sampled instead
+const getSegmentCells = (from: Position, to: Position, resolution: number): string[] => {
+  const start = latLngToCell(from[1], from[0], resolution);
+  const end = latLngToCell(to[1], to[0], resolution);
+  const distance = getGridDistance(start, end);
+  if (distance > MAX_LINE_SEGMENT_CELLS) {
+    throw new Error(`Each line segment can cross at most ${MAX_LINE_SEGMENT_CELLS.toLocaleString()} hexagons. Draw a shorter segment.`);
+  }
+  try {
+    return gridPathCells(start, end);
+  } catch {
+    const steps = Math.max(1, Math.ceil(distance * SAMPLES_PER_CELL));
+    return Array.from({ length: steps + 1 }, (_, i) => {
+      const t = i / steps;
+      return latLngToCell(from[1] + (to[1] - from[1]) * t, from[0] + (to[0] - from[0]) * t, resolution);
+    });
+  }
+};
+
+/**
+ * Candidate cells picked by a shape, in the order they were reached (along the line, outward from the ring center).
+ * Throws when a line segment is longer than MAX_LINE_SEGMENT_CELLS.
+ */
+export const getShapeCells = (shape: SelectionShape, candidates: string[], ringRadius = DEFAULT_RING_RADIUS): string[] => {
+  const candidateSet = new Set(candidates);
+  const resolution = getMainResolution(candidates);
+  if (resolution === null) return [];
+
+  switch (shape.type) {
+    case 'rectangle':
+    case 'lasso':
+      // Centers are tested so compacted (coarser) cells are picked the same way as the rest
+      return candidates.filter(cell => {
+        const [lat, lng] = cellToLatLng(cell);
+        return isPointInRing([lng, lat], shape.ring);
+      });
+    case 'ring': {
+      const resolutions = Array.from(new Set([resolution, ...candidates.map(getResolution)]));
+      const center = findCellAt(shape.center, candidateSet, resolutions)
+        ?? latLngToCell(shape.center[1], shape.center[0], resolution);
+      return gridDisk(center, ringRadius).filter(cell => candidateSet.has(cell));
+    }
+    case 'line': {
+      const cells = shape.points.slice(1).flatMap((point, i) => getSegmentCells(shape.points[i], point, resolution));
+      return Array.from(new Set(cells)).filter(cell => candidateSet.has(cell));
+    }
+  }
+};
+
+/**
+ * Combine a tool's cells with the current selection
+ */
+export const applySelectionMode = (current: Set<string>, cells: string[], mode: SelectionMode): Set<string> => {
+  switch (mode) {
+    case 'add':
+      return new Set([...current, ...cells]);
+    case 'subtract': {
+      const removed = new Set(cells);
+      return new Set([...current].filter(cell => !removed.has(cell)));
+    }
+    case 'intersect': {
+      const kept = new Set(cells);
+      return new Set([...current].filter(cell => kept.has(cell)));
+    }
+  }
+};
@@ -0,0 +1,264 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { brotliDecompressSync, gunzipSync } from 'zlib';
+import Database from 'better-sqlite3';
+import type { OfflineTilesFormat, OfflineTilesInfo } from '@/types/map-layers';
+
+// Server-only: serves raster tiles from a local MBTiles or PMTiles file, so the map works without internet
+
+export const OFFLINE_TILES_FILE = process.env.GEOHEX_OFFLINE_TILES || '';
+
+export interface OfflineTile {
+  data: Buffer;
+  contentType: string;
+}
+
+interface TileSource {
+  info: OfflineTilesInfo;
+  getTile: (z: number, x: number, y: number) => Promise<OfflineTile | null>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+const getFormat = (file: string): OfflineTilesFormat | null => {
+  const extension = path.extname(file).toLowerCase();
+  if (extension === '.mbtiles') return 'mbtiles';
+  if (extension === '.pmtiles') return 'pmtiles';
+  return null;
+};
+
+// MBTiles: SQLite with a metadata table and a tiles table in TMS order (rows counted from the bottom)
+const openMbtiles = (file: string): TileSource => {
+  const db = new Database(file, { readonly: true, fileMustExist: true });
+  const metadata = new Map(
+    (db.prepare('SELECT name, value FROM metadata').all() as { name: string; value: string }[])
+      .map(({ name, value }) => [name, value])
+  );
+
+  const format = metadata.get('format') ?? 'png';
+  const contentType = CONTENT_TYPES[format];
+  if (!contentType) {
+    throw new Error(`${file} holds ${format} tiles; only raster tiles (png, jpg, webp) can be shown.`);
+  }
+
+  const selectTile = db.prepare('SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?');
+  return {
+    info: {
+      name: metadata.get('name') || path.basename(file),
+      format: 'mbtiles',
+      minZoom: Number(metadata.get('minzoom') ?? 0),
+      maxZoom: Number(metadata.get('maxzoom') ?? 18),
+      attribution: metadata.get('attribution') ?? '',
+    },
+    getTile: async (z, x, y) => {
+      const row = selectTile.get(z, x, 2 ** z - 1 - y) as { tile_data: Buffer } | undefined;
+      return row ? { data: row.tile_data, contentType } : null;
+    },
+  };
+};
+
+// PMTiles v3: a 127-byte header, then directories mapping Hilbert-curve tile IDs to byte ranges
+const PMTILES_HEADER_BYTES = 127;
+const PMTILES_TILE_TYPES: Record<number, string> = { 2: 'png', 3: 'jpg', 4: 'webp', 5: 'avif' };
+
+interface PmtilesEntry {
+  tileId: number;
+  offset: number;
+  length: number;
+  runLength: number; // 0 = the entry points at a leaf directory
+}
+
+const readVarint = (buffer: Buffer, position: { at: number }): number => {
+  let value = 0;
+  let factor = 1;
+  let byte: number;
+  do {
+    byte = buffer[position.at++];
+    value += (byte & 0x7f) * factor;
+    factor *= 128;
+  } while (byte & 0x80);
+  return value;
+};
+
+const decompress = (buffer: Buffer, compression: number): Buffer => {
+  switch (compression) {
+    case 0:
+    case 1:
+      return buffer;
+    case 2:
+      return gunzipSync(buffer);
+    case 3:
+      return brotliDecompressSync(buffer);
+    default:
+      throw new Error('PMTiles files compressed with zstd are not supported; convert them with gzip compression.');
+  }
+};
+
+const parseDirectory = (buffer: Buffer): PmtilesEntry[] => {
+  const position = { at: 0 };
+  const entries: PmtilesEntry[] = Array.from({ length: readVarint(buffer, position) }, () => ({
+    tileId: 0, offset: 0, length: 0, runLength: 0,
+  }));
+
+  let lastId = 0;
+  entries.forEach(entry => {
+    lastId += readVarint(buffer, position);
+    entry.tileId = lastId;
+  });
+  entries.forEach(entry => { entry.runLength = readVarint(buffer, position); });
+  entries.forEach(entry => { entry.length = readVarint(buffer, position); });
+  entries.forEach((entry, i) => {
+    // 0 after the first entry means "right after the previous tile"
+    const offset = readVarint(buffer, position);
+    entry.offset = offset === 0 && i > 0 ? entries[i - 1].offset + entries[i - 1].length : offset - 1;
+  });
+  return entries;
+};
+
+// Position of a tile on the Hilbert curve of its zoom, after all tiles of lower zooms
+const zxyToTileId = (z: number, x: number, y: number): number => {
+  let id = (4 ** z - 1) / 3;
+  let rx: number;
+  let ry: number;
+  for (let s = 2 ** (z - 1); s >= 1; s /= 2) {
+    rx = (x & s) > 0 ? 1 : 0;
+    ry = (y & s) > 0 ? 1 : 0;
+    id += s * s * ((3 * rx) ^ ry);
+    if (ry === 0) {
+      if (rx === 1) {
+        x = s - 1 - x;
+        y = s - 1 - y;
+      }
+      [x, y] = [y, x];
+    }
+  }
+  return id;
+};
+
+const findEntry = (entries: PmtilesEntry[], tileId: number): PmtilesEntry | null => {
+  let low = 0;
+  let high = entries.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (entries[middle].tileId < tileId) low = middle + 1;
+    else if (entries[middle].tileId > tileId) high = middle - 1;
+    else return entries[middle];
+  }
+
+  // The last entry before the tile covers it when it is a run of identical tiles or a leaf directory
+  const previous = entries[high];
+  if (!previous) return null;
+  if (previous.runLength === 0 || tileId - previous.tileId < previous.runLength) return previous;
+  return null;
+};
+
+const openPmtiles = async (file: string): Promise<TileSource> => {
+  const handle = await fs.open(file, 'r');
+  const read = async (offset: number, length: number): Promise<Buffer> => {
+    const buffer = Buffer.alloc(length);
+    await handle.read(buffer, 0, length, offset);
+    return buffer;
+  };
+
+  const header = await read(0, PMTILES_HEADER_BYTES);
+  if (header.toString('ascii', 0, 7) !== 'PMTiles' || header[7] !== 3) {
+    throw new Error(`${file} is not a version 3 PMTiles file.`);
+  }
+  const uint64 = (at: number) => Number(header.readBigUInt64LE(at));
+  const rootOffset = uint64(8);
+  const rootLength = uint64(16);
+  const metadataOffset = uint64(24);
+  const metadataLength = uint64(32);
+  const leavesOffset = uint64(40);
+  const tileDataOffset = uint64(56);
+  const internalCompression = header[97];
+  const tileCompression = header[98];
+
+  const format = PMTILES_TILE_TYPES[header[99]];
+  if (!format) {
+    throw new Error(`${file} holds vector tiles; only raster tiles (png, jpg, webp, avif) can be shown.`);
+  }
+
+  const metadata = JSON.parse(
+    decompress(await read(metadataOffset, metadataLength), internalCompression).toString('utf8') || '{}'
+  ) as { name?: string; attribution?: string };
+  const rootDirectory = parseDirectory(decompress(await read(rootOffset, rootLength), internalCompression));
+
+  // Leaf directories are small and read again and again while panning
+  const leafDirectories = new Map<number, PmtilesEntry[]>();
+  const readLeaf = async (entry: PmtilesEntry) => {
+    let leaf = leafDirectories.get(entry.offset);
+    if (!leaf) {
+      leaf = parseDirectory(decompress(await read(leavesOffset + entry.offset, entry.length), internalCompression));
+      leafDirectories.set(entry.offset, leaf);
+    }
+    return leaf;
+  };
+
+  return {
+    info: {
+      name: metadata.name || path.basename(file),
+      format: 'pmtiles',
+      minZoom: header[100],
+      maxZoom: header[101],
+      attribution: metadata.attribution ?? '',
+    },
+    getTile: async (z, x, y) => {
+      const tileId = zxyToTileId(z, x, y);
+      let directory = rootDirectory;
+      // The spec allows at most three levels of leaf directories
+      for (let depth = 0; depth < 4; depth++) {
+        const entry = findEntry(directory, tileId);
+        if (!entry) return null;
+        if (entry.runLength > 0) {
+          const data = decompress(await read(tileDataOffset + entry.offset, entry.length), tileCompression);
+          return { data, contentType: CONTENT_TYPES[format] };
+        }
+        directory = await readLeaf(entry);
+      }
+      return null;
+    },
+  };
+};
+
+// Opened once for the life of the server process
+let tileSource: Promise<TileSource | null> | null = null;
+
+const getTileSource = (): Promise<TileSource | null> => {
+  if (!tileSource) {
+    tileSource = (async () => {
+      if (!OFFLINE_TILES_FILE) return null;
+      const file = path.resolve(OFFLINE_TILES_FILE);
+      switch (getFormat(file)) {
+        case 'mbtiles':
+          return openMbtiles(file);
+        case 'pmtiles':
+          return openPmtiles(file);
+        default:
+          throw new Error(`GEOHEX_OFFLINE_TILES must point at a .mbtiles or .pmtiles file, got "${OFFLINE_TILES_FILE}".`);
+      }
+    })();
+    // A file that failed to open is retried on the next request, e.g. once it has been copied into place
+    tileSource.catch(() => { tileSource = null; });
+  }
+  return tileSource;
+};
+
+/**
+ * Name, zoom range and attribution of the configured tile file; undefined when none is configured
+ */
+export const getOfflineTilesInfo = async (): Promise<OfflineTilesInfo | undefined> => {
+  return (await getTileSource())?.info;
+};
+
+export const readOfflineTile = async (z: number, x: number, y: number): Promise<OfflineTile | null> => {
+  const source = await getTileSource();
+  if (!source || z < source.info.minZoom || z > source.info.maxZoom) return null;
+  return source.getTile(z, x, y);
+};
@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { HexagonSchedule, RecurrenceRule } from '@/types/scheduling';
+import { DEFAULT_OPERATING_WINDOW } from './scheduling-utils';
+import {
+  EVERY_DAY,
+  doRecurrencesOverlap,
+  findRecurrenceConflict,
+  getDateKeyWeekday,
+  getUncoveredWeekdays,
+  matchesRecurrence,
+} from './recurrence';
+
+const WEEKDAYS: RecurrenceRule = { weekdays: [1, 2, 3, 4, 5] };
+const WEEKENDS: RecurrenceRule = { weekdays: [0, 6] };
+
+const route = (id: string, terminalId: string, recurrence: RecurrenceRule): HexagonSchedule => ({
+  id,
+  name: id,
+  terminalId,
+  operatingWindow: DEFAULT_OPERATING_WINDOW,
+  recurrence,
+  exceptions: [],
+  hexagons: [],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe('matchesRecurrence', () => {
+  it('runs on the rule weekdays between the effective dates, both inclusive', () => {
+    const rule: RecurrenceRule = { weekdays: [1], effectiveFrom: '2026-10-19', effectiveTo: '2026-10-26' };
+
+    assert.equal(getDateKeyWeekday('2026-10-19'), 1);
+    assert.equal(matchesRecurrence(rule, '2026-10-19'), true);
+    assert.equal(matchesRecurrence(rule, '2026-10-26'), true);
+    assert.equal(matchesRecurrence(rule, '2026-10-12'), false);
+    assert.equal(matchesRecurrence(rule, '2026-11-02'), false);
+    assert.equal(matchesRecurrence(rule, '2026-10-20'), false);
+  });
+});
+
+describe('doRecurrencesOverlap', () => {
+  it('overlaps on a shared weekday, not on disjoint ones', () => {
+    assert.equal(doRecurrencesOverlap(WEEKDAYS, { weekdays: [5, 6] }), true);
+    assert.equal(doRecurrencesOverlap(WEEKDAYS, WEEKENDS), false);
+  });
+
+  it('treats no weekdays as every day', () => {
+    assert.equal(doRecurrencesOverlap(EVERY_DAY, WEEKENDS), true);
+  });
+
+  it('overlaps an open-ended rule with any later range on a shared day', () => {
+    const openEnded: RecurrenceRule = { weekdays: [1], effectiveFrom: '2026-01-01' };
+    const later: RecurrenceRule = { weekdays: [1], effectiveFrom: '2030-01-01', effectiveTo: '2030-12-31' };
+
+    assert.equal(doRecurrencesOverlap(openEnded, later), true);
+    assert.equal(doRecurrencesOverlap(later, openEnded), true);
+  });
+
+  it('does not overlap ranges that end before the other starts, even on the same days', () => {
+    const first: RecurrenceRule = { weekdays: [], effectiveTo: '2026-06-30' };
+    const second: RecurrenceRule = { weekdays: [], effectiveFrom: '2026-07-01' };
+
+    assert.equal(doRecurrencesOverlap(first, second), false);
+  });
+
+  it('overlaps ranges sharing only their boundary day', () => {
+    const first: RecurrenceRule = { weekdays: [], effectiveTo: '2026-10-19' };
+    const second: RecurrenceRule = { weekdays: [], effectiveFrom: '2026-10-19' };
+
+    assert.equal(doRecurrencesOverlap(first, second), true);
+  });
+
+  it('walks a shared range shorter than a week day by day', () => {
+    // 2026-10-24 is a Saturday, 2026-10-25 a Sunday and 2026-10-26 a Monday
+    const weekend: RecurrenceRule = { weekdays: [6], effectiveFrom: '2026-10-24', effectiveTo: '2026-10-26' };
+
+    assert.equal(doRecurrencesOverlap(weekend, { weekdays: [6, 1] }), true);
+    assert.equal(doRecurrencesOverlap(weekend, { weekdays: [1], effectiveFrom: '2026-10-24' }), false);
+    assert.equal(doRecurrencesOverlap({ weekdays: [1], effectiveFrom: '2026-10-24', effectiveTo: '2026-10-25' }, EVERY_DAY), false);
+  });
+});
+
+describe('findRecurrenceConflict', () => {
+  const schedules = [
+    route('weekdays', 'T1', WEEKDAYS),
+    route('other-terminal', 'T2', WEEKENDS),
+    route('summer-weekends', 'T1', { weekdays: [0, 6], effectiveFrom: '2026-06-01', effectiveTo: '2026-08-31' }),
+  ];
+
+  it('finds another route of the same terminal on a shared day', () => {
+    assert.equal(findRecurrenceConflict(schedules, { terminalId: 'T1', recurrence: { weekdays: [5] } })?.id, 'weekdays');
+  });
+
+  it('ignores other terminals and the route itself', () => {
+    assert.equal(findRecurrenceConflict(schedules, { terminalId: 'T2', recurrence: WEEKDAYS }), undefined);
+    assert.equal(findRecurrenceConflict(schedules, { id: 'weekdays', terminalId: 'T1', recurrence: WEEKDAYS }), undefined);
+  });
+
+  it('only conflicts with a bounded route inside its dates', () => {
+    assert.equal(
+      findRecurrenceConflict(schedules, { terminalId: 'T1', recurrence: { weekdays: [6], effectiveFrom: '2026-09-01' } }),
+      undefined
+    );
+    assert.equal(
+      findRecurrenceConflict(schedules, { terminalId: 'T1', recurrence: { weekdays: [6], effectiveTo: '2026-06-30' } })?.id,
+      'summer-weekends'
+    );
+  });
+});
+
+describe('getUncoveredWeekdays', () => {
+  it('lists the days no rule runs on', () => {
+    assert.deepEqual(getUncoveredWeekdays([WEEKDAYS]), [0, 6]);
+    assert.deepEqual(getUncoveredWeekdays([WEEKDAYS, EVERY_DAY]), []);
+  });
+});
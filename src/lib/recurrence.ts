@@ -0,0 +1,169 @@
+import type {
+  HexagonSchedule,
+  RecurrenceRule,
+  ScheduledHexagon,
+  ScheduleException,
+  Weekday,
+} from '@/types/scheduling';
+import { WEEKDAY_LABELS, getSlotDuration } from './scheduling-utils';
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const WORKWEEK: Weekday[] = [1, 2, 3, 4, 5];
+const WEEKEND: Weekday[] = [0, 6];
+const ALL_WEEKDAYS: Weekday[] = [0, 1, 2, 3, 4, 5, 6];
+
+export const EVERY_DAY: RecurrenceRule = { weekdays: [] };
+
+/**
+ * Calendar date ("YYYY-MM-DD") of an instant in a zone; the runtime's zone when omitted
+ */
+export const toDateKey = (date: Date, timeZone?: string): string => {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+};
+
+/**
+ * Check for a real calendar date in "YYYY-MM-DD" form (rejects e.g. "2026-02-30")
+ */
+export const isValidDateKey = (value: string): boolean => {
+  if (!DATE_KEY_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+export const getDateKeyWeekday = (dateKey: string): Weekday => {
+  return new Date(`${dateKey}T00:00:00Z`).getUTCDay() as Weekday;
+};
+
+const addDays = (dateKey: string, days: number): string => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Check whether a date falls inside a rule's effective range and weekday pattern
+ */
+export const matchesRecurrence = (rule: RecurrenceRule, dateKey: string): boolean => {
+  if (rule.effectiveFrom && dateKey < rule.effectiveFrom) return false;
+  if (rule.effectiveTo && dateKey > rule.effectiveTo) return false;
+  return rule.weekdays.length === 0 || rule.weekdays.includes(getDateKeyWeekday(dateKey));
+};
+
+export const getScheduleException = (schedule: HexagonSchedule, dateKey: string): ScheduleException | undefined => {
+  return schedule.exceptions.find(exception => exception.date === dateKey);
+};
+
+/**
+ * Stops as they run on a date, with that date's overrides applied; null when the route does not run.
+ * An override exception also adds a service day outside the weekday pattern.
+ */
+export const getScheduleForDate = (schedule: HexagonSchedule, dateKey: string): ScheduledHexagon[] | null => {
+  const exception = getScheduleException(schedule, dateKey);
+  if (exception?.type === 'skip') return null;
+  if (!exception) {
+    return matchesRecurrence(schedule.recurrence, dateKey) ? schedule.hexagons : null;
+  }
+
+  return applyExceptionOverrides(schedule.hexagons, exception);
+};
+
+export const applyExceptionOverrides = (
+  hexagons: ScheduledHexagon[],
+  exception: ScheduleException
+): ScheduledHexagon[] => {
+  return hexagons.map(hexagon => {
+    const timeSlot = exception.overrides?.[hexagon.hexagonId];
+    return timeSlot ? { ...hexagon, timeSlot, customDuration: getSlotDuration(timeSlot) } : hexagon;
+  });
+};
+
+/**
+ * Routes that run on a date, optionally for one terminal, paired with the stops that apply that day
+ */
+export const getSchedulesForDate = (
+  schedules: HexagonSchedule[],
+  dateKey: string,
+  terminalId?: string
+): { schedule: HexagonSchedule; hexagons: ScheduledHexagon[] }[] => {
+  return schedules
+    .filter(schedule => !terminalId || schedule.terminalId === terminalId)
+    .flatMap(schedule => {
+      const hexagons = getScheduleForDate(schedule, dateKey);
+      return hexagons ? [{ schedule, hexagons }] : [];
+    });
+};
+
+/**
+ * Check whether two rules share at least one service day
+ */
+export const doRecurrencesOverlap = (a: RecurrenceRule, b: RecurrenceRule): boolean => {
+  const from = [a.effectiveFrom, b.effectiveFrom].filter(Boolean).sort().pop();
+  const to = [a.effectiveTo, b.effectiveTo].filter(Boolean).sort()[0];
+  if (from && to && from > to) return false;
+
+  // Short shared ranges may not contain every weekday, so walk them day by day
+  if (from && to && addDays(from, 6) > to) {
+    for (let day = from; day <= to; day = addDays(day, 1)) {
+      if (matchesRecurrence(a, day) && matchesRecurrence(b, day)) return true;
+    }
+    return false;
+  }
+
+  if (a.weekdays.length === 0 || b.weekdays.length === 0) return true;
+  return a.weekdays.some(day => b.weekdays.includes(day));
+};
+
+/**
+ * Another route of the same terminal that runs on some of the same days, if any
+ */
+export const findRecurrenceConflict = (
+  schedules: HexagonSchedule[],
+  candidate: { id?: string; terminalId: string; recurrence: RecurrenceRule }
+): HexagonSchedule | undefined => {
+  return schedules.find(schedule =>
+    schedule.id !== candidate.id &&
+    schedule.terminalId === candidate.terminalId &&
+    doRecurrencesOverlap(schedule.recurrence, candidate.recurrence)
+  );
+};
+
+/**
+ * Weekdays on which none of the rules run, ignoring effective dates
+ */
+export const getUncoveredWeekdays = (rules: RecurrenceRule[]): Weekday[] => {
+  const covered = new Set(rules.flatMap(rule => (rule.weekdays.length === 0 ? ALL_WEEKDAYS : rule.weekdays)));
+  return ALL_WEEKDAYS.filter(day => !covered.has(day));
+};
+
+/**
+ * Validate a rule's dates; returns an error message or null
+ */
+export const validateRecurrence = (rule: RecurrenceRule): string | null => {
+  if (rule.effectiveFrom && !isValidDateKey(rule.effectiveFrom)) return 'Effective from must be a valid date';
+  if (rule.effectiveTo && !isValidDateKey(rule.effectiveTo)) return 'Effective to must be a valid date';
+  if (rule.effectiveFrom && rule.effectiveTo && rule.effectiveFrom > rule.effectiveTo) {
+    return 'Effective from must be on or before effective to';
+  }
+  return null;
+};
+
+const formatWeekdays = (weekdays: Weekday[]): string => {
+  const sorted = [...weekdays].sort();
+  const matches = (days: Weekday[]) => sorted.length === days.length && days.every(day => sorted.includes(day));
+
+  if (sorted.length === 0 || sorted.length === 7) return 'Every day';
+  if (matches(WORKWEEK)) return 'Weekdays';
+  if (matches(WEEKEND)) return 'Weekends';
+  return sorted.map(day => WEEKDAY_LABELS[day]).join(', ');
+};
+
+/**
+ * Human-readable rule (e.g., "Weekdays from 2026-01-05 until 2026-06-30")
+ */
+export const formatRecurrence = (rule: RecurrenceRule): string => {
+  let text = formatWeekdays(rule.weekdays);
+  if (rule.effectiveFrom) text += ` from ${rule.effectiveFrom}`;
+  if (rule.effectiveTo) text += ` until ${rule.effectiveTo}`;
+  return text;
+};
@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { HexagonSchedule, ScheduledHexagon } from '@/types/scheduling';
+import { DEFAULT_OPERATING_WINDOW, createTimeSlotInWindow } from './scheduling-utils';
+import {
+  createRouteRevision,
+  diffRouteStops,
+  hasUnsavedChanges,
+  mergeRouteStops,
+  validateMergedStops,
+} from './route-merge';
+
+const stop = (hexagonId: string, start: string, end: string, hexagonNumber = 1): ScheduledHexagon => ({
+  hexagonId,
+  hexagonNumber,
+  timeSlot: createTimeSlotInWindow(start, end),
+  polygonId: 0,
+});
+
+describe('diffRouteStops', () => {
+  const base = [stop('a', '17:00', '17:15'), stop('b', '17:15', '17:30'), stop('c', '17:30', '17:45')];
+
+  it('takes the side that changed a stop, and marks stops both changed differently as conflicts', () => {
+    const mine = [stop('a', '18:00', '18:15'), stop('b', '17:15', '17:30'), stop('c', '19:00', '19:15')];
+    const theirs = [stop('a', '17:00', '17:15'), stop('b', '18:30', '18:45'), stop('c', '19:30', '19:45')];
+
+    const stops = diffRouteStops(base, mine, theirs);
+
+    assert.deepEqual(stops.map(({ hexagonId, changed, conflict, resolution }) => ({ hexagonId, changed, conflict, resolution })), [
+      { hexagonId: 'a', changed: true, conflict: false, resolution: 'mine' },
+      { hexagonId: 'b', changed: true, conflict: false, resolution: 'theirs' },
+      { hexagonId: 'c', changed: true, conflict: true, resolution: 'mine' },
+    ]);
+  });
+
+  it('is no conflict when both sides made the same change', () => {
+    const moved = [stop('a', '17:00', '17:15'), stop('b', '17:15', '17:30'), stop('c', '18:00', '18:15')];
+
+    const [, , c] = diffRouteStops(base, moved, moved);
+
+    assert.equal(c.changed, true);
+    assert.equal(c.conflict, false);
+  });
+
+  it('lists stops added or removed on one side', () => {
+    const mine = [...base, stop('d', '18:00', '18:15')];
+    const theirs = base.slice(1);
+
+    const stops = diffRouteStops(base, mine, theirs);
+
+    assert.deepEqual(stops.map(({ hexagonId, resolution }) => [hexagonId, resolution]), [
+      ['a', 'theirs'], ['b', 'mine'], ['c', 'mine'], ['d', 'mine'],
+    ]);
+    assert.equal(stops.find(s => s.hexagonId === 'a')?.theirs, undefined);
+  });
+});
+
+describe('mergeRouteStops', () => {
+  it('keeps each stop from the picked or default side, dropping removed ones, sorted and renumbered', () => {
+    const base = [stop('a', '17:00', '17:15'), stop('b', '17:15', '17:30')];
+    const mine = [stop('a', '17:00', '17:15', 1), stop('b', '19:00', '19:15', 2), stop('c', '18:00', '18:15', 3)];
+    const theirs = [stop('b', '19:30', '19:45', 1)];
+    const stops = diffRouteStops(base, mine, theirs);
+
+    const merged = mergeRouteStops(stops, { b: 'theirs' }, mine, theirs);
+
+    assert.deepEqual(merged.map(({ hexagonId, hexagonNumber, timeSlot }) => [hexagonId, hexagonNumber, timeSlot.start]), [
+      ['c', 1, '18:00'],
+      ['b', 2, '19:30'],
+    ]);
+  });
+});
+
+describe('validateMergedStops', () => {
+  it('rejects stops picked from different sides that overlap', () => {
+    const merged = [stop('a', '17:00', '17:30', 1), stop('b', '17:15', '17:45', 2)];
+
+    assert.match(validateMergedStops(merged, DEFAULT_OPERATING_WINDOW) ?? '', /overlaps/);
+  });
+
+  it('rejects stops outside the window', () => {
+    const merged = [stop('a', '21:00', '21:15', 1)];
+
+    assert.notEqual(validateMergedStops(merged, DEFAULT_OPERATING_WINDOW), null);
+  });
+
+  it('accepts back-to-back stops', () => {
+    const merged = [stop('a', '17:00', '17:15', 1), stop('b', '17:15', '17:30', 2)];
+
+    assert.equal(validateMergedStops(merged, DEFAULT_OPERATING_WINDOW), null);
+  });
+});
+
+describe('hasUnsavedChanges', () => {
+  const route: HexagonSchedule = {
+    id: 'route-1',
+    name: 'Loop',
+    terminalId: 'T1',
+    operatingWindow: DEFAULT_OPERATING_WINDOW,
+    recurrence: { weekdays: [] },
+    exceptions: [],
+    hexagons: [stop('a', '17:00', '17:15')],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  const saved = { ...route, base: createRouteRevision(1, route) };
+
+  it('counts a route never saved as changed', () => {
+    assert.equal(hasUnsavedChanges(route), true);
+  });
+
+  it('is false for a route as it was saved, whatever polygon its stops were matched to', () => {
+    assert.equal(hasUnsavedChanges(saved), false);
+    assert.equal(hasUnsavedChanges({ ...saved, hexagons: saved.hexagons.map(h => ({ ...h, polygonId: 7 })) }), false);
+  });
+
+  it('sees changes to the stops and to the route fields', () => {
+    assert.equal(hasUnsavedChanges({ ...saved, hexagons: [stop('a', '17:15', '17:30')] }), true);
+    assert.equal(hasUnsavedChanges({ ...saved, name: 'Loop 2' }), true);
+    assert.equal(hasUnsavedChanges({ ...saved, recurrence: { weekdays: [1] } }), true);
+  });
+});
@@ -0,0 +1,101 @@
+import type { HexagonSchedule, MergeSide, OperatingWindow, RouteRevision, RouteStopMerge, ScheduledHexagon, TimeSlot } from '@/types/scheduling';
+import { doTimeSlotsOverlap, formatTimeSlot, sortScheduledHexagonsByTime, validateHexagonsInWindow } from './scheduling-utils';
+
+const sameSlot = (a?: TimeSlot, b?: TimeSlot): boolean => {
+  if (!a || !b) return a === b;
+  return a.start === b.start && a.end === b.end && (a.startDayOffset ?? 0) === (b.startDayOffset ?? 0) && (a.endDayOffset ?? 0) === (b.endDayOffset ?? 0);
+};
+
+/**
+ * Compare two edits of a route stop by stop against the revision both started from. A stop only
+ * one side changed (moved, added or removed) takes that side; a stop both changed differently is a conflict.
+ */
+export const diffRouteStops = (
+  base: ScheduledHexagon[],
+  mine: ScheduledHexagon[],
+  theirs: ScheduledHexagon[]
+): RouteStopMerge[] => {
+  const slotOf = (hexagons: ScheduledHexagon[]) => new Map(hexagons.map(hexagon => [hexagon.hexagonId, hexagon.timeSlot]));
+  const baseSlots = slotOf(base);
+  const mySlots = slotOf(mine);
+  const theirSlots = slotOf(theirs);
+
+  // In route order: mine first, then stops only the others have
+  const hexagonIds = Array.from(new Set([...mine, ...theirs, ...base].map(hexagon => hexagon.hexagonId)));
+
+  return hexagonIds.map(hexagonId => {
+    const stop = { hexagonId, base: baseSlots.get(hexagonId), mine: mySlots.get(hexagonId), theirs: theirSlots.get(hexagonId) };
+    const mineChanged = !sameSlot(stop.base, stop.mine);
+    const theirsChanged = !sameSlot(stop.base, stop.theirs);
+    const conflict = mineChanged && theirsChanged && !sameSlot(stop.mine, stop.theirs);
+    return { ...stop, changed: mineChanged || theirsChanged, conflict, resolution: theirsChanged && !mineChanged ? 'theirs' : 'mine' };
+  });
+};
+
+/**
+ * The merged stops: each stop from the side picked for it (the default resolution when not picked),
+ * ordered by time and numbered from 1
+ */
+export const mergeRouteStops = (
+  stops: RouteStopMerge[],
+  picks: Record<string, MergeSide>,
+  mine: ScheduledHexagon[],
+  theirs: ScheduledHexagon[]
+): ScheduledHexagon[] => {
+  const merged = stops.flatMap(stop => {
+    const side = picks[stop.hexagonId] ?? stop.resolution;
+    const hexagon = (side === 'mine' ? mine : theirs).find(h => h.hexagonId === stop.hexagonId);
+    return hexagon ? [hexagon] : [];
+  });
+  return sortScheduledHexagonsByTime(merged).map((hexagon, index) => ({ ...hexagon, hexagonNumber: index + 1 }));
+};
+
+/**
+ * Check merged stops before they are saved: two stops picked from different sides can overlap in time,
+ * and their stops may not fit the window kept from mine
+ */
+export const validateMergedStops = (hexagons: ScheduledHexagon[], window: OperatingWindow): string | null => {
+  const windowError = validateHexagonsInWindow(hexagons, window);
+  if (windowError) return windowError;
+
+  const sorted = sortScheduledHexagonsByTime(hexagons);
+  for (let i = 1; i < sorted.length; i++) {
+    if (doTimeSlotsOverlap(sorted[i - 1].timeSlot, sorted[i].timeSlot)) {
+      return `Hex #${sorted[i].hexagonNumber} (${formatTimeSlot(sorted[i].timeSlot)}) overlaps ` +
+        `hex #${sorted[i - 1].hexagonNumber} (${formatTimeSlot(sorted[i - 1].timeSlot)})`;
+    }
+  }
+  return null;
+};
+
+// JSON with sorted keys, so the same route always gives the same string
+const stableStringify = (value: unknown): string => JSON.stringify(value, (_, item) =>
+  item && typeof item === 'object' && !Array.isArray(item)
+    ? Object.fromEntries(Object.keys(item).sort().map(key => [key, item[key]]))
+    : item
+);
+
+/**
+ * Everything of a route that is saved, apart from its ID and revision; the polygon a stop falls in is
+ * looked up again on every load, so it is left out
+ */
+export const getRouteFingerprint = (route: HexagonSchedule): string => {
+  const { name, terminalId, operatingWindow, timeZone, recurrence, exceptions } = route;
+  const hexagons = route.hexagons.map(({ hexagonId, hexagonNumber, timeSlot }) => ({ hexagonId, hexagonNumber, timeSlot }));
+  return stableStringify({ name, terminalId, operatingWindow, timeZone, recurrence, exceptions, hexagons });
+};
+
+/**
+ * The revision a route was loaded or saved as
+ */
+export const createRouteRevision = (revision: number, route: HexagonSchedule): RouteRevision => {
+  return { revision, hexagons: route.hexagons, fingerprint: getRouteFingerprint(route) };
+};
+
+/**
+ * Whether a route differs from the revision it was loaded or last saved as; a route never saved,
+ * or restored from a session without fingerprints, counts as changed
+ */
+export const hasUnsavedChanges = (route: HexagonSchedule): boolean => {
+  return !route.base?.fingerprint || route.base.fingerprint !== getRouteFingerprint(route);
+};
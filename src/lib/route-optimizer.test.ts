@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { latLngToCell } from 'h3-js';
+import type { RouteDistanceMetric, RouteStart } from '@/types/scheduling';
+import { optimizeRouteOrder } from './route-optimizer';
+
+const ORIGIN = { lat: 52.37, lng: 4.9 };
+const METRICS: RouteDistanceMetric[] = ['haversine', 'grid'];
+
+// Small deterministic generator so failures can be replayed
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2 ** 31;
+  return seed / 2 ** 31;
+};
+
+const randomStops = (seed: number, count: number): string[] => {
+  const random = createRandom(seed);
+  const stops = new Set<string>();
+  while (stops.size < count) {
+    stops.add(latLngToCell(ORIGIN.lat + (random() - 0.5) * 0.05, ORIGIN.lng + (random() - 0.5) * 0.08, 9));
+  }
+  return [...stops];
+};
+
+describe('optimizeRouteOrder', () => {
+  it('never proposes a longer path than the current order from a stop', () => {
+    for (const metric of METRICS) {
+      for (let seed = 1; seed <= 25; seed++) {
+        const stops = randomStops(seed, 12);
+        const start: RouteStart = { type: 'cell', hexagonId: stops[seed % stops.length] };
+
+        const proposal = optimizeRouteOrder(stops, start, metric);
+
+        assert.ok(proposal.distance <= proposal.currentDistance + 1e-9, `${metric} seed ${seed}`);
+        assert.equal(proposal.hexagonIds[0], start.hexagonId);
+        assert.deepEqual([...proposal.hexagonIds].sort(), [...stops].sort());
+      }
+    }
+  });
+
+  it('never proposes a longer path than the current order from a location', () => {
+    for (const metric of METRICS) {
+      for (let seed = 1; seed <= 25; seed++) {
+        const stops = randomStops(seed, 12);
+        const start: RouteStart = { type: 'location', lat: ORIGIN.lat + 0.03, lng: ORIGIN.lng - 0.05 };
+
+        const proposal = optimizeRouteOrder(stops, start, metric);
+
+        assert.ok(proposal.distance <= proposal.currentDistance + 1e-9, `${metric} seed ${seed}`);
+        assert.deepEqual([...proposal.hexagonIds].sort(), [...stops].sort());
+      }
+    }
+  });
+
+  it('keeps an order that is already optimal', () => {
+    const stops = [0, 1, 2, 3, 4].map((i) => latLngToCell(ORIGIN.lat, ORIGIN.lng + i * 0.01, 9));
+
+    const proposal = optimizeRouteOrder(stops, { type: 'cell', hexagonId: stops[0] }, 'haversine');
+
+    assert.deepEqual(proposal.hexagonIds, stops);
+    assert.equal(proposal.distance, proposal.currentDistance);
+  });
+
+  it('leaves the location start out of the proposed stops', () => {
+    const stops = [0, 1, 2].map((i) => latLngToCell(ORIGIN.lat, ORIGIN.lng + i * 0.01, 9));
+
+    const proposal = optimizeRouteOrder(stops, { type: 'location', lat: ORIGIN.lat, lng: ORIGIN.lng + 0.05 }, 'haversine');
+
+    assert.deepEqual(proposal.hexagonIds, [...stops].reverse());
+    assert.ok(proposal.distance < proposal.currentDistance);
+  });
+});
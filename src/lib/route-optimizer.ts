@@ -0,0 +1,148 @@
+import { UNITS, cellToLatLng, getHexagonEdgeLengthAvg, getResolution, gridDistance, latLngToCell } from 'h3-js';
+import type { RouteDistanceMetric, RouteProposal, RouteStart } from '@/types/scheduling';
+
+const EARTH_RADIUS_KM = 6371.0088;
+const MAX_TWO_OPT_PASSES = 100;
+
+type LatLng = { lat: number; lng: number };
+type RouteNode = { cell: string; point: LatLng };
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance in km between two points
+ */
+export const haversineKm = (a: LatLng, b: LatLng): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+const getCellCenter = (cell: string): LatLng => {
+  const [lat, lng] = cellToLatLng(cell);
+  return { lat, lng };
+};
+
+/**
+ * H3 grid steps between two cells. When H3 cannot measure the grid path (mixed resolutions from compaction,
+ * pentagon distortion, cells far apart) the straight-line distance is expressed in average cell spacings instead.
+ */
+export const getGridDistance = (a: string, b: string): number => {
+  if (getResolution(a) === getResolution(b)) {
+    try {
+      return gridDistance(a, b);
+    } catch {
+      // fall through to the approximation
+    }
+  }
+  // Neighbouring hexagon centers are one edge length times sqrt(3) apart
+  const spacingKm = getHexagonEdgeLengthAvg(getResolution(a), UNITS.km) * Math.sqrt(3);
+  return haversineKm(getCellCenter(a), getCellCenter(b)) / spacingKm;
+};
+
+const buildDistanceMatrix = (nodes: RouteNode[], metric: RouteDistanceMetric): number[][] => {
+  return nodes.map((from) => nodes.map((to) => (
+    from === to ? 0 : metric === 'grid' ? getGridDistance(from.cell, to.cell) : haversineKm(from.point, to.point)
+  )));
+};
+
+const getPathLength = (order: number[], matrix: number[][]): number => {
+  return order.slice(1).reduce((total, node, i) => total + matrix[order[i]][node], 0);
+};
+
+/**
+ * Greedy baseline: from the start, always visit the closest unvisited node next
+ */
+const nearestNeighbourOrder = (matrix: number[][], start: number): number[] => {
+  const order = [start];
+  const unvisited = new Set(matrix.map((_, i) => i).filter((i) => i !== start));
+
+  while (unvisited.size > 0) {
+    const current = order[order.length - 1];
+    let next = -1;
+    unvisited.forEach((candidate) => {
+      if (next === -1 || matrix[current][candidate] < matrix[current][next]) next = candidate;
+    });
+    order.push(next);
+    unvisited.delete(next);
+  }
+  return order;
+};
+
+/**
+ * Remove crossings from an open path by reversing segments while that shortens it; the first node stays put
+ */
+const twoOpt = (initial: number[], matrix: number[][]): number[] => {
+  const order = [...initial];
+  let improved = true;
+
+  for (let pass = 0; improved && pass < MAX_TWO_OPT_PASSES; pass++) {
+    improved = false;
+    for (let i = 1; i < order.length - 1; i++) {
+      for (let j = i + 1; j < order.length; j++) {
+        const before = order[i - 1];
+        const first = order[i];
+        const last = order[j];
+        const after = order[j + 1];
+        // An open path has no edge after its last node
+        const delta =
+          matrix[before][last] - matrix[before][first] +
+          (after === undefined ? 0 : matrix[first][after] - matrix[last][after]);
+
+        if (delta < -1e-9) {
+          order.splice(i, j - i + 1, ...order.slice(i, j + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+  }
+  return order;
+};
+
+/**
+ * Propose a visiting order for the stops (nearest neighbour + 2-opt) beginning at a stop or an outside location.
+ * `hexagonIds` should be in the current visiting order so the proposal can be compared against it.
+ */
+export const optimizeRouteOrder = (
+  hexagonIds: string[],
+  start: RouteStart,
+  metric: RouteDistanceMetric
+): RouteProposal => {
+  const nodes: RouteNode[] = hexagonIds.map((cell) => ({ cell, point: getCellCenter(cell) }));
+  if (nodes.length === 0) {
+    return { hexagonIds: [], distance: 0, currentDistance: 0, metric };
+  }
+
+  // A location start becomes an extra node that is dropped from the result
+  const hasLocationStart = start.type === 'location';
+  if (start.type === 'location') {
+    const point = { lat: start.lat, lng: start.lng };
+    nodes.unshift({ cell: latLngToCell(point.lat, point.lng, getResolution(hexagonIds[0])), point });
+  }
+  const startIndex = start.type === 'cell' ? Math.max(0, hexagonIds.indexOf(start.hexagonId)) : 0;
+
+  const matrix = buildDistanceMatrix(nodes, metric);
+
+  // Current order from the same start, for comparison
+  const currentOrder = nodes.map((_, i) => i).filter((i) => i !== startIndex);
+  currentOrder.unshift(startIndex);
+
+  // 2-opt only finds a local optimum, so the current order is improved too and the shorter result kept
+  const candidates = [nearestNeighbourOrder(matrix, startIndex), currentOrder].map((initial) => twoOpt(initial, matrix));
+  const order = getPathLength(candidates[1], matrix) < getPathLength(candidates[0], matrix) ? candidates[1] : candidates[0];
+
+  return {
+    hexagonIds: (hasLocationStart ? order.slice(1) : order).map((i) => nodes[i].cell),
+    distance: getPathLength(order, matrix),
+    currentDistance: getPathLength(currentOrder, matrix),
+    metric,
+  };
+};
+
+/**
+ * Display a route length in the metric's unit
+ */
+export const formatRouteDistance = (distance: number, metric: RouteDistanceMetric): string => {
+  return metric === 'grid' ? `${Math.round(distance)} steps` : `${distance.toFixed(2)} km`;
+};
@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { OperatingWindow } from '@/types/scheduling';
+import {
+  DEFAULT_OPERATING_WINDOW,
+  createCustomTimeSlot,
+  createTimeSlotInWindow,
+  doTimeSlotsOverlap,
+  formatTimeSlot,
+  fromAbsoluteMinutes,
+  getSlotDuration,
+  getWindowBounds,
+  resolveDayOffset,
+  validateCustomTimeSlot,
+} from './scheduling-utils';
+
+const nightWindow: OperatingWindow = {
+  ...DEFAULT_OPERATING_WINDOW,
+  id: 'night',
+  shift: 'Night',
+  start: '22:00',
+  end: '02:00',
+};
+
+describe('overnight slots', () => {
+  it('ends a 23:45-00:15 slot on the next day, 30 minutes long', () => {
+    const slot = createTimeSlotInWindow('23:45', '00:15', nightWindow);
+
+    assert.deepEqual(slot, { start: '23:45', end: '00:15', endDayOffset: 1, isAvailable: true });
+    assert.equal(getSlotDuration(slot), 30);
+  });
+
+  it('puts times after midnight of an overnight window on the next day', () => {
+    assert.equal(resolveDayOffset('23:00', nightWindow), 0);
+    assert.equal(resolveDayOffset('01:00', nightWindow), 1);
+    assert.equal(resolveDayOffset('01:00', DEFAULT_OPERATING_WINDOW), 0);
+    assert.deepEqual(createTimeSlotInWindow('00:30', '00:45', nightWindow), {
+      start: '00:30', end: '00:45', startDayOffset: 1, endDayOffset: 1, isAvailable: true,
+    });
+  });
+
+  it('runs a window whose end is at or before its start past midnight', () => {
+    assert.deepEqual(getWindowBounds(nightWindow), { start: 22 * 60, end: 26 * 60 });
+    assert.deepEqual(getWindowBounds(DEFAULT_OPERATING_WINDOW), { start: 16 * 60 + 30, end: 20 * 60 });
+  });
+
+  it('splits absolute minutes into a time and day offset', () => {
+    assert.deepEqual(fromAbsoluteMinutes(24 * 60 + 30), { time: '00:30', dayOffset: 1 });
+    assert.deepEqual(fromAbsoluteMinutes(23 * 60 + 59), { time: '23:59', dayOffset: 0 });
+  });
+
+  it('does not overlap back-to-back slots across midnight', () => {
+    const beforeMidnight = createTimeSlotInWindow('23:45', '00:00', nightWindow);
+    const afterMidnight = createTimeSlotInWindow('00:00', '00:15', nightWindow);
+
+    assert.equal(beforeMidnight.endDayOffset, 1);
+    assert.equal(afterMidnight.startDayOffset, 1);
+    assert.equal(doTimeSlotsOverlap(beforeMidnight, afterMidnight), false);
+    assert.equal(doTimeSlotsOverlap(createTimeSlotInWindow('23:45', '00:15', nightWindow), afterMidnight), true);
+  });
+
+  it('does not mistake a stop after midnight for one early the same evening', () => {
+    const late = createTimeSlotInWindow('00:30', '00:45', nightWindow);
+    const early = createCustomTimeSlot('00:30', 15);
+
+    assert.equal(doTimeSlotsOverlap(late, early), false);
+  });
+
+  it('formats overnight slots with the next day marked', () => {
+    assert.equal(formatTimeSlot(createTimeSlotInWindow('23:45', '00:15', nightWindow)), '11:45 PM - 12:15 AM (+1)');
+  });
+});
+
+describe('validateCustomTimeSlot', () => {
+  it('accepts a stop crossing midnight inside an overnight window', () => {
+    assert.deepEqual(validateCustomTimeSlot('23:45', 30, [], nightWindow), { isValid: true });
+  });
+
+  it('rejects a stop running past the end of an overnight window', () => {
+    const result = validateCustomTimeSlot('01:45', 30, [], nightWindow);
+
+    assert.equal(result.isValid, false);
+    assert.match(result.error ?? '', /End time must be before/);
+  });
+
+  it('rejects a stop overlapping one across midnight', () => {
+    const existing = [createTimeSlotInWindow('23:45', '00:15', nightWindow)];
+
+    assert.equal(validateCustomTimeSlot('00:00', 15, existing, nightWindow).isValid, false);
+    assert.equal(validateCustomTimeSlot('00:15', 15, existing, nightWindow).isValid, true);
+  });
+});
@@ -1,32 +1,34 @@
-import type { TimeSlot, ScheduledHexagon, TimeValidationResult } from '@/types/scheduling';
+import type { TimeSlot, ScheduledHexagon, TimeValidationResult, OperatingWindow, Weekday } from '@/types/scheduling';
 
 /**
- * Generate 14 time slots from 4:30 PM to 8:00 PM (15-minute intervals)
+ * The original evening shift (4:30 PM - 8:00 PM, 15-minute slots) for every terminal and weekday
  */
-export const generateTimeSlots = (): TimeSlot[] => {
+export const DEFAULT_OPERATING_WINDOW: OperatingWindow = {
+  id: 'default-evening',
+  shift: 'Evening',
+  weekdays: [],
+  start: '16:30',
+  end: '20:00',
+  slotMinutes: 15,
+  minDurationMinutes: 5,
+  maxDurationMinutes: 120,
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Generate back-to-back slots covering an operating window (e.g., 14 x 15 minutes for 4:30 PM - 8:00 PM)
+ */
+export const generateTimeSlots = (window: OperatingWindow = DEFAULT_OPERATING_WINDOW): TimeSlot[] => {
   const slots: TimeSlot[] = [];
-  const startHour = 16; // 4 PM
-  const startMinute = 30; // 4:30 PM
-  
-  for (let i = 0; i < 14; i++) {
-    const startMinutes = startMinute + (i * 15);
-    const startHourTotal = startHour + Math.floor(startMinutes / 60);
-    const startMinuteFinal = startMinutes % 60;
-    
-    const endMinutes = startMinutes + 15;
-    const endHourTotal = startHour + Math.floor(endMinutes / 60);
-    const endMinuteFinal = endMinutes % 60;
-    
-    const start = `${startHourTotal.toString().padStart(2, '0')}:${startMinuteFinal.toString().padStart(2, '0')}`;
-    const end = `${endHourTotal.toString().padStart(2, '0')}:${endMinuteFinal.toString().padStart(2, '0')}`;
-    
-    slots.push({
-      start,
-      end,
-      isAvailable: true,
-    });
+  const bounds = getWindowBounds(window);
+
+  for (let start = bounds.start; start + window.slotMinutes <= bounds.end; start += window.slotMinutes) {
+    slots.push(createTimeSlotFromMinutes(start, start + window.slotMinutes));
   }
-  
+
   return slots;
 };
 
@@ -37,25 +39,29 @@ export const getAvailableTimeSlots = (
   allSlots: TimeSlot[],
   assignedSlots: TimeSlot[]
 ): TimeSlot[] => {
-  const assignedStartTimes = new Set(assignedSlots.map(slot => slot.start));
+  const assignedStartTimes = new Set(assignedSlots.map(getSlotStartMinutes));
   
   return allSlots
-    .filter(slot => !assignedStartTimes.has(slot.start))
+    .filter(slot => !assignedStartTimes.has(getSlotStartMinutes(slot)))
     .map(slot => ({ ...slot, isAvailable: true }));
 };
 
 /**
- * Format time slot for display (e.g., "4:30 PM - 4:45 PM")
+ * Format a single time for display (e.g., "4:30 PM", "12:15 AM (+1)")
+ */
+export const formatTimeOfDay = (time: string, dayOffset: number = 0): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  const displayHours = hours === 0 ? 12 : hours > 12 ? hours - 12 : hours;
+  const daySuffix = dayOffset !== 0 ? ` (${dayOffset > 0 ? '+' : ''}${dayOffset})` : '';
+  return `${displayHours}:${minutes.toString().padStart(2, '0')} ${period}${daySuffix}`;
+};
+
+/**
+ * Format time slot for display (e.g., "4:30 PM - 4:45 PM", "11:45 PM - 12:15 AM (+1)")
  */
 export const formatTimeSlot = (slot: TimeSlot): string => {
-  const formatTime = (time: string): string => {
-    const [hours, minutes] = time.split(':').map(Number);
-    const period = hours >= 12 ? 'PM' : 'AM';
-    const displayHours = hours === 0 ? 12 : hours > 12 ? hours - 12 : hours;
-    return `${displayHours}:${minutes.toString().padStart(2, '0')} ${period}`;
-  };
-  
-  return `${formatTime(slot.start)} - ${formatTime(slot.end)}`;
+  return `${formatTimeOfDay(slot.start, slot.startDayOffset)} - ${formatTimeOfDay(slot.end, slot.endDayOffset)}`;
 };
 
 /**
@@ -87,14 +93,10 @@ export const generateScheduleId = (): string => {
 };
 
 /**
- * Sort scheduled hexagons by time slot
+ * Sort scheduled hexagons by time slot, after-midnight stops last
  */
 export const sortScheduledHexagonsByTime = (hexagons: ScheduledHexagon[]): ScheduledHexagon[] => {
-  return [...hexagons].sort((a, b) => {
-    if (a.timeSlot.start < b.timeSlot.start) return -1;
-    if (a.timeSlot.start > b.timeSlot.start) return 1;
-    return 0;
-  });
+  return [...hexagons].sort((a, b) => getSlotStartMinutes(a.timeSlot) - getSlotStartMinutes(b.timeSlot));
 };
 
 /**
@@ -132,75 +134,226 @@ export const timeToMinutes = (time: string): number => {
 };
 
 /**
- * Convert minutes since midnight to time string
+ * Convert minutes to a wall-clock time string, wrapping past midnight (1470 -> "00:30")
  */
 export const minutesToTime = (minutes: number): string => {
-  const hours = Math.floor(minutes / 60);
-  const mins = minutes % 60;
+  const wrapped = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(wrapped / 60);
+  const mins = wrapped % 60;
   return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
 };
 
 /**
- * Create a time slot with custom duration
+ * Minutes since midnight of the service day for a time on a later day (e.g., "01:00" +1 -> 1500)
  */
-export const createCustomTimeSlot = (startTime: string, durationMinutes: number): TimeSlot => {
-  const startMinutes = timeToMinutes(startTime);
-  const endMinutes = startMinutes + durationMinutes;
-  
+export const toAbsoluteMinutes = (time: string, dayOffset: number = 0): number => {
+  return dayOffset * MINUTES_PER_DAY + timeToMinutes(time);
+};
+
+/**
+ * Split absolute minutes back into a wall-clock time and day offset
+ */
+export const fromAbsoluteMinutes = (minutes: number): { time: string; dayOffset: number } => {
+  return { time: minutesToTime(minutes), dayOffset: Math.floor(minutes / MINUTES_PER_DAY) };
+};
+
+export const getSlotStartMinutes = (slot: TimeSlot): number => {
+  return toAbsoluteMinutes(slot.start, slot.startDayOffset);
+};
+
+export const getSlotEndMinutes = (slot: TimeSlot): number => {
+  return toAbsoluteMinutes(slot.end, slot.endDayOffset);
+};
+
+/**
+ * Length of a slot in minutes, correct across midnight
+ */
+export const getSlotDuration = (slot: TimeSlot): number => {
+  return getSlotEndMinutes(slot) - getSlotStartMinutes(slot);
+};
+
+/**
+ * Build a slot from absolute start/end minutes, setting day offsets only when off the service day
+ */
+export const createTimeSlotFromMinutes = (startMinutes: number, endMinutes: number): TimeSlot => {
+  const start = fromAbsoluteMinutes(startMinutes);
+  const end = fromAbsoluteMinutes(endMinutes);
+
   return {
-    start: startTime,
-    end: minutesToTime(endMinutes),
+    start: start.time,
+    end: end.time,
+    ...(start.dayOffset !== 0 && { startDayOffset: start.dayOffset }),
+    ...(end.dayOffset !== 0 && { endDayOffset: end.dayOffset }),
     isAvailable: true,
   };
 };
 
+/**
+ * Absolute start/end of an operating window; an end at or before the start means the window runs past midnight
+ */
+export const getWindowBounds = (window: OperatingWindow): { start: number; end: number } => {
+  const start = timeToMinutes(window.start);
+  const end = timeToMinutes(window.end);
+  return { start, end: end <= start ? end + MINUTES_PER_DAY : end };
+};
+
+/**
+ * Which day of an operating window a wall-clock time falls on (1 for "01:00" in a 22:00-02:00 window)
+ */
+export const resolveDayOffset = (time: string, window: OperatingWindow = DEFAULT_OPERATING_WINDOW): number => {
+  const bounds = getWindowBounds(window);
+  return timeToMinutes(time) < bounds.start && bounds.end > MINUTES_PER_DAY ? 1 : 0;
+};
+
+/**
+ * Rebuild a slot from bare wall-clock times (e.g., sheet rows), placing it on the right day of the window
+ */
+export const createTimeSlotInWindow = (
+  startTime: string,
+  endTime: string,
+  window: OperatingWindow = DEFAULT_OPERATING_WINDOW
+): TimeSlot => {
+  const startMinutes = toAbsoluteMinutes(startTime, resolveDayOffset(startTime, window));
+  let endMinutes = startMinutes - timeToMinutes(startTime) + timeToMinutes(endTime);
+  if (endMinutes < startMinutes) {
+    endMinutes += MINUTES_PER_DAY;
+  }
+  return createTimeSlotFromMinutes(startMinutes, endMinutes);
+};
+
+/**
+ * Create a time slot with custom duration
+ */
+export const createCustomTimeSlot = (startTime: string, durationMinutes: number, startDayOffset: number = 0): TimeSlot => {
+  const startMinutes = toAbsoluteMinutes(startTime, startDayOffset);
+  return createTimeSlotFromMinutes(startMinutes, startMinutes + durationMinutes);
+};
+
 /**
  * Check if two time slots overlap
  */
 export const doTimeSlotsOverlap = (slot1: TimeSlot, slot2: TimeSlot): boolean => {
-  const start1 = timeToMinutes(slot1.start);
-  const end1 = timeToMinutes(slot1.end);
-  const start2 = timeToMinutes(slot2.start);
-  const end2 = timeToMinutes(slot2.end);
+  const start1 = getSlotStartMinutes(slot1);
+  const end1 = getSlotEndMinutes(slot1);
+  const start2 = getSlotStartMinutes(slot2);
+  const end2 = getSlotEndMinutes(slot2);
   
   return start1 < end2 && start2 < end1;
 };
 
 /**
- * Validate custom time slot against constraints and existing slots
+ * Format a duration in minutes (e.g., "45m", "2h", "1h 30m")
+ */
+export const formatDuration = (minutes: number): string => {
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+};
+
+/**
+ * Format an operating window for display (e.g., "Evening: 4:30 PM - 8:00 PM, Mon-Fri")
+ */
+export const formatOperatingWindow = (window: OperatingWindow): string => {
+  const days = window.weekdays.length === 0 || window.weekdays.length === 7
+    ? 'Every day'
+    : [...window.weekdays].sort().map(day => WEEKDAY_LABELS[day]).join(', ');
+  return `${window.shift}: ${formatTimeSlot(getWindowTimeSlot(window))}, ${days}`;
+};
+
+/**
+ * The whole operating window as a slot (end flagged +1 for overnight windows)
+ */
+export const getWindowTimeSlot = (window: OperatingWindow): TimeSlot => {
+  const bounds = getWindowBounds(window);
+  return createTimeSlotFromMinutes(bounds.start, bounds.end);
+};
+
+/**
+ * Check an operating window definition before it is saved
+ */
+export const validateOperatingWindow = (window: OperatingWindow): string | null => {
+  if (!window.shift.trim()) {
+    return 'Shift name is required';
+  }
+
+  if (timeToMinutes(window.end) === timeToMinutes(window.start)) {
+    return 'Window end must differ from its start';
+  }
+
+  if (window.slotMinutes <= 0 || window.minDurationMinutes <= 0) {
+    return 'Slot size and minimum duration must be positive';
+  }
+
+  if (window.minDurationMinutes > window.maxDurationMinutes) {
+    return 'Minimum duration cannot exceed maximum duration';
+  }
+
+  const bounds = getWindowBounds(window);
+  if (window.slotMinutes > bounds.end - bounds.start) {
+    return 'Slot size is longer than the window';
+  }
+
+  return null;
+};
+
+/**
+ * Windows that apply to a terminal (and optionally a weekday); terminal-specific windows win over shared ones
+ */
+export const getOperatingWindowsFor = (
+  windows: OperatingWindow[],
+  terminalId?: string,
+  weekday?: Weekday
+): OperatingWindow[] => {
+  const matchesDay = (window: OperatingWindow) =>
+    weekday === undefined || window.weekdays.length === 0 || window.weekdays.includes(weekday);
+
+  const terminalWindows = windows.filter(window => terminalId && window.terminalId === terminalId && matchesDay(window));
+  if (terminalWindows.length > 0) {
+    return terminalWindows;
+  }
+
+  const sharedWindows = windows.filter(window => !window.terminalId && matchesDay(window));
+  return sharedWindows.length > 0 ? sharedWindows : [DEFAULT_OPERATING_WINDOW];
+};
+
+/**
+ * Validate custom time slot against the operating window and existing slots
  */
 export const validateCustomTimeSlot = (
   startTime: string,
   durationMinutes: number,
   existingSlots: TimeSlot[],
-  minStartTime: string = '16:30',
-  maxEndTime: string = '20:00'
+  window: OperatingWindow = DEFAULT_OPERATING_WINDOW,
+  startDayOffset: number = resolveDayOffset(startTime, window)
 ): TimeValidationResult => {
   // Check duration constraints
-  if (durationMinutes < 5) {
-    return { isValid: false, error: 'Duration must be at least 5 minutes' };
+  if (durationMinutes < window.minDurationMinutes) {
+    return { isValid: false, error: `Duration must be at least ${formatDuration(window.minDurationMinutes)}` };
   }
   
-  if (durationMinutes > 120) {
-    return { isValid: false, error: 'Duration cannot exceed 2 hours' };
+  if (durationMinutes > window.maxDurationMinutes) {
+    return { isValid: false, error: `Duration cannot exceed ${formatDuration(window.maxDurationMinutes)}` };
   }
   
   // Check time constraints
-  const startMinutes = timeToMinutes(startTime);
+  const startMinutes = toAbsoluteMinutes(startTime, startDayOffset);
   const endMinutes = startMinutes + durationMinutes;
-  const minStartMinutes = timeToMinutes(minStartTime);
-  const maxEndMinutes = timeToMinutes(maxEndTime);
+  const bounds = getWindowBounds(window);
   
-  if (startMinutes < minStartMinutes) {
-    return { isValid: false, error: `Start time must be after ${formatTimeSlot({ start: minStartTime, end: minStartTime, isAvailable: true })}` };
+  if (startMinutes < bounds.start) {
+    return { isValid: false, error: `Start time must be after ${formatTimeOfDay(window.start)}` };
   }
   
-  if (endMinutes > maxEndMinutes) {
-    return { isValid: false, error: `End time must be before ${formatTimeSlot({ start: maxEndTime, end: maxEndTime, isAvailable: true })}` };
+  if (endMinutes > bounds.end) {
+    const windowSlot = getWindowTimeSlot(window);
+    return { isValid: false, error: `End time must be before ${formatTimeOfDay(windowSlot.end, windowSlot.endDayOffset)}` };
   }
   
   // Check for overlaps with existing slots
-  const newSlot = createCustomTimeSlot(startTime, durationMinutes);
+  const newSlot = createCustomTimeSlot(startTime, durationMinutes, startDayOffset);
   const hasOverlap = existingSlots.some(existingSlot => doTimeSlotsOverlap(newSlot, existingSlot));
   
   if (hasOverlap) {
@@ -216,26 +369,59 @@ export const validateCustomTimeSlot = (
 export const getNextAvailableTimeSlotWithDuration = (
   allSlots: TimeSlot[],
   assignedSlots: TimeSlot[],
-  durationMinutes: number = 15
+  durationMinutes: number = DEFAULT_OPERATING_WINDOW.slotMinutes
 ): TimeSlot | null => {
   const availableSlots = getAvailableTimeSlots(allSlots, assignedSlots);
   
   for (const slot of availableSlots) {
-    const slotDuration = timeToMinutes(slot.end) - timeToMinutes(slot.start);
-    if (slotDuration >= durationMinutes) {
-      return createCustomTimeSlot(slot.start, durationMinutes);
+    if (getSlotDuration(slot) >= durationMinutes) {
+      return createCustomTimeSlot(slot.start, durationMinutes, slot.startDayOffset);
     }
   }
   
   return null;
 };
 
+/**
+ * Find the first slot start in the window where a stop of the given duration fits
+ */
+export const findNextAvailableStartTime = (
+  durationMinutes: number,
+  existingSlots: TimeSlot[],
+  window: OperatingWindow = DEFAULT_OPERATING_WINDOW
+): string | null => {
+  const slot = generateTimeSlots(window).find(slot =>
+    validateCustomTimeSlot(slot.start, durationMinutes, existingSlots, window, slot.startDayOffset ?? 0).isValid
+  );
+  return slot ? slot.start : null;
+};
+
+/**
+ * Check that every stop of a schedule fits its operating window
+ */
+export const validateHexagonsInWindow = (
+  hexagons: ScheduledHexagon[],
+  window: OperatingWindow
+): string | null => {
+  for (const hexagon of sortScheduledHexagonsByTime(hexagons)) {
+    const { start, startDayOffset = 0 } = hexagon.timeSlot;
+    const result = validateCustomTimeSlot(start, getSlotDuration(hexagon.timeSlot), [], window, startDayOffset);
+    if (!result.isValid) {
+      return `Hex #${hexagon.hexagonNumber} (${formatTimeSlot(hexagon.timeSlot)}): ${result.error}`;
+    }
+  }
+  return null;
+};
+
 /**
  * Get the latest end time from existing scheduled hexagons
  */
-export const getLatestEndTime = (scheduledHexagons: ScheduledHexagon[]): string => {
+export const getLatestEndTime = (
+  scheduledHexagons: ScheduledHexagon[],
+  window: OperatingWindow = DEFAULT_OPERATING_WINDOW
+): string => {
   if (scheduledHexagons.length === 0) {
-    return '16:30'; // Default start time
+    return window.start; // Start of the shift
   }
   
   const sortedHexagons = sortScheduledHexagonsByTime(scheduledHexagons);
@@ -246,6 +432,29 @@ export const getLatestEndTime = (scheduledHexagons: ScheduledHexagon[]): string
 /**
  * Get suggested start time for next hexagon (latest end time)
  */
-export const getSuggestedStartTime = (scheduledHexagons: ScheduledHexagon[]): string => {
-  return getLatestEndTime(scheduledHexagons);
+export const getSuggestedStartTime = (
+  scheduledHexagons: ScheduledHexagon[],
+  window: OperatingWindow = DEFAULT_OPERATING_WINDOW
+): string => {
+  return getLatestEndTime(scheduledHexagons, window);
+};
+
+/**
+ * Re-time stops back to back in the given order, keeping each stop's duration.
+ * The chain starts at the earliest current start (or the window start for an empty route).
+ */
+export const assignConsecutiveTimeSlots = (
+  orderedHexagons: ScheduledHexagon[],
+  window: OperatingWindow = DEFAULT_OPERATING_WINDOW
+): ScheduledHexagon[] => {
+  let cursor = orderedHexagons.length > 0
+    ? Math.min(...orderedHexagons.map(h => getSlotStartMinutes(h.timeSlot)))
+    : getWindowBounds(window).start;
+
+  return orderedHexagons.map(hexagon => {
+    const duration = hexagon.customDuration ?? getSlotDuration(hexagon.timeSlot);
+    const timeSlot = createTimeSlotFromMinutes(cursor, cursor + duration);
+    cursor += duration;
+    return { ...hexagon, timeSlot, customDuration: duration };
+  });
 };
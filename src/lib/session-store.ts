@@ -0,0 +1,87 @@
+import type { SavedSession, SessionSnapshot } from '@/types/session';
+
+// Browser-only: sessions live in IndexedDB so a reload or crash keeps the work done so far
+
+const DB_NAME = 'geohex-uberizer';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      // Let the next call try again, e.g. after the user allows storage
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, operate: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(SESSION_STORE, mode);
+    const request = operate(transaction.objectStore(SESSION_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('The session transaction was aborted.'));
+  });
+};
+
+export const isSessionStorageAvailable = (): boolean => {
+  return typeof indexedDB !== 'undefined';
+};
+
+export const generateSessionId = (): string => {
+  return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+export const getDefaultSessionName = (date = new Date()): string => {
+  return `Session ${date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}`;
+};
+
+/**
+ * Saved sessions, most recently changed first
+ */
+export const listSessions = async (): Promise<SavedSession[]> => {
+  const sessions = await runRequest<SavedSession[]>('readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+export const getSession = async (id: string): Promise<SavedSession | undefined> => {
+  return runRequest<SavedSession | undefined>('readonly', store => store.get(id));
+};
+
+export const saveSession = async (session: SavedSession): Promise<void> => {
+  await runRequest('readwrite', store => store.put(session));
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  const session = await getSession(id);
+  if (!session) throw new Error('The session no longer exists.');
+  await saveSession({ ...session, name });
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+/**
+ * Whether a snapshot holds anything worth offering to restore
+ */
+export const hasSessionContent = (snapshot: SessionSnapshot): boolean => {
+  return snapshot.polygons.length > 0
+    || snapshot.schedules.length > 0
+    || snapshot.selectedH3Indexes.length > 0
+    || (snapshot.draft?.hexagons.length ?? 0) > 0
+    || !!snapshot.hexAttributes;
+};
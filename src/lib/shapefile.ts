@@ -0,0 +1,336 @@
+import type { LinearRing, MultiPolygonCoordinates, PolygonCoordinates, Position } from '@/types/geometry';
+
+export interface ShapefileRecord {
+  geometry: MultiPolygonCoordinates | null;
+  properties: Record<string, string>;
+}
+
+const SHP_FILE_CODE = 9994;
+const SHP_HEADER_LENGTH = 100;
+// Polygon, PolygonZ and PolygonM all start with the same box/parts/points layout
+const POLYGON_SHAPE_TYPES = new Set([5, 15, 25]);
+const NULL_SHAPE_TYPE = 0;
+
+/**
+ * Signed ring area (shoelace). Negative means clockwise, which shapefiles use for outer rings.
+ */
+export const ringSignedArea = (ring: LinearRing): number => {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+  }
+  return area / 2;
+};
+
+/**
+ * Ray-casting point-in-ring test
+ */
+export const isPointInRing = ([x, y]: Position, ring: LinearRing): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Group flat shapefile parts into polygons: clockwise rings are shells, counter-clockwise rings are holes
+ */
+const groupRings = (rings: LinearRing[]): MultiPolygonCoordinates => {
+  const polygons: PolygonCoordinates[] = [];
+  const holes: LinearRing[] = [];
+
+  rings.forEach((ring) => {
+    if (ringSignedArea(ring) < 0) {
+      polygons.push([ring]);
+    } else {
+      holes.push(ring);
+    }
+  });
+
+  // Some writers ignore the winding rule; treat everything as shells in that case
+  if (polygons.length === 0) {
+    return holes.map((ring) => [ring]);
+  }
+
+  holes.forEach((hole) => {
+    const owner = polygons.find((polygon) => isPointInRing(hole[0], polygon[0])) ?? polygons[0];
+    owner.push(hole);
+  });
+
+  return polygons;
+};
+
+const readPolygonRecord = (view: DataView, offset: number): MultiPolygonCoordinates => {
+  // Skip shape type (4) and bounding box (32)
+  const numParts = view.getInt32(offset + 36, true);
+  const numPoints = view.getInt32(offset + 40, true);
+  const partsOffset = offset + 44;
+  const pointsOffset = partsOffset + numParts * 4;
+
+  const partStarts: number[] = [];
+  for (let i = 0; i < numParts; i++) {
+    partStarts.push(view.getInt32(partsOffset + i * 4, true));
+  }
+
+  const rings: LinearRing[] = partStarts.map((start, i) => {
+    const end = i + 1 < partStarts.length ? partStarts[i + 1] : numPoints;
+    const ring: LinearRing = [];
+    for (let p = start; p < end; p++) {
+      const pointOffset = pointsOffset + p * 16;
+      ring.push([view.getFloat64(pointOffset, true), view.getFloat64(pointOffset + 8, true)]);
+    }
+    return ring;
+  });
+
+  return groupRings(rings.filter((ring) => ring.length >= 4));
+};
+
+/**
+ * Read polygon geometries from a .shp buffer. Non-polygon shape files are rejected.
+ */
+export const readShp = (buffer: ArrayBuffer): (MultiPolygonCoordinates | null)[] => {
+  const view = new DataView(buffer);
+
+  if (buffer.byteLength < SHP_HEADER_LENGTH || view.getInt32(0, false) !== SHP_FILE_CODE) {
+    throw new Error('Invalid .shp file: missing shapefile header.');
+  }
+
+  const fileShapeType = view.getInt32(32, true);
+  if (!POLYGON_SHAPE_TYPES.has(fileShapeType)) {
+    throw new Error(`Unsupported shapefile geometry type ${fileShapeType}. Only polygon shapefiles can be imported.`);
+  }
+
+  const geometries: (MultiPolygonCoordinates | null)[] = [];
+  let offset = SHP_HEADER_LENGTH;
+
+  while (offset + 8 <= buffer.byteLength) {
+    // Record header is big-endian; content length is in 16-bit words
+    const contentLength = view.getInt32(offset + 4, false) * 2;
+    const contentOffset = offset + 8;
+    const shapeType = view.getInt32(contentOffset, true);
+
+    if (shapeType === NULL_SHAPE_TYPE) {
+      geometries.push(null);
+    } else if (POLYGON_SHAPE_TYPES.has(shapeType)) {
+      geometries.push(readPolygonRecord(view, contentOffset));
+    } else {
+      throw new Error(`Unexpected shape type ${shapeType} in record ${geometries.length + 1}.`);
+    }
+
+    offset = contentOffset + contentLength;
+  }
+
+  return geometries;
+};
+
+/**
+ * Read attribute rows from a .dbf buffer as strings keyed by field name
+ */
+export const readDbf = (buffer: ArrayBuffer, encoding = 'utf-8'): Record<string, string>[] => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder(encoding);
+
+  const numRecords = view.getUint32(4, true);
+  const headerLength = view.getUint16(8, true);
+  const recordLength = view.getUint16(10, true);
+
+  const fields: { name: string; length: number }[] = [];
+  for (let offset = 32; offset < headerLength - 1 && bytes[offset] !== 0x0d; offset += 32) {
+    const nameBytes = bytes.subarray(offset, offset + 11);
+    const nameEnd = nameBytes.indexOf(0);
+    fields.push({
+      name: decoder.decode(nameBytes.subarray(0, nameEnd === -1 ? 11 : nameEnd)).trim(),
+      length: bytes[offset + 16],
+    });
+  }
+
+  const rows: Record<string, string>[] = [];
+  for (let r = 0; r < numRecords; r++) {
+    const recordOffset = headerLength + r * recordLength;
+    if (recordOffset + recordLength > bytes.length) break;
+
+    // First byte is the deletion flag ('*' = deleted); keep the slot so rows stay aligned with .shp records
+    let fieldOffset = recordOffset + 1;
+    const row: Record<string, string> = {};
+    fields.forEach((field) => {
+      row[field.name] = decoder.decode(bytes.subarray(fieldOffset, fieldOffset + field.length)).trim();
+      fieldOffset += field.length;
+    });
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+/**
+ * Combine .shp geometries with .dbf attributes, record by record
+ */
+export const readShapefile = (shp: ArrayBuffer, dbf?: ArrayBuffer, encoding?: string): ShapefileRecord[] => {
+  const geometries = readShp(shp);
+  const attributes = dbf ? readDbf(dbf, encoding) : [];
+
+  return geometries.map((geometry, i) => ({
+    geometry,
+    properties: attributes[i] ?? {},
+  }));
+};
+
+export interface DbfField {
+  name: string; // At most 10 characters
+  type: 'C' | 'N';
+  length: number;
+}
+
+export interface ShapefileFiles {
+  shp: ArrayBuffer;
+  shx: ArrayBuffer;
+  dbf: ArrayBuffer;
+}
+
+const POLYGON_SHAPE_TYPE = 5;
+
+// Shapefiles want clockwise shells and counter-clockwise holes
+const orientRing = (ring: LinearRing, clockwise: boolean): LinearRing => {
+  const isClockwise = ringSignedArea(ring) < 0;
+  return isClockwise === clockwise ? ring : [...ring].reverse();
+};
+
+const boundingBox = (points: Position[]): number[] => {
+  if (points.length === 0) return [0, 0, 0, 0];
+  return points.reduce(
+    ([minX, minY, maxX, maxY], [x, y]) => [Math.min(minX, x), Math.min(minY, y), Math.max(maxX, x), Math.max(maxY, y)],
+    [Infinity, Infinity, -Infinity, -Infinity]
+  );
+};
+
+const writeShpHeader = (view: DataView, fileLengthBytes: number, bbox: number[]) => {
+  view.setInt32(0, SHP_FILE_CODE, false);
+  view.setInt32(24, fileLengthBytes / 2, false);
+  view.setInt32(28, 1000, true);
+  view.setInt32(32, POLYGON_SHAPE_TYPE, true);
+  bbox.forEach((value, i) => view.setFloat64(36 + i * 8, value, true));
+};
+
+/**
+ * Write polygon records to .shp/.shx buffers
+ */
+export const writeShp = (geometries: MultiPolygonCoordinates[]): { shp: ArrayBuffer; shx: ArrayBuffer } => {
+  const records = geometries.map((polygons) =>
+    polygons.flatMap((rings) => rings.map((ring, i) => orientRing(ring, i === 0)))
+  );
+
+  const contentLengths = records.map((rings) => {
+    const numPoints = rings.reduce((sum, ring) => sum + ring.length, 0);
+    return 44 + rings.length * 4 + numPoints * 16;
+  });
+
+  const shpLength = SHP_HEADER_LENGTH + contentLengths.reduce((sum, length) => sum + 8 + length, 0);
+  const shxLength = SHP_HEADER_LENGTH + records.length * 8;
+  const shp = new ArrayBuffer(shpLength);
+  const shx = new ArrayBuffer(shxLength);
+  const shpView = new DataView(shp);
+  const shxView = new DataView(shx);
+
+  const fileBbox = boundingBox(records.flat(2));
+  writeShpHeader(shpView, shpLength, fileBbox);
+  writeShpHeader(shxView, shxLength, fileBbox);
+
+  let offset = SHP_HEADER_LENGTH;
+  records.forEach((rings, r) => {
+    const contentLength = contentLengths[r];
+    shxView.setInt32(SHP_HEADER_LENGTH + r * 8, offset / 2, false);
+    shxView.setInt32(SHP_HEADER_LENGTH + r * 8 + 4, contentLength / 2, false);
+
+    shpView.setInt32(offset, r + 1, false);
+    shpView.setInt32(offset + 4, contentLength / 2, false);
+
+    const content = offset + 8;
+    const points = rings.flat();
+    shpView.setInt32(content, POLYGON_SHAPE_TYPE, true);
+    boundingBox(points).forEach((value, i) => shpView.setFloat64(content + 4 + i * 8, value, true));
+    shpView.setInt32(content + 36, rings.length, true);
+    shpView.setInt32(content + 40, points.length, true);
+
+    let partStart = 0;
+    rings.forEach((ring, i) => {
+      shpView.setInt32(content + 44 + i * 4, partStart, true);
+      partStart += ring.length;
+    });
+
+    const pointsOffset = content + 44 + rings.length * 4;
+    points.forEach(([x, y], i) => {
+      shpView.setFloat64(pointsOffset + i * 16, x, true);
+      shpView.setFloat64(pointsOffset + i * 16 + 8, y, true);
+    });
+
+    offset = content + contentLength;
+  });
+
+  return { shp, shx };
+};
+
+/**
+ * Write attribute rows to a dBASE III .dbf buffer (UTF-8 text, see the .cpg written alongside)
+ */
+export const writeDbf = (fields: DbfField[], rows: Record<string, string | number | null>[]): ArrayBuffer => {
+  const encoder = new TextEncoder();
+  const headerLength = 32 + fields.length * 32 + 1;
+  const recordLength = 1 + fields.reduce((sum, field) => sum + field.length, 0);
+  const buffer = new ArrayBuffer(headerLength + rows.length * recordLength + 1);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  const now = new Date();
+  view.setUint8(0, 0x03);
+  view.setUint8(1, now.getFullYear() - 1900);
+  view.setUint8(2, now.getMonth() + 1);
+  view.setUint8(3, now.getDate());
+  view.setUint32(4, rows.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+
+  fields.forEach((field, i) => {
+    const offset = 32 + i * 32;
+    bytes.set(encoder.encode(field.name.slice(0, 10)), offset);
+    bytes[offset + 11] = field.type.charCodeAt(0);
+    bytes[offset + 16] = field.length;
+  });
+  bytes[headerLength - 1] = 0x0d;
+
+  rows.forEach((row, r) => {
+    let offset = headerLength + r * recordLength;
+    bytes[offset++] = 0x20; // Not deleted
+
+    fields.forEach((field) => {
+      const raw = row[field.name];
+      const text = raw === null || raw === undefined ? '' : String(raw);
+      const encoded = encoder.encode(text).slice(0, field.length);
+      const padded = new Uint8Array(field.length).fill(0x20);
+      // Numbers are right-aligned, text is left-aligned
+      padded.set(encoded, field.type === 'N' ? field.length - encoded.length : 0);
+      bytes.set(padded, offset);
+      offset += field.length;
+    });
+  });
+  bytes[buffer.byteLength - 1] = 0x1a;
+
+  return buffer;
+};
+
+/**
+ * Write a complete polygon shapefile (.shp, .shx, .dbf)
+ */
+export const writeShapefile = (
+  records: { geometry: MultiPolygonCoordinates; properties: Record<string, string | number | null> }[],
+  fields: DbfField[]
+): ShapefileFiles => {
+  const { shp, shx } = writeShp(records.map((record) => record.geometry));
+  const dbf = writeDbf(fields, records.map((record) => record.properties));
+  return { shp, shx, dbf };
+};
@@ -0,0 +1,307 @@
+import { z } from 'zod';
+import type { ActiveDataSources, SheetDataSource } from '@/types/data-sources';
+import type { HexagonSchedule } from '@/types/scheduling';
+import type {
+  DataSnapshot,
+  DeleteRouteResult,
+  GeoHexRepository,
+  PolygonSheetRow,
+  RouteSheetRow,
+  SaveRouteResult,
+  SheetTable,
+  WithRowErrors,
+} from '@/types/storage';
+import { getSheetIdAndGid, isAppsScriptUrl, toSheetColumn } from '@/lib/data-sources';
+import { parseCsvTable } from './sheet-table';
+import { invalidateSheetCache, readCachedSheet } from './sheet-cache';
+import { POLYGON_SHEET, ROUTE_SHEET, parseSheetRows, resolveRequiredSheetHeaders, type SheetSchema } from './sheet-schemas';
+import {
+  ROUTE_SHEET_HEADERS,
+  getRouteHexagonIds,
+  getRouteTerminalIds,
+  scheduleToSheetRows,
+  sheetRowsToSchedules,
+} from './route-rows';
+
+const getCsvExportUrl = (url: string): { sheetId: string; gid: string; csvUrl: string } => {
+  const { sheetId, gid } = getSheetIdAndGid(url);
+  if (!sheetId) {
+    throw new Error('Could not parse Sheet ID from the URL.');
+  }
+
+  // If GID is not in the original URL, it defaults to the first sheet (gid=0)
+  const gidValue = gid ?? '0';
+  return {
+    sheetId,
+    gid: gidValue,
+    csvUrl: `https://docs.google.com/spreadsheets/d/${sheetId}/export?format=csv&gid=${gidValue}`,
+  };
+};
+
+// Cache key for the sheet a URL points at; URLs to the same sheet and gid share it
+const getSheetKey = (url: string): string => {
+  const { sheetId, gid } = getCsvExportUrl(url);
+  return `${sheetId}:${gid}`;
+};
+
+const fetchSheetText = async (url: string): Promise<string> => {
+  const { csvUrl } = getCsvExportUrl(url);
+  const response = await fetch(csvUrl);
+  if (!response.ok) {
+    if (response.status === 400) {
+      throw new Error('Failed to fetch sheet. This might be a private sheet or an invalid URL. Please ensure "Anyone with the link can view".');
+    }
+    throw new Error(`Failed to fetch sheet. Status: ${response.status}`);
+  }
+  const text = await response.text();
+
+  // Check for HTML response which indicates an error page (e.g. login required)
+  if (text.trim().startsWith('<!DOCTYPE html>')) {
+    throw new Error('Failed to fetch sheet data. The URL may be for a private sheet. Please ensure "Anyone with the link can view".');
+  }
+  return text;
+};
+
+const fetchSheetTable = async (source: SheetDataSource): Promise<SheetTable> => {
+  return parseCsvTable(await fetchSheetText(source.url));
+};
+
+// Also checked when saving the settings; env overrides and hand-edited config files pass through here only
+const assertAppsScriptUrl = (webhookUrl: string) => {
+  if (!isAppsScriptUrl(webhookUrl)) {
+    throw new Error('The webhook URL must be an https://script.google.com web app.');
+  }
+};
+
+// The Apps Script web app's answer; which of the optional fields it sets depends on the action
+const webhookResponseSchema = z.object({
+  success: z.boolean(),
+  error: z.string().optional(),
+  saved: z.boolean().optional(),
+  deleted: z.boolean().optional(),
+  replaced: z.boolean().optional(),
+  revision: z.number().optional(),
+  removedRows: z.number().optional(),
+  updated: z.boolean().optional(),
+});
+
+type WebhookResponse = z.infer<typeof webhookResponseSchema>;
+
+const parseWebhookResponse = (body: unknown): WebhookResponse => {
+  const parsed = webhookResponseSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new Error('The webhook sent an unexpected response. Please check it runs the current Apps Script.');
+  }
+  return parsed.data;
+};
+
+const postToWebhook = async (webhookUrl: string, payload: object): Promise<WebhookResponse> => {
+  assertAppsScriptUrl(webhookUrl);
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('Webhook error response:', errorText);
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  const result = parseWebhookResponse(await response.json());
+  if (!result.success) {
+    console.error('Google Apps Script error:', result.error);
+    throw new Error(result.error || 'Failed to write to Google Sheets');
+  }
+  return result;
+};
+
+/**
+ * Reads the sheets' CSV exports and writes through the Apps Script webhook
+ */
+export const createGoogleSheetsRepository = (sources: ActiveDataSources): GeoHexRepository => {
+  // Parsed once per download and shared by every read of the sheet until the cache expires
+  const readSheetRows = async <T extends object>(
+    source: SheetDataSource,
+    schema: SheetSchema<T>
+  ): Promise<DataSnapshot<T[]>> => {
+    const { value, fetchedAt } = await readCachedSheet(
+      getSheetKey(source.url),
+      `${schema.label} ${JSON.stringify(source.columns)}`,
+      async (): Promise<WithRowErrors<T[]>> => parseSheetRows(await fetchSheetTable(source), schema, source.columns)
+    );
+    return { ...value, fetchedAt };
+  };
+
+  const fetchRouteRows = () => readSheetRows(sources.routes, ROUTE_SHEET);
+
+  // The next read of these sheets downloads them again, whichever URL it goes through
+  const invalidateSheets = (...urls: string[]) => {
+    urls.filter(Boolean).forEach(url => invalidateSheetCache(getSheetKey(url)));
+  };
+
+  const listRoutes = async (terminalId?: string) => {
+    const { data, errors, fetchedAt } = await fetchRouteRows();
+    const schedules = sheetRowsToSchedules(data);
+    return { data: terminalId ? schedules.filter(schedule => schedule.terminalId === terminalId) : schedules, errors, fetchedAt };
+  };
+
+  const routesSource = { ...sources.routes, url: sources.writeTarget.routesUrl || sources.routes.url };
+
+  // Headers as they are in the route sheet, in ROUTE_SHEET_HEADERS order, so the webhook can find
+  // the columns; ones the sheet lacks are added with these names
+  const readRouteSheetHeaders = async (): Promise<string[]> => {
+    let existingData: string;
+    try {
+      existingData = await fetchSheetText(routesSource.url);
+    } catch (error) {
+      console.error('Error accessing Google Sheet:', error);
+      throw new Error('Failed to access Google Sheet. Please ensure the sheet exists and is publicly accessible.');
+    }
+
+    if (existingData.trim().length === 0) {
+      return ROUTE_SHEET_HEADERS.map(column => toSheetColumn(column, routesSource.columns));
+    }
+    const { headers } = parseCsvTable(existingData);
+    const resolved = resolveRequiredSheetHeaders(headers, ROUTE_SHEET, routesSource.columns);
+    return ROUTE_SHEET_HEADERS.map(column =>
+      headers[resolved.indexOf(column)] ?? toSheetColumn(column, routesSource.columns)
+    );
+  };
+
+  // Which rows belong to a route: its Route ID, or "<Terminal ID>-<Route Name>" on rows saved before that column
+  const routeMatchPayload = (sheetHeaders: string[], routeId: string) => {
+    const toRouteColumn = (column: keyof RouteSheetRow) => sheetHeaders[ROUTE_SHEET_HEADERS.indexOf(column)];
+    return {
+      routeId,
+      idColumn: toRouteColumn('Route ID'),
+      legacyIdColumns: [toRouteColumn('Terminal ID'), toRouteColumn('Route Name')],
+    };
+  };
+
+  const saveRoute = async (schedule: HexagonSchedule): Promise<SaveRouteResult> => {
+    const { sheetId, gid } = getCsvExportUrl(routesSource.url);
+    const sheetHeaders = await readRouteSheetHeaders();
+    const expectedRevision = schedule.base?.revision ?? 0;
+
+    // The webhook checks the route's revision, removes its current rows and appends the new ones
+    // in one locked step, so the decision never depends on what another request read
+    const payload = {
+      action: 'upsertRoute',
+      sheetId,
+      gid,
+      headers: sheetHeaders,
+      data: scheduleToSheetRows(schedule, expectedRevision + 1).map(row => ROUTE_SHEET_HEADERS.map(header => row[header])),
+      ...routeMatchPayload(sheetHeaders, schedule.id),
+      expectedRevision,
+      revisionColumn: sheetHeaders[ROUTE_SHEET_HEADERS.indexOf('Revision')],
+    };
+
+    let result: WebhookResponse;
+    try {
+      result = await postToWebhook(sources.writeTarget.webhookUrl, payload);
+    } catch (writeError) {
+      console.error('Error writing to Google Sheet:', writeError);
+      throw new Error('Failed to write to Google Sheet. Please check the URL and permissions.');
+    } finally {
+      invalidateSheets(routesSource.url, sources.routes.url);
+    }
+    if (result.saved === false) {
+      return { status: 'conflict', revision: result.revision ?? 0 };
+    }
+    return { status: 'saved', replaced: Boolean(result.replaced), revision: expectedRevision + 1 };
+  };
+
+  const deleteRoute = async (routeId: string, expectedRevision: number): Promise<DeleteRouteResult> => {
+    const { sheetId, gid } = getCsvExportUrl(routesSource.url);
+    const sheetHeaders = await readRouteSheetHeaders();
+
+    let result: WebhookResponse;
+    try {
+      result = await postToWebhook(sources.writeTarget.webhookUrl, {
+        action: 'deleteRoute',
+        sheetId,
+        gid,
+        ...routeMatchPayload(sheetHeaders, routeId),
+        expectedRevision,
+        revisionColumn: sheetHeaders[ROUTE_SHEET_HEADERS.indexOf('Revision')],
+      });
+    } catch (writeError) {
+      console.error('Error deleting from Google Sheet:', writeError);
+      throw new Error('Failed to delete the route from Google Sheet. Please check the webhook is up to date.');
+    } finally {
+      invalidateSheets(routesSource.url, sources.routes.url);
+    }
+    if (result.deleted === false) {
+      return { status: 'conflict', revision: result.revision ?? 0 };
+    }
+    return { status: 'deleted', removedRows: result.removedRows ?? 0 };
+  };
+
+  const savePolygon = async (terminalId: string, wkt: string, previousWkt?: string) => {
+    const polygonsSource = { ...sources.polygons, url: sources.writeTarget.polygonsUrl || sources.polygons.url };
+    const { sheetId, gid } = getCsvExportUrl(polygonsSource.url);
+
+    // Match on the sheet's own spelling of the headers
+    const { headers } = await fetchSheetTable(polygonsSource);
+    const resolved = resolveRequiredSheetHeaders(headers, POLYGON_SHEET, polygonsSource.columns);
+    const toPolygonColumn = (column: keyof PolygonSheetRow) => headers[resolved.indexOf(column)];
+
+    const result = await postToWebhook(sources.writeTarget.webhookUrl, {
+      action: 'updatePolygon',
+      sheetId,
+      gid,
+      // The webhook updates the "Polygon" cell of the row matching both values, or appends a new row
+      matchColumns: [toPolygonColumn('Terminal ID'), toPolygonColumn('Polygon')],
+      matchValues: [terminalId, previousWkt ?? ''],
+      updateColumn: toPolygonColumn('Polygon'),
+      values: { [toPolygonColumn('Terminal ID')]: terminalId, [toPolygonColumn('Polygon')]: wkt },
+    }).finally(() => invalidateSheets(polygonsSource.url, sources.polygons.url));
+    return { updated: Boolean(result.updated) };
+  };
+
+  return {
+    backend: 'google-sheets',
+    getPolygons: () => readSheetRows(sources.polygons, POLYGON_SHEET),
+    listTerminalIds: async () => {
+      const { data, errors, fetchedAt } = await fetchRouteRows();
+      return { data: getRouteTerminalIds(data), errors, fetchedAt };
+    },
+    listRoutes,
+    getHexagonsForTerminal: async (terminalId) => {
+      const { data, errors, fetchedAt } = await fetchRouteRows();
+      return { data: getRouteHexagonIds(data, terminalId), errors, fetchedAt };
+    },
+    saveRoute,
+    deleteRoute,
+    savePolygon,
+    refresh: () => invalidateSheets(
+      sources.polygons.url,
+      sources.routes.url,
+      sources.writeTarget.polygonsUrl ?? '',
+      sources.writeTarget.routesUrl ?? ''
+    ),
+  };
+};
+
+/**
+ * Read any sheet shared as "Anyone with the link can view", outside the configured sources (e.g. hexagon attributes)
+ */
+export const fetchSheetTableByUrl = async (url: string): Promise<SheetTable> => {
+  return parseCsvTable(await fetchSheetText(url));
+};
+
+/**
+ * GET the webhook to check that the Apps Script deployment is reachable
+ */
+export const pingWebhook = async (webhookUrl: string): Promise<string> => {
+  assertAppsScriptUrl(webhookUrl);
+  const response = await fetch(webhookUrl, { method: 'GET' });
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  const result: unknown = await response.json();
+  const message = typeof result === 'object' && result !== null && 'message' in result ? result.message : undefined;
+  return typeof message === 'string' && message ? message : 'Webhook is working';
+};
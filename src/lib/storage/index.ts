@@ -0,0 +1,25 @@
+import type { ActiveDataSources } from '@/types/data-sources';
+import type { GeoHexRepository } from '@/types/storage';
+import { resolveStoragePath } from '@/lib/data-source-config';
+import { createGoogleSheetsRepository } from './google-sheets';
+import { createLocalFilesRepository } from './local-files';
+import { createSqliteRepository } from './sqlite';
+
+export { fetchSheetTableByUrl, pingWebhook } from './google-sheets';
+export { validateRouteSchedule } from './route-rows';
+
+/**
+ * The repository for a workspace's live sources; relative paths are resolved from the server's working directory
+ * and must stay inside the data directory
+ */
+export const createRepository = (sources: ActiveDataSources): GeoHexRepository => {
+  const storage = sources.storage ?? { type: 'google-sheets' };
+  switch (storage.type) {
+    case 'sqlite':
+      return createSqliteRepository(resolveStoragePath(storage.path));
+    case 'directory':
+      return createLocalFilesRepository(resolveStoragePath(storage.path), sources);
+    case 'google-sheets':
+      return createGoogleSheetsRepository(sources);
+  }
+};
@@ -0,0 +1,167 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ActiveDataSources } from '@/types/data-sources';
+import type { HexagonSchedule } from '@/types/scheduling';
+import type { DeleteRouteResult, GeoHexRepository, RouteSheetRow, SaveRouteResult, SheetTable } from '@/types/storage';
+import { toSheetColumn } from '@/lib/data-sources';
+import { appendTableRows, parseCsvTable, serializeCsvTable } from './sheet-table';
+import { POLYGON_SHEET, ROUTE_SHEET, parseSheetRows, resolveRequiredSheetHeaders } from './sheet-schemas';
+import {
+  ROUTE_SHEET_HEADERS,
+  getRouteHexagonIds,
+  getRouteId,
+  getRouteRevision,
+  getRouteTerminalIds,
+  scheduleToSheetRows,
+  sheetRowsToSchedules,
+} from './route-rows';
+
+const POLYGONS_FILE = 'polygons.csv';
+const ROUTES_FILE = 'routes.csv';
+
+// Read-modify-write calls on one file run one at a time. Repositories are created per request,
+// so the queue is kept per file path for the whole server process.
+const fileQueues = new Map<string, Promise<unknown>>();
+
+const withFileLock = <T>(file: string, task: () => Promise<T>): Promise<T> => {
+  const run = (fileQueues.get(file) ?? Promise.resolve()).then(task);
+  const settled = run.catch(() => undefined);
+  fileQueues.set(file, settled);
+  settled.then(() => {
+    if (fileQueues.get(file) === settled) fileQueues.delete(file);
+  });
+  return run;
+};
+
+/**
+ * A folder of CSV files laid out like the two sheets (same headers and column mapping),
+ * so a sheet downloaded as CSV works offline as is
+ */
+export const createLocalFilesRepository = (directory: string, sources: ActiveDataSources): GeoHexRepository => {
+  const resolveFile = (file: string) => path.resolve(directory, file);
+
+  const readTable = async (file: string, emptyHeaders?: string[]): Promise<SheetTable> => {
+    try {
+      return parseCsvTable(await fs.readFile(resolveFile(file), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      // A missing file just means nothing has been saved to it yet, where that is allowed
+      if (!emptyHeaders) throw new Error(`${resolveFile(file)} does not exist.`);
+      return { headers: emptyHeaders, rows: [] };
+    }
+  };
+
+  // Written to a temporary file and renamed into place, so a reader never sees half a file
+  const writeTable = async (file: string, table: SheetTable) => {
+    await fs.mkdir(directory, { recursive: true });
+    const target = resolveFile(file);
+    const temporary = `${target}.${process.pid}.${Date.now()}.tmp`;
+    try {
+      await fs.writeFile(temporary, `${serializeCsvTable(table)}\n`, 'utf8');
+      await fs.rename(temporary, target);
+    } catch (error) {
+      await fs.rm(temporary, { force: true });
+      throw error;
+    }
+  };
+
+  const readRoutes = () => readTable(ROUTES_FILE, ROUTE_SHEET_HEADERS.map(column => toSheetColumn(column, sources.routes.columns)));
+
+  // Files are read on every call, so data is always as of now
+  const readRouteRows = async () => ({
+    ...parseSheetRows(await readRoutes(), ROUTE_SHEET, sources.routes.columns),
+    fetchedAt: Date.now(),
+  });
+
+  const listRoutes = async (terminalId?: string) => {
+    const { data, errors, fetchedAt } = await readRouteRows();
+    const schedules = sheetRowsToSchedules(data);
+    return { data: terminalId ? schedules.filter(schedule => schedule.terminalId === terminalId) : schedules, errors, fetchedAt };
+  };
+
+  // Tests whether a row of the routes table belongs to a route
+  const matchRouteRows = (table: SheetTable, routeId: string) => {
+    const resolved = resolveRequiredSheetHeaders(table.headers, ROUTE_SHEET, sources.routes.columns);
+    const cell = (row: string[], column: keyof RouteSheetRow) => row[resolved.indexOf(column)]?.trim() ?? '';
+    return (row: string[]) =>
+      getRouteId({ 'Terminal ID': cell(row, 'Terminal ID'), 'Route Name': cell(row, 'Route Name'), 'Route ID': cell(row, 'Route ID') }) === routeId;
+  };
+
+  // The revision check and the write happen under one lock, so two saves cannot both pass the check
+  const saveRoute = (schedule: HexagonSchedule): Promise<SaveRouteResult> => withFileLock(resolveFile(ROUTES_FILE), async () => {
+    const table = await readRoutes();
+    const resolved = resolveRequiredSheetHeaders(table.headers, ROUTE_SHEET, sources.routes.columns);
+    const isRouteRow = matchRouteRows(table, schedule.id);
+    const routeRows = table.rows.filter(isRouteRow);
+    const revision = getRouteRevision(routeRows.map(row => ({ 'Revision': row[resolved.indexOf('Revision')]?.trim() ?? '' })));
+    if (revision !== (schedule.base?.revision ?? 0)) {
+      return { status: 'conflict', revision };
+    }
+
+    // Write each value under the file's own header for its column
+    const toHeader = (column: keyof RouteSheetRow) =>
+      table.headers[resolved.indexOf(column)] ?? toSheetColumn(column, sources.routes.columns);
+    const records = scheduleToSheetRows(schedule, revision + 1).map(row =>
+      Object.fromEntries(ROUTE_SHEET_HEADERS.map(column => [toHeader(column), row[column]]))
+    );
+
+    await writeTable(ROUTES_FILE, appendTableRows({ ...table, rows: table.rows.filter(row => !isRouteRow(row)) }, records));
+    return { status: 'saved', replaced: routeRows.length > 0, revision: revision + 1 };
+  });
+
+  const deleteRoute = (routeId: string, expectedRevision: number): Promise<DeleteRouteResult> => withFileLock(resolveFile(ROUTES_FILE), async () => {
+    const table = await readRoutes();
+    const resolved = resolveRequiredSheetHeaders(table.headers, ROUTE_SHEET, sources.routes.columns);
+    const isRouteRow = matchRouteRows(table, routeId);
+    const routeRows = table.rows.filter(isRouteRow);
+    const revision = getRouteRevision(routeRows.map(row => ({ 'Revision': row[resolved.indexOf('Revision')]?.trim() ?? '' })));
+    // Rows already gone are no conflict
+    if (revision !== 0 && revision !== expectedRevision) {
+      return { status: 'conflict', revision };
+    }
+
+    if (routeRows.length > 0) {
+      await writeTable(ROUTES_FILE, { ...table, rows: table.rows.filter(row => !isRouteRow(row)) });
+    }
+    return { status: 'deleted', removedRows: routeRows.length };
+  });
+
+  const savePolygon = (terminalId: string, wkt: string, previousWkt?: string) => withFileLock(resolveFile(POLYGONS_FILE), async () => {
+    const table = await readTable(POLYGONS_FILE, POLYGON_SHEET.columns.map(column => toSheetColumn(column, sources.polygons.columns)));
+    const resolved = resolveRequiredSheetHeaders(table.headers, POLYGON_SHEET, sources.polygons.columns);
+    const terminalIdIndex = resolved.indexOf('Terminal ID');
+    const polygonIndex = resolved.indexOf('Polygon');
+
+    const rowIndex = table.rows.findIndex(row =>
+      row[terminalIdIndex]?.trim() === terminalId.trim() && row[polygonIndex]?.trim() === (previousWkt ?? '').trim()
+    );
+    const updated = rowIndex !== -1;
+    const next = updated
+      ? { ...table, rows: table.rows.map((row, i) => (i === rowIndex ? row.map((cell, c) => (c === polygonIndex ? wkt : cell)) : row)) }
+      : appendTableRows(table, [{ [table.headers[terminalIdIndex]]: terminalId, [table.headers[polygonIndex]]: wkt }]);
+
+    await writeTable(POLYGONS_FILE, next);
+    return { updated };
+  });
+
+  return {
+    backend: 'directory',
+    getPolygons: async () => ({
+      ...parseSheetRows(await readTable(POLYGONS_FILE), POLYGON_SHEET, sources.polygons.columns),
+      fetchedAt: Date.now(),
+    }),
+    listTerminalIds: async () => {
+      const { data, errors, fetchedAt } = await readRouteRows();
+      return { data: getRouteTerminalIds(data), errors, fetchedAt };
+    },
+    listRoutes,
+    getHexagonsForTerminal: async (terminalId) => {
+      const { data, errors, fetchedAt } = await readRouteRows();
+      return { data: getRouteHexagonIds(data, terminalId), errors, fetchedAt };
+    },
+    saveRoute,
+    deleteRoute,
+    savePolygon,
+    refresh: () => {},
+  };
+};
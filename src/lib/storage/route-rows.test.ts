@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { HexagonSchedule, OperatingWindow } from '@/types/scheduling';
+import type { RouteSheetRow } from '@/types/storage';
+import { DEFAULT_OPERATING_WINDOW, createTimeSlotInWindow } from '@/lib/scheduling-utils';
+import { getRouteId, getRouteRevision, scheduleToSheetRows, sheetRowsToSchedules } from './route-rows';
+
+const lateWindow: OperatingWindow = {
+  id: 'sheet:T1:Late',
+  shift: 'Late',
+  terminalId: 'T1',
+  weekdays: [5, 6],
+  start: '22:00',
+  end: '02:00',
+  slotMinutes: 15,
+  minDurationMinutes: 15,
+  maxDurationMinutes: 60,
+};
+
+const stop = (hexagonId: string, start: string, end: string, hexagonNumber: number) => ({
+  hexagonId,
+  hexagonNumber,
+  timeSlot: createTimeSlotInWindow(start, end, lateWindow),
+  polygonId: 0,
+});
+
+const route: HexagonSchedule = {
+  id: 'route-1',
+  name: 'Night loop',
+  terminalId: 'T1',
+  operatingWindow: lateWindow,
+  timeZone: 'Europe/Amsterdam',
+  recurrence: { weekdays: [5, 6], effectiveFrom: '2026-01-01', effectiveTo: '2026-12-31' },
+  exceptions: [
+    { date: '2026-12-25', type: 'skip', note: 'Christmas' },
+    { date: '2026-12-26', type: 'override', overrides: { '8a1fb46622dffff': createTimeSlotInWindow('23:00', '23:15', lateWindow) } },
+  ],
+  hexagons: [stop('8a1fb46622dffff', '22:30', '22:45', 1), stop('8a1fb46622d7fff', '23:45', '00:15', 2)],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+describe('scheduleToSheetRows', () => {
+  it('writes one row per stop in route order, with the route columns repeated', () => {
+    const rows = scheduleToSheetRows(route, 3);
+
+    assert.equal(rows.length, 2);
+    assert.deepEqual(rows.map(row => [row['hexagon_id'], row['Start Time'], row['End Time'], row['Ordering']]), [
+      ['8a1fb46622dffff', '22:30', '22:45', '1'],
+      ['8a1fb46622d7fff', '23:45', '00:15', '2'],
+    ]);
+    rows.forEach(row => {
+      assert.equal(row['Route ID'], 'route-1');
+      assert.equal(row['Revision'], '3');
+      assert.equal(row['Weekdays'], 'Fri,Sat');
+      assert.equal(row['Route Days'], 'Fri,Sat');
+      assert.equal(row['Exceptions'], '2026-12-25 skip Christmas; 2026-12-26 override');
+    });
+  });
+
+  it('puts override times only on the stop they move', () => {
+    const [first, second] = scheduleToSheetRows(route, 1);
+
+    assert.equal(first['Override Times'], '2026-12-26 23:00-23:15');
+    assert.equal(second['Override Times'], '');
+  });
+});
+
+describe('sheetRowsToSchedules', () => {
+  it('reads back the route it wrote, with stops after midnight on the next day', () => {
+    const [loaded] = sheetRowsToSchedules(scheduleToSheetRows(route, 2));
+
+    assert.equal(loaded.id, route.id);
+    assert.equal(loaded.name, route.name);
+    assert.equal(loaded.timeZone, route.timeZone);
+    assert.deepEqual(loaded.operatingWindow, lateWindow);
+    assert.deepEqual(loaded.recurrence, route.recurrence);
+    assert.deepEqual(loaded.exceptions, route.exceptions);
+    assert.deepEqual(loaded.hexagons, route.hexagons);
+    assert.deepEqual(loaded.hexagons[1].timeSlot, { start: '23:45', end: '00:15', endDayOffset: 1, isAvailable: true });
+    assert.equal(loaded.base?.revision, 2);
+  });
+
+  it('orders stops by the Ordering column, not by row order', () => {
+    const rows = scheduleToSheetRows(route, 1).reverse();
+    const [loaded] = sheetRowsToSchedules(rows);
+
+    assert.deepEqual(loaded.hexagons.map(hexagon => hexagon.hexagonId), ['8a1fb46622dffff', '8a1fb46622d7fff']);
+  });
+
+  it('falls back to the default window, every day and no zone on rows without those columns', () => {
+    const [row] = scheduleToSheetRows(route, 1);
+    const legacyRow: RouteSheetRow = {
+      ...row,
+      'Shift': '', 'Window Start': '', 'Window End': '', 'Time Zone': '',
+      'Route Days': '', 'Effective From': '', 'Effective To': '', 'Exceptions': '', 'Override Times': '',
+      'Route ID': '', 'Revision': '',
+      'Start Time': '17:00', 'End Time': '17:15',
+    };
+    const [loaded] = sheetRowsToSchedules([legacyRow]);
+
+    assert.equal(loaded.id, 'T1-Night loop');
+    assert.deepEqual(loaded.operatingWindow, DEFAULT_OPERATING_WINDOW);
+    assert.equal(loaded.timeZone, undefined);
+    assert.deepEqual(loaded.recurrence, { weekdays: [] });
+    assert.deepEqual(loaded.exceptions, []);
+    assert.equal(loaded.base?.revision, 1);
+  });
+});
+
+describe('getRouteRevision', () => {
+  it('takes the highest revision, reading empty cells as 1', () => {
+    assert.equal(getRouteRevision([]), 0);
+    assert.equal(getRouteRevision([{ 'Revision': '' }]), 1);
+    assert.equal(getRouteRevision([{ 'Revision': '2' }, { 'Revision': '4' }]), 4);
+  });
+});
+
+describe('getRouteId', () => {
+  it('uses the Route ID, or terminal and name on older rows', () => {
+    assert.equal(getRouteId({ 'Terminal ID': 'T1', 'Route Name': 'A', 'Route ID': 'route-9' }), 'route-9');
+    assert.equal(getRouteId({ 'Terminal ID': 'T1', 'Route Name': 'A', 'Route ID': '' }), 'T1-A');
+  });
+});
@@ -0,0 +1,237 @@
+import type { HexagonSchedule, OperatingWindow, RecurrenceRule, ScheduleException, Weekday } from '@/types/scheduling';
+import type { RouteSheetRow } from '@/types/storage';
+import { DEFAULT_OPERATING_WINDOW, WEEKDAY_LABELS, createTimeSlotInWindow } from '@/lib/scheduling-utils';
+import { isValidTimeZone } from '@/lib/time-zones';
+import { EVERY_DAY, isValidDateKey } from '@/lib/recurrence';
+import { createRouteRevision } from '@/lib/route-merge';
+
+// Rows of the route sheet (one per stop) and their conversion to and from schedules; shared by all backends
+
+export const ROUTE_SHEET_HEADERS: (keyof RouteSheetRow)[] = [
+  'Terminal ID', 'Route Name', 'hexagon_id', 'Start Time', 'End Time', 'Ordering',
+  'Shift', 'Weekdays', 'Window Start', 'Window End', 'Slot Minutes', 'Min Duration', 'Max Duration',
+  'Time Zone',
+  'Route Days', 'Effective From', 'Effective To', 'Exceptions', 'Override Times',
+  'Route ID', 'Revision',
+];
+
+const EXCEPTION_PATTERN = /^(\d{4}-\d{2}-\d{2})\s+(skip|override)\s*(.*)$/;
+const OVERRIDE_PATTERN = /^(\d{4}-\d{2}-\d{2})\s+(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/;
+
+const formatWeekdaysColumn = (weekdays: Weekday[]): string => {
+  return weekdays.map(day => WEEKDAY_LABELS[day]).join(',');
+};
+
+// Accepts "Mon,Tue", "monday, tuesday", ...; unknown labels are ignored
+const parseWeekdaysColumn = (value: string): Weekday[] => {
+  return value
+    .split(',')
+    .map(label => WEEKDAY_LABELS.findIndex(day => day.toLowerCase() === label.trim().toLowerCase().slice(0, 3)))
+    .filter((day): day is Weekday => day !== -1);
+};
+
+const operatingWindowToSheetColumns = (window: OperatingWindow) => {
+  return {
+    'Shift': window.shift,
+    'Weekdays': formatWeekdaysColumn(window.weekdays),
+    'Window Start': window.start,
+    'Window End': window.end,
+    'Slot Minutes': window.slotMinutes.toString(),
+    'Min Duration': window.minDurationMinutes.toString(),
+    'Max Duration': window.maxDurationMinutes.toString(),
+  };
+};
+
+// Routes saved before the window columns existed fall back to the default evening shift
+const sheetColumnsToOperatingWindow = (row: RouteSheetRow): OperatingWindow => {
+  if (!row['Shift'] || !row['Window Start'] || !row['Window End']) {
+    return DEFAULT_OPERATING_WINDOW;
+  }
+
+  const weekdays = parseWeekdaysColumn(row['Weekdays']);
+
+  return {
+    id: `sheet:${row['Terminal ID']}:${row['Shift']}`,
+    shift: row['Shift'],
+    terminalId: row['Terminal ID'] || undefined,
+    weekdays,
+    start: row['Window Start'],
+    end: row['Window End'],
+    slotMinutes: parseInt(row['Slot Minutes']) || DEFAULT_OPERATING_WINDOW.slotMinutes,
+    minDurationMinutes: parseInt(row['Min Duration']) || DEFAULT_OPERATING_WINDOW.minDurationMinutes,
+    maxDurationMinutes: parseInt(row['Max Duration']) || DEFAULT_OPERATING_WINDOW.maxDurationMinutes,
+  };
+};
+
+const recurrenceToSheetColumns = (schedule: HexagonSchedule, hexagonId: string) => {
+  return {
+    'Route Days': formatWeekdaysColumn(schedule.recurrence.weekdays),
+    'Effective From': schedule.recurrence.effectiveFrom ?? '',
+    'Effective To': schedule.recurrence.effectiveTo ?? '',
+    'Exceptions': schedule.exceptions
+      .map(exception => [exception.date, exception.type, exception.note].filter(Boolean).join(' '))
+      .join('; '),
+    'Override Times': schedule.exceptions
+      .flatMap(exception => {
+        const slot = exception.overrides?.[hexagonId];
+        return slot ? [`${exception.date} ${slot.start}-${slot.end}`] : [];
+      })
+      .join('; '),
+  };
+};
+
+// Routes saved before the recurrence columns existed run every day
+const sheetColumnsToRecurrence = (row: RouteSheetRow): RecurrenceRule => {
+  if (!row['Route Days'] && !row['Effective From'] && !row['Effective To']) {
+    return EVERY_DAY;
+  }
+
+  return {
+    weekdays: parseWeekdaysColumn(row['Route Days']),
+    ...(isValidDateKey(row['Effective From']) && { effectiveFrom: row['Effective From'] }),
+    ...(isValidDateKey(row['Effective To']) && { effectiveTo: row['Effective To'] }),
+  };
+};
+
+const sheetColumnsToExceptions = (row: RouteSheetRow): ScheduleException[] => {
+  return row['Exceptions']
+    .split(';')
+    .map(entry => entry.trim().match(EXCEPTION_PATTERN))
+    .filter((match): match is RegExpMatchArray => match !== null && isValidDateKey(match[1]))
+    .map(([, date, type, note]) => ({
+      date,
+      type: type as ScheduleException['type'],
+      ...(note && { note }),
+      ...(type === 'override' && { overrides: {} }),
+    }));
+};
+
+/**
+ * The saved revision of a route's rows; 0 when there are none
+ */
+export const getRouteRevision = (rows: Pick<RouteSheetRow, 'Revision'>[]): number => {
+  return rows.reduce((revision, row) => Math.max(revision, parseInt(row['Revision']) || 1), 0);
+};
+
+/**
+ * The route a row belongs to. Rows saved before the Route ID column existed are identified
+ * by terminal and name, the ID those routes were loaded with.
+ */
+export const getRouteId = (row: Pick<RouteSheetRow, 'Terminal ID' | 'Route Name' | 'Route ID'>): string => {
+  return row['Route ID'] || `${row['Terminal ID']}-${row['Route Name']}`;
+};
+
+export const scheduleToSheetRows = (schedule: HexagonSchedule, revision: number): RouteSheetRow[] => {
+  return schedule.hexagons.map((hexagon, index) => ({
+    'Terminal ID': schedule.terminalId,
+    'Route Name': schedule.name,
+    'hexagon_id': hexagon.hexagonId,
+    'Start Time': hexagon.timeSlot.start,
+    'End Time': hexagon.timeSlot.end,
+    'Ordering': (index + 1).toString(),
+    ...operatingWindowToSheetColumns(schedule.operatingWindow),
+    'Time Zone': schedule.timeZone ?? '',
+    ...recurrenceToSheetColumns(schedule, hexagon.hexagonId),
+    'Route ID': schedule.id,
+    'Revision': revision.toString(),
+  }));
+};
+
+export const sheetRowsToSchedules = (rows: RouteSheetRow[]): HexagonSchedule[] => {
+  const scheduleMap = new Map<string, HexagonSchedule>();
+  const routeRows = new Map<string, RouteSheetRow[]>();
+  
+  rows.forEach((row) => {
+    const key = getRouteId(row);
+    routeRows.set(key, [...(routeRows.get(key) ?? []), row]);
+    
+    if (!scheduleMap.has(key)) {
+      scheduleMap.set(key, {
+        id: key,
+        name: row['Route Name'],
+        terminalId: row['Terminal ID'],
+        operatingWindow: sheetColumnsToOperatingWindow(row),
+        // Left unset when missing or unknown so the app can fall back to the terminal's zone
+        timeZone: isValidTimeZone(row['Time Zone']) ? row['Time Zone'] : undefined,
+        recurrence: sheetColumnsToRecurrence(row),
+        exceptions: sheetColumnsToExceptions(row),
+        hexagons: [],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+    }
+    
+    const schedule = scheduleMap.get(key)!;
+    const ordering = parseInt(row['Ordering']) - 1; // Convert to 0-based index
+    
+    // Ensure we have enough slots in the array
+    while (schedule.hexagons.length <= ordering) {
+      schedule.hexagons.push({
+        hexagonId: '',
+        hexagonNumber: 0,
+        timeSlot: { start: '', end: '', isAvailable: true },
+        polygonId: 0,
+      });
+    }
+    
+    schedule.hexagons[ordering] = {
+      hexagonId: row['hexagon_id'],
+      hexagonNumber: ordering + 1,
+      // The sheet only stores HH:MM; the route's window tells us which stops fall after midnight
+      timeSlot: createTimeSlotInWindow(row['Start Time'], row['End Time'], schedule.operatingWindow),
+      polygonId: 0, // Will be updated when the schedule is loaded into the app
+    };
+
+    row['Override Times'].split(';').forEach(entry => {
+      const match = entry.trim().match(OVERRIDE_PATTERN);
+      const exception = match && schedule.exceptions.find(e => e.date === match[1] && e.type === 'override');
+      if (match && exception) {
+        exception.overrides = {
+          ...exception.overrides,
+          [row['hexagon_id']]: createTimeSlotInWindow(match[2], match[3], schedule.operatingWindow),
+        };
+      }
+    });
+  });
+  
+  // Remove empty slots and return schedules, each based on the revision just read
+  return Array.from(scheduleMap.values()).map(schedule => {
+    const hexagons = schedule.hexagons.filter(h => h.hexagonId !== '');
+    const route = { ...schedule, hexagons };
+    return { ...route, base: createRouteRevision(getRouteRevision(routeRows.get(schedule.id) ?? []), route) };
+  });
+};
+
+
+/**
+ * Check a schedule before it is saved; returns an error message or null
+ */
+export const validateRouteSchedule = (schedule: HexagonSchedule): string | null => {
+  if (!schedule || !schedule.hexagons || schedule.hexagons.length === 0) {
+    return 'Schedule must contain at least one hexagon.';
+  }
+  if (!schedule.name || schedule.name.trim() === '') {
+    return 'Schedule must have a name.';
+  }
+  if (!schedule.terminalId || schedule.terminalId.trim() === '') {
+    return 'Schedule must have a valid Terminal ID.';
+  }
+  if (schedule.hexagons.some(hexagon => !hexagon.hexagonId || !hexagon.timeSlot.start || !hexagon.timeSlot.end)) {
+    return 'Invalid route data: missing required fields.';
+  }
+  return null;
+};
+
+/**
+ * Unique, sorted Terminal IDs of route rows
+ */
+export const getRouteTerminalIds = (rows: RouteSheetRow[]): string[] => {
+  return Array.from(new Set(rows.map(row => row['Terminal ID']))).sort();
+};
+
+/**
+ * Unique hexagon IDs routed from one terminal
+ */
+export const getRouteHexagonIds = (rows: RouteSheetRow[], terminalId: string): string[] => {
+  return Array.from(new Set(rows.filter(row => row['Terminal ID'] === terminalId).map(row => row['hexagon_id'])));
+};
@@ -0,0 +1,53 @@
+// How long a downloaded sheet is served before it is fetched again; GEOHEX_SHEET_CACHE_TTL in seconds, 0 disables
+const SHEET_CACHE_TTL_MS = Number(process.env.GEOHEX_SHEET_CACHE_TTL ?? 60) * 1000;
+
+interface CacheEntry {
+  sheetKey: string;
+  snapshot: Promise<{ value: unknown; fetchedAt: number }>;
+  expiresAt: number; // Infinity while the read is in flight, so concurrent callers share it
+}
+
+// Shared by every request the server process handles
+const entries = new Map<string, CacheEntry>();
+
+/**
+ * Read through the cache. Entries are keyed by sheet ("sheetId:gid") plus a variant naming what
+ * was parsed from it, so every action reading the same sheet the same way shares one snapshot.
+ */
+export const readCachedSheet = async <T>(
+  sheetKey: string,
+  variant: string,
+  load: () => Promise<T>
+): Promise<{ value: T; fetchedAt: number }> => {
+  const key = `${sheetKey}|${variant}`;
+  const cached = entries.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.snapshot as Promise<{ value: T; fetchedAt: number }>;
+  }
+
+  const entry: CacheEntry = {
+    sheetKey,
+    snapshot: load().then(value => ({ value, fetchedAt: Date.now() })),
+    expiresAt: Infinity,
+  };
+  entries.set(key, entry);
+
+  try {
+    const snapshot = await entry.snapshot;
+    entry.expiresAt = snapshot.fetchedAt + SHEET_CACHE_TTL_MS;
+    return snapshot as { value: T; fetchedAt: number };
+  } catch (error) {
+    // Failed reads are not cached; the next call tries again
+    if (entries.get(key) === entry) entries.delete(key);
+    throw error;
+  }
+};
+
+/**
+ * Drop the cached reads of one sheet, or of every sheet
+ */
+export const invalidateSheetCache = (sheetKey?: string) => {
+  entries.forEach((entry, key) => {
+    if (!sheetKey || entry.sheetKey === sheetKey) entries.delete(key);
+  });
+};
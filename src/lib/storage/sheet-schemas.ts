@@ -0,0 +1,182 @@
+import { z } from 'zod';
+import { isValidCell } from 'h3-js';
+import type { ColumnMapping } from '@/types/data-sources';
+import type { PolygonSheetRow, RouteSheetRow, SheetRowError, SheetTable, WithRowErrors } from '@/types/storage';
+import { isValidTimeZone } from '@/lib/time-zones';
+import { isValidDateKey } from '@/lib/recurrence';
+import { ROUTE_SHEET_HEADERS } from './route-rows';
+
+export interface SheetSchema<T extends object> {
+  label: string; // used in error messages, e.g. "route sheet"
+  columns: readonly (keyof T & string)[];
+  required: readonly (keyof T & string)[]; // the sheet must have these headers; a row with a bad one is skipped
+  aliases: Partial<Record<keyof T & string, string[]>>; // other headers accepted for a column
+  row: z.ZodType<T>;
+}
+
+const TIME_PATTERN = /^\d{1,2}:\d{2}$/;
+const WKT_POLYGON_PATTERN = /^(SRID=\d+;\s*)?(MULTI)?POLYGON\b/i;
+
+// Checks on required text skip empty values, which min(1) already reports
+const requiredText = z.string().min(1, 'is empty');
+const optionalText = z.string();
+const time = (message: string) => z.string().refine(value => TIME_PATTERN.test(value), message);
+const optionalTime = z.string().refine(value => !value || TIME_PATTERN.test(value), 'must be a time like 16:30');
+const optionalMinutes = z.string().refine(value => !value || /^[1-9]\d*$/.test(value), 'must be a whole number of minutes');
+const optionalCount = z.string().refine(value => !value || /^[1-9]\d*$/.test(value), 'must be a whole number from 1');
+const optionalTimeZone = z.string().refine(value => !value || isValidTimeZone(value), 'is not an IANA time zone, e.g. America/New_York');
+const optionalDate = z.string().refine(value => !value || isValidDateKey(value), 'must be a date like 2026-12-31');
+
+export const POLYGON_SHEET: SheetSchema<PolygonSheetRow> = {
+  label: 'polygon sheet',
+  columns: ['Terminal ID', 'PS Name', 'Pitstop ID', 'Polygon', 'Time Zone'],
+  required: ['Terminal ID', 'Polygon'],
+  aliases: {
+    'Terminal ID': ['terminal', 'terminal_id', 'terminalid'],
+    'PS Name': ['pitstop name', 'pitstop', 'ps'],
+    'Pitstop ID': ['ps id', 'pitstop_id', 'pitstopid'],
+    'Polygon': ['wkt', 'geometry', 'polygon wkt'],
+    'Time Zone': ['timezone', 'tz', 'time_zone'],
+  },
+  row: z.object({
+    'Terminal ID': requiredText,
+    'PS Name': optionalText,
+    'Pitstop ID': optionalText,
+    'Polygon': requiredText.refine(value => !value || WKT_POLYGON_PATTERN.test(value), 'is not a POLYGON or MULTIPOLYGON WKT'),
+    'Time Zone': optionalTimeZone,
+  }),
+};
+
+export const ROUTE_SHEET: SheetSchema<RouteSheetRow> = {
+  label: 'route sheet',
+  columns: ROUTE_SHEET_HEADERS,
+  required: ['Terminal ID', 'Route Name', 'hexagon_id', 'Start Time', 'End Time', 'Ordering'],
+  aliases: {
+    'Terminal ID': ['terminal', 'terminal_id', 'terminalid'],
+    'Route Name': ['route', 'route_name', 'name'],
+    'hexagon_id': ['hexagon', 'hex id', 'hex', 'h3', 'h3 index', 'cell'],
+    'Start Time': ['start'],
+    'End Time': ['end'],
+    'Ordering': ['order', 'stop', 'sequence'],
+    'Time Zone': ['timezone', 'tz'],
+    'Route ID': ['routeid'],
+    'Revision': ['rev', 'version'],
+  },
+  row: z.object({
+    'Terminal ID': requiredText,
+    'Route Name': requiredText,
+    'hexagon_id': requiredText.refine(value => !value || isValidCell(value), 'is not an H3 cell index'),
+    'Start Time': time('must be a time like 16:30'),
+    'End Time': time('must be a time like 16:45'),
+    'Ordering': z.string().refine(value => /^[1-9]\d*$/.test(value), 'must be a whole number from 1'),
+    'Shift': optionalText,
+    'Weekdays': optionalText,
+    'Window Start': optionalTime,
+    'Window End': optionalTime,
+    'Slot Minutes': optionalMinutes,
+    'Min Duration': optionalMinutes,
+    'Max Duration': optionalMinutes,
+    'Time Zone': optionalTimeZone,
+    'Route Days': optionalText,
+    'Effective From': optionalDate,
+    'Effective To': optionalDate,
+    'Exceptions': optionalText,
+    'Override Times': optionalText,
+    'Route ID': optionalText,
+    'Revision': optionalCount,
+  }),
+};
+
+// "  Terminal_ID " and "terminal id" name the same column
+const normalizeHeader = (header: string): string => header.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+
+/**
+ * The column each header holds (null for unknown or repeated headers). A mapped header in
+ * the data-source settings wins over the built-in names and aliases.
+ */
+export const resolveSheetHeaders = <T extends object>(
+  headers: string[],
+  schema: SheetSchema<T>,
+  columns: ColumnMapping = {}
+): ((keyof T & string) | null)[] => {
+  const byName = new Map<string, keyof T & string>();
+  schema.columns.forEach(column => {
+    [column, ...(schema.aliases[column] ?? [])].forEach(name => byName.set(normalizeHeader(name), column));
+  });
+  Object.entries(columns).forEach(([column, header]) => {
+    if (header.trim() && schema.columns.includes(column as keyof T & string)) {
+      byName.set(normalizeHeader(header), column as keyof T & string);
+    }
+  });
+
+  const seen = new Set<string>();
+  return headers.map(header => {
+    const column = byName.get(normalizeHeader(header)) ?? null;
+    if (!column || seen.has(column)) return null;
+    seen.add(column);
+    return column;
+  });
+};
+
+/**
+ * Resolve the headers, throwing with the headers found when a required column is missing
+ */
+export const resolveRequiredSheetHeaders = <T extends object>(
+  headers: string[],
+  schema: SheetSchema<T>,
+  columns: ColumnMapping = {}
+): ((keyof T & string) | null)[] => {
+  const resolved = resolveSheetHeaders(headers, schema, columns);
+  const missing = schema.required.filter(column => !resolved.includes(column));
+  if (missing.length > 0) {
+    const found = headers.map(header => `"${header}"`).join(', ');
+    throw new Error(`The ${schema.label} is missing the ${missing.join(', ')} column${missing.length > 1 ? 's' : ''}. Found headers: ${found}.`);
+  }
+  return resolved;
+};
+
+/**
+ * Validate a table's rows against a schema. Throws when required headers are missing;
+ * otherwise returns the valid rows and an error per bad cell.
+ */
+export const parseSheetRows = <T extends object>(
+  table: SheetTable,
+  schema: SheetSchema<T>,
+  columns: ColumnMapping = {},
+  firstRowNumber = 2
+): WithRowErrors<T[]> => {
+  const resolved = resolveRequiredSheetHeaders(table.headers, schema, columns);
+
+  const data: T[] = [];
+  const errors: SheetRowError[] = [];
+
+  table.rows.forEach((cells, index) => {
+    if (cells.every(cell => !cell?.trim())) return;
+
+    const record: Record<string, string> = Object.fromEntries(schema.columns.map(column => [column, '']));
+    resolved.forEach((column, cellIndex) => {
+      if (column) record[column] = (cells[cellIndex] ?? '').trim();
+    });
+
+    const result = schema.row.safeParse(record);
+    if (result.success) {
+      data.push(result.data);
+      return;
+    }
+
+    const row = firstRowNumber + index;
+    const badColumns = result.error.issues.map(issue => String(issue.path[0]));
+    const rowSkipped = badColumns.some(column => schema.required.includes(column as keyof T & string));
+    result.error.issues.forEach((issue, i) => {
+      errors.push({ row, column: badColumns[i], reason: issue.message, rowSkipped });
+    });
+
+    if (!rowSkipped) {
+      // Bad optional cells are read as empty so the rest of the row still loads
+      badColumns.forEach(column => { record[column] = ''; });
+      data.push(record as T);
+    }
+  });
+
+  return { data, errors };
+};
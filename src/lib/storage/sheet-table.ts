@@ -0,0 +1,42 @@
+import Papa from 'papaparse';
+import type { SheetTable } from '@/types/storage';
+
+/**
+ * Parse CSV text (a sheet export or a local file) into a table; headers are matched to columns later
+ */
+export const parseCsvTable = (text: string): SheetTable => {
+  const result = Papa.parse<string[]>(text, { skipEmptyLines: true });
+
+  if (result.errors.length > 0) {
+    console.error('Parsing errors:', result.errors);
+    throw new Error('Error parsing CSV data from the sheet.');
+  }
+
+  if (result.data.length < 1) {
+    throw new Error('Sheet appears to be empty or in an invalid format.');
+  }
+
+  return { headers: result.data[0], rows: result.data.slice(1) };
+};
+
+export const serializeCsvTable = (table: SheetTable): string => {
+  return Papa.unparse([table.headers, ...table.rows], { newline: '\n' });
+};
+
+/**
+ * Lay records out in the table's column order, adding columns the table does not have yet
+ */
+export const appendTableRows = (table: SheetTable, records: Record<string, string>[]): SheetTable => {
+  const headers = [...table.headers];
+  records.forEach(record => {
+    Object.keys(record).forEach(key => {
+      if (!headers.includes(key)) headers.push(key);
+    });
+  });
+
+  const pad = (row: string[]) => [...row, ...Array(Math.max(0, headers.length - row.length)).fill('')];
+  return {
+    headers,
+    rows: [...table.rows.map(pad), ...records.map(record => headers.map(header => record[header] ?? ''))],
+  };
+};
@@ -0,0 +1,150 @@
+import path from 'path';
+import { mkdirSync } from 'fs';
+import Database from 'better-sqlite3';
+import type { HexagonSchedule } from '@/types/scheduling';
+import type { DeleteRouteResult, GeoHexRepository, SaveRouteResult } from '@/types/storage';
+import { POLYGON_SHEET, ROUTE_SHEET, parseSheetRows } from './sheet-schemas';
+import { ROUTE_SHEET_HEADERS, getRouteRevision, scheduleToSheetRows, sheetRowsToSchedules } from './route-rows';
+
+// One column per sheet column, e.g. "Terminal ID" -> terminal_id
+const toSqlColumn = (header: string) => header.toLowerCase().replace(/\s+/g, '_');
+
+const POLYGON_COLUMNS = POLYGON_SHEET.columns.map(toSqlColumn);
+const ROUTE_COLUMNS = ROUTE_SHEET_HEADERS.map(toSqlColumn);
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS polygons (
+    ${POLYGON_COLUMNS.map(column => `${column} TEXT NOT NULL DEFAULT ''`).join(',\n    ')}
+  );
+  CREATE TABLE IF NOT EXISTS route_stops (
+    ${ROUTE_COLUMNS.map(column => `${column} TEXT NOT NULL DEFAULT ''`).join(',\n    ')}
+  );
+  CREATE INDEX IF NOT EXISTS route_stops_route ON route_stops (terminal_id, route_name);
+`;
+
+// Databases created before a column existed get it added, empty
+const addMissingColumns = (db: Database.Database, table: string, columns: string[]) => {
+  const existing = new Set((db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(column => column.name));
+  columns
+    .filter(column => !existing.has(column))
+    .forEach(column => db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} TEXT NOT NULL DEFAULT ''`));
+};
+
+// Connections stay open for the life of the server process
+const connections = new Map<string, Database.Database>();
+
+const openDatabase = (file: string): Database.Database => {
+  const resolved = path.resolve(file);
+  let db = connections.get(resolved);
+  if (!db) {
+    mkdirSync(path.dirname(resolved), { recursive: true });
+    db = new Database(resolved);
+    db.pragma('journal_mode = WAL');
+    db.exec(SCHEMA);
+    addMissingColumns(db, 'polygons', POLYGON_COLUMNS);
+    addMissingColumns(db, 'route_stops', ROUTE_COLUMNS);
+    connections.set(resolved, db);
+  }
+  return db;
+};
+
+/**
+ * A local SQLite database with a polygons table and a route_stops table (one row per stop, as in the sheet)
+ */
+export const createSqliteRepository = (file: string): GeoHexRepository => {
+  const db = openDatabase(file);
+
+  // Stored rows are validated like sheet rows; error row numbers count the rows read, from 1
+  const listRoutes = async (terminalId?: string) => {
+    const records = (terminalId
+      ? db.prepare('SELECT * FROM route_stops WHERE terminal_id = ? ORDER BY rowid').all(terminalId)
+      : db.prepare('SELECT * FROM route_stops ORDER BY rowid').all()
+    ) as Record<string, string>[];
+    const { data, errors } = parseSheetRows(
+      { headers: [...ROUTE_SHEET_HEADERS], rows: records.map(record => ROUTE_COLUMNS.map(column => record[column])) },
+      ROUTE_SHEET,
+      {},
+      1
+    );
+    return { data: sheetRowsToSchedules(data), errors, fetchedAt: Date.now() };
+  };
+
+  const insertStop = db.prepare(
+    `INSERT INTO route_stops (${ROUTE_COLUMNS.join(', ')}) VALUES (${ROUTE_COLUMNS.map(column => `@${column}`).join(', ')})`
+  );
+  // Rows saved before route_id existed are matched by the "<terminal>-<name>" ID they load with
+  const ROUTE_STOPS_OF_ROUTE = "route_id = @id OR (route_id = '' AND terminal_id || '-' || route_name = @id)";
+  const selectRouteRevisions = db.prepare(`SELECT revision FROM route_stops WHERE ${ROUTE_STOPS_OF_ROUTE}`);
+  const deleteRouteStops = db.prepare(`DELETE FROM route_stops WHERE ${ROUTE_STOPS_OF_ROUTE}`);
+
+  const saveRoute = async (schedule: HexagonSchedule) => {
+    // Checked and written in one transaction, so no other save can land in between
+    const upsert = db.transaction((): SaveRouteResult => {
+      const records = selectRouteRevisions.all({ id: schedule.id }) as { revision: string }[];
+      const revision = getRouteRevision(records.map(record => ({ 'Revision': record.revision })));
+      if (revision !== (schedule.base?.revision ?? 0)) {
+        return { status: 'conflict', revision };
+      }
+
+      const { changes } = deleteRouteStops.run({ id: schedule.id });
+      scheduleToSheetRows(schedule, revision + 1).forEach(row => {
+        insertStop.run(Object.fromEntries(ROUTE_SHEET_HEADERS.map(header => [toSqlColumn(header), row[header]])));
+      });
+      return { status: 'saved', replaced: changes > 0, revision: revision + 1 };
+    });
+    return upsert();
+  };
+
+  const deleteRoute = async (routeId: string, expectedRevision: number) => {
+    // Checked and deleted in one transaction, like a save; rows already gone are no conflict
+    const remove = db.transaction((): DeleteRouteResult => {
+      const records = selectRouteRevisions.all({ id: routeId }) as { revision: string }[];
+      const revision = getRouteRevision(records.map(record => ({ 'Revision': record.revision })));
+      if (revision !== 0 && revision !== expectedRevision) {
+        return { status: 'conflict', revision };
+      }
+      const { changes } = deleteRouteStops.run({ id: routeId });
+      return { status: 'deleted', removedRows: changes };
+    });
+    return remove();
+  };
+
+  const savePolygon = async (terminalId: string, wkt: string, previousWkt?: string) => {
+    const { changes } = db
+      .prepare('UPDATE polygons SET polygon = ? WHERE rowid = (SELECT rowid FROM polygons WHERE terminal_id = ? AND polygon = ? LIMIT 1)')
+      .run(wkt, terminalId, previousWkt ?? '');
+    if (changes === 0) {
+      db.prepare('INSERT INTO polygons (terminal_id, polygon) VALUES (?, ?)').run(terminalId, wkt);
+    }
+    return { updated: changes > 0 };
+  };
+
+  return {
+    backend: 'sqlite',
+    getPolygons: async () => {
+      const records = db.prepare('SELECT * FROM polygons ORDER BY rowid').all() as Record<string, string>[];
+      const { data, errors } = parseSheetRows(
+        { headers: [...POLYGON_SHEET.columns], rows: records.map(record => POLYGON_COLUMNS.map(column => record[column])) },
+        POLYGON_SHEET,
+        {},
+        1
+      );
+      return { data, errors, fetchedAt: Date.now() };
+    },
+    // Only the app writes route_stops, so these skip row validation
+    listTerminalIds: async () => {
+      const records = db.prepare("SELECT DISTINCT terminal_id FROM route_stops WHERE terminal_id != '' ORDER BY terminal_id").all() as { terminal_id: string }[];
+      return { data: records.map(record => record.terminal_id), errors: [], fetchedAt: Date.now() };
+    },
+    listRoutes,
+    getHexagonsForTerminal: async (terminalId) => {
+      const records = db.prepare("SELECT DISTINCT hexagon_id FROM route_stops WHERE terminal_id = ? AND hexagon_id != ''").all(terminalId) as { hexagon_id: string }[];
+      return { data: records.map(record => record.hexagon_id), errors: [], fetchedAt: Date.now() };
+    },
+    saveRoute,
+    deleteRoute,
+    savePolygon,
+    // Queries always read the database, so there is nothing to drop
+    refresh: () => {},
+  };
+};
@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { TimeSlot } from '@/types/scheduling';
+import { convertTimeSlot, getTimeZoneOffset } from './time-zones';
+
+const slot = (start: string, end: string, startDayOffset?: number, endDayOffset?: number): TimeSlot => ({
+  start,
+  end,
+  ...(startDayOffset !== undefined && { startDayOffset }),
+  ...(endDayOffset !== undefined && { endDayOffset }),
+  isAvailable: true,
+});
+
+describe('getTimeZoneOffset', () => {
+  it('follows daylight saving time', () => {
+    assert.equal(getTimeZoneOffset('Europe/Amsterdam', new Date('2026-01-15T12:00:00Z')), 60);
+    assert.equal(getTimeZoneOffset('Europe/Amsterdam', new Date('2026-07-15T12:00:00Z')), 120);
+    assert.equal(getTimeZoneOffset('Asia/Kolkata', new Date('2026-07-15T12:00:00Z')), 330);
+  });
+});
+
+describe('convertTimeSlot', () => {
+  it('keeps the slot when both zones are the same', () => {
+    const original = slot('16:30', '16:45');
+
+    assert.equal(convertTimeSlot(original, 'Europe/Amsterdam', 'Europe/Amsterdam'), original);
+  });
+
+  // Amsterdam moves from 02:00 CET to 03:00 CEST at 01:00 UTC on 2026-03-29
+  it('uses the offset before the switch for times early on a spring-forward day', () => {
+    const referenceDate = new Date('2026-03-29T12:00:00Z');
+
+    assert.deepEqual(convertTimeSlot(slot('01:30', '01:45'), 'Europe/Amsterdam', 'UTC', referenceDate), slot('00:30', '00:45'));
+    assert.deepEqual(convertTimeSlot(slot('03:30', '03:45'), 'Europe/Amsterdam', 'UTC', referenceDate), slot('01:30', '01:45'));
+  });
+
+  // Amsterdam moves from 03:00 CEST back to 02:00 CET at 01:00 UTC on 2026-10-25
+  it('uses the offset before the switch for times early on a fall-back day', () => {
+    const referenceDate = new Date('2026-10-25T12:00:00Z');
+
+    assert.deepEqual(
+      convertTimeSlot(slot('01:30', '01:45'), 'Europe/Amsterdam', 'UTC', referenceDate),
+      slot('23:30', '23:45', -1, -1)
+    );
+    assert.deepEqual(convertTimeSlot(slot('04:00', '04:15'), 'Europe/Amsterdam', 'UTC', referenceDate), slot('03:00', '03:15'));
+  });
+
+  it('moves a slot past midnight when the target zone is ahead', () => {
+    const referenceDate = new Date('2026-06-15T16:00:00Z');
+
+    assert.deepEqual(
+      convertTimeSlot(slot('16:30', '17:00'), 'America/New_York', 'Asia/Kolkata', referenceDate),
+      slot('02:00', '02:30', 1, 1)
+    );
+  });
+
+  it('splits a slot over midnight in the target zone', () => {
+    const referenceDate = new Date('2026-06-15T16:00:00Z');
+
+    assert.deepEqual(
+      convertTimeSlot(slot('23:45', '00:15', undefined, 1), 'Europe/Berlin', 'Europe/London', referenceDate),
+      slot('22:45', '23:15')
+    );
+    assert.deepEqual(
+      convertTimeSlot(slot('17:45', '18:15'), 'America/New_York', 'Europe/Berlin', referenceDate),
+      slot('23:45', '00:15', undefined, 1)
+    );
+  });
+});
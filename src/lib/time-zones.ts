@@ -0,0 +1,131 @@
+import tzLookup from 'tz-lookup';
+import type { MultiPolygonCoordinates } from '@/types/geometry';
+import type { TimeSlot } from '@/types/scheduling';
+import { getGeometryCentroid } from './geometry-utils';
+import { createTimeSlotFromMinutes, getSlotEndMinutes, getSlotStartMinutes } from './scheduling-utils';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Check that a string is an IANA zone the runtime knows (e.g., "America/New_York")
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The browser's (or server's) own IANA zone
+ */
+export const getViewerTimeZone = (): string => {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+};
+
+/**
+ * Offline tz-boundary lookup for a point; null for invalid coordinates
+ */
+export const lookupTimeZone = (lat: number, lng: number): string | null => {
+  try {
+    return tzLookup(lat, lng);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Zone at the centroid of the polygons' outer-ring vertices
+ */
+export const getGeometryTimeZone = (polygons: MultiPolygonCoordinates): string | null => {
+  const centroid = getGeometryCentroid(polygons);
+  return centroid && lookupTimeZone(centroid.lat, centroid.lng);
+};
+
+/**
+ * Short zone label for display (e.g., "EST", "GMT+5:30")
+ */
+export const getTimeZoneAbbreviation = (timeZone: string, date: Date = new Date()): string => {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(date);
+  return parts.find((part) => part.type === 'timeZoneName')?.value ?? timeZone;
+};
+
+const getZonedParts = (timeZone: string, date: Date) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute') };
+};
+
+/**
+ * Offset of a zone from UTC in minutes at an instant (DST-aware)
+ */
+export const getTimeZoneOffset = (timeZone: string, date: Date): number => {
+  const { year, month, day, hour, minute } = getZonedParts(timeZone, date);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  return (asUtc - Math.floor(date.getTime() / MS_PER_MINUTE) * MS_PER_MINUTE) / MS_PER_MINUTE;
+};
+
+/**
+ * Midnight of the service day in UTC-as-local terms: the calendar date of `referenceDate` in the zone
+ */
+const getServiceDayUtc = (timeZone: string, referenceDate: Date): number => {
+  const { year, month, day } = getZonedParts(timeZone, referenceDate);
+  return Date.UTC(year, month - 1, day);
+};
+
+/**
+ * Instant for minutes after midnight of the service day in a zone
+ */
+const wallMinutesToInstant = (minutes: number, timeZone: string, serviceDayUtc: number): Date => {
+  const guess = serviceDayUtc + minutes * MS_PER_MINUTE;
+  const offset = getTimeZoneOffset(timeZone, new Date(guess));
+  const instant = guess - offset * MS_PER_MINUTE;
+  // Re-check once in case the first guess landed on the other side of a DST switch
+  const correctedOffset = getTimeZoneOffset(timeZone, new Date(instant));
+  return new Date(guess - correctedOffset * MS_PER_MINUTE);
+};
+
+/**
+ * Minutes after midnight of a zone's service day for an instant (negative = the day before)
+ */
+const instantToWallMinutes = (instant: Date, timeZone: string, serviceDayUtc: number): number => {
+  const { year, month, day, hour, minute } = getZonedParts(timeZone, instant);
+  return (Date.UTC(year, month - 1, day, hour, minute) - serviceDayUtc) / MS_PER_MINUTE;
+};
+
+/**
+ * Re-express a slot given in one zone's wall-clock time in another zone's, keeping day offsets relative to the
+ * target zone's service day (e.g., 16:30 New York -> 22:30 Berlin, or 02:00 (+1) Kolkata)
+ */
+export const convertTimeSlot = (
+  slot: TimeSlot,
+  fromTimeZone: string,
+  toTimeZone: string,
+  referenceDate: Date = new Date()
+): TimeSlot => {
+  if (fromTimeZone === toTimeZone) return slot;
+
+  const fromServiceDay = getServiceDayUtc(fromTimeZone, referenceDate);
+  const toServiceDay = getServiceDayUtc(toTimeZone, referenceDate);
+  const start = wallMinutesToInstant(getSlotStartMinutes(slot), fromTimeZone, fromServiceDay);
+  const end = wallMinutesToInstant(getSlotEndMinutes(slot), fromTimeZone, fromServiceDay);
+
+  return {
+    ...createTimeSlotFromMinutes(
+      instantToWallMinutes(start, toTimeZone, toServiceDay),
+      instantToWallMinutes(end, toTimeZone, toServiceDay)
+    ),
+    isAvailable: slot.isAvailable,
+  };
+};
@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { formatGeometryParseError, parseWkt, parseWktFeatures } from './wkt-parser';
+
+describe('parseWkt', () => {
+  it('reads a POLYGON as one polygon with its outer ring', () => {
+    const { geometry, errors } = parseWkt('POLYGON ((4.89 52.37, 4.91 52.37, 4.91 52.38, 4.89 52.37))');
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(geometry?.polygons, [[[[4.89, 52.37], [4.91, 52.37], [4.91, 52.38], [4.89, 52.37]]]]);
+    assert.equal(geometry?.srid, null);
+  });
+
+  it('reads the SRID prefix of EWKT', () => {
+    const { geometry, errors } = parseWkt('SRID=4326;POLYGON ((0 0, 1 0, 1 1, 0 0))');
+
+    assert.deepEqual(errors, []);
+    assert.equal(geometry?.srid, 4326);
+  });
+
+  it('converts Web Mercator EWKT back to longitude and latitude', () => {
+    const { geometry } = parseWkt('SRID=3857;POLYGON ((0 0, 111319.49 0, 111319.49 111325.14, 0 0))');
+    const [[ring]] = geometry!.polygons;
+
+    assert.equal(geometry?.srid, 3857);
+    assert.ok(Math.abs(ring[1][0] - 1) < 1e-6);
+    assert.ok(Math.abs(ring[2][1] - 1) < 1e-4);
+  });
+
+  it('rejects other SRIDs with the position of the number', () => {
+    const { geometry, errors } = parseWkt('SRID=28992;POLYGON ((0 0, 1 0, 1 1, 0 0))');
+
+    assert.equal(geometry, null);
+    assert.equal(errors.length, 1);
+    assert.match(errors[0].message, /Unsupported SRID 28992/);
+    assert.deepEqual([errors[0].line, errors[0].column], [1, 6]);
+  });
+
+  it('keeps the holes of each MULTIPOLYGON part', () => {
+    const { geometry, errors } = parseWkt(
+      'MULTIPOLYGON (((0 0, 10 0, 10 10, 0 10, 0 0), (2 2, 4 2, 4 4, 2 2)), ((20 20, 30 20, 30 30, 20 20)))'
+    );
+
+    assert.deepEqual(errors, []);
+    assert.equal(geometry?.polygons.length, 2);
+    assert.deepEqual(geometry?.polygons.map(polygon => polygon.length), [2, 1]);
+    assert.deepEqual(geometry?.polygons[0][1], [[2, 2], [4, 2], [4, 4], [2, 2]]);
+  });
+
+  it('closes unclosed rings', () => {
+    const { geometry, errors } = parseWkt('POLYGON ((0 0, 1 0, 1 1))');
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(geometry?.polygons[0][0], [[0, 0], [1, 0], [1, 1], [0, 0]]);
+  });
+
+  it('rejects rings without an area, naming the ring and where it starts', () => {
+    const { geometry, errors } = parseWkt('POLYGON ((0 0, 10 0, 10 10, 0 0),\n  (2 2, 4 2))');
+
+    assert.equal(geometry, null);
+    assert.deepEqual(errors.map(formatGeometryParseError), [
+      'Line 2, column 3: Hole #1 must have at least 3 distinct coordinates to form an area',
+    ]);
+  });
+
+  it('reports syntax errors at their line and column', () => {
+    const { geometry, errors } = parseWkt('POLYGON ((0 0, 1 0,\n1 1, 0 0)');
+
+    assert.equal(geometry, null);
+    assert.deepEqual(errors.map(formatGeometryParseError), [
+      'Line 2, column 10: Expected ")" but found end of input',
+    ]);
+  });
+
+  it('reports coordinates outside the longitude/latitude range', () => {
+    const { errors } = parseWkt('POLYGON ((0 0, 200 0, 1 1, 0 0))');
+
+    assert.deepEqual(errors.map(formatGeometryParseError), [
+      'Line 1, column 16: Coordinate (200 0) is outside the valid longitude/latitude range',
+    ]);
+  });
+
+  it('drops Z and M values', () => {
+    const { geometry, errors } = parseWkt('POLYGON ZM ((0 0 5 1, 1 0 5 1, 1 1 5 1, 0 0 5 1))');
+
+    assert.deepEqual(errors, []);
+    assert.equal(geometry?.hasZ, true);
+    assert.equal(geometry?.hasM, true);
+    assert.deepEqual(geometry?.polygons[0][0][1], [1, 0]);
+  });
+});
+
+describe('parseWktFeatures', () => {
+  it('parses each text on its own, so one bad feature does not block the rest', () => {
+    const results = parseWktFeatures(['POLYGON ((0 0, 1 0, 1 1, 0 0))', 'POLYGON ((0 0, 1 0', '  POINT (1 1)  ']);
+
+    assert.deepEqual(results.map(result => result.featureIndex), [0, 1, 2]);
+    assert.notEqual(results[0].geometry, null);
+    assert.equal(results[1].geometry, null);
+    assert.equal(results[1].errors[0].featureIndex, 1);
+    assert.deepEqual(results[2].errors.map(error => error.message), ['Geometry contains no polygons']);
+    assert.match(results[2].warnings[0].message, /Ignored POINT/);
+  });
+});
@@ -0,0 +1,426 @@
+import type {
+  GeometryParseError,
+  GeometryParseResult,
+  LinearRing,
+  MultiPolygonCoordinates,
+  PolygonCoordinates,
+  Position,
+} from '@/types/geometry';
+
+type TokenKind = 'word' | 'number' | 'lparen' | 'rparen' | 'comma' | 'semicolon' | 'equals' | 'eof';
+
+interface Token {
+  kind: TokenKind;
+  value: string;
+  line: number;
+  column: number;
+}
+
+class WktSyntaxError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(message);
+    this.name = 'WktSyntaxError';
+  }
+}
+
+const PUNCTUATION: Record<string, TokenKind> = {
+  '(': 'lparen',
+  ')': 'rparen',
+  ',': 'comma',
+  ';': 'semicolon',
+  '=': 'equals',
+};
+
+const TOKEN_LABELS: Record<TokenKind, string> = {
+  word: 'a keyword',
+  number: 'a number',
+  lparen: '"("',
+  rparen: '")"',
+  comma: '","',
+  semicolon: '";"',
+  equals: '"="',
+  eof: 'end of input',
+};
+
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/;
+const WORD_PATTERN = /^[A-Za-z_]+/;
+
+// Web Mercator SRIDs we can convert back to WGS84 on the fly
+const WEB_MERCATOR_SRIDS = new Set([3857, 900913, 102100]);
+const EARTH_RADIUS = 6378137;
+
+const POLYGONAL_TYPES = new Set(['POLYGON', 'MULTIPOLYGON', 'GEOMETRYCOLLECTION']);
+const KNOWN_TYPES = new Set([
+  ...POLYGONAL_TYPES,
+  'POINT',
+  'LINESTRING',
+  'MULTIPOINT',
+  'MULTILINESTRING',
+]);
+
+/**
+ * Split WKT text into tokens, keeping the line and column of each one
+ */
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let line = 1;
+  let column = 1;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\n') {
+      line++;
+      column = 1;
+      i++;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      column++;
+      i++;
+      continue;
+    }
+
+    if (PUNCTUATION[char]) {
+      tokens.push({ kind: PUNCTUATION[char], value: char, line, column });
+      column++;
+      i++;
+      continue;
+    }
+
+    const rest = text.slice(i);
+    const numberMatch = rest.match(NUMBER_PATTERN);
+    if (numberMatch) {
+      tokens.push({ kind: 'number', value: numberMatch[0], line, column });
+      column += numberMatch[0].length;
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    const wordMatch = rest.match(WORD_PATTERN);
+    if (wordMatch) {
+      tokens.push({ kind: 'word', value: wordMatch[0].toUpperCase(), line, column });
+      column += wordMatch[0].length;
+      i += wordMatch[0].length;
+      continue;
+    }
+
+    throw new WktSyntaxError(`Unexpected character "${char}"`, line, column);
+  }
+
+  tokens.push({ kind: 'eof', value: '', line, column });
+  return tokens;
+};
+
+const describeToken = (token: Token): string => {
+  return token.kind === 'eof' ? 'end of input' : `"${token.value}"`;
+};
+
+/**
+ * Recursive-descent parser for polygonal WKT/EWKT
+ */
+class WktParser {
+  private position = 0;
+  private dimensions = { hasZ: false, hasM: false };
+  private srid: number | null = null;
+
+  readonly errors: GeometryParseError[] = [];
+  readonly warnings: GeometryParseError[] = [];
+
+  constructor(private tokens: Token[], private featureIndex: number) {}
+
+  parse(): GeometryParseResult {
+    this.parseSrid();
+    const polygons = this.parseGeometry();
+    this.expect('eof');
+
+    return {
+      featureIndex: this.featureIndex,
+      geometry: {
+        srid: this.srid,
+        hasZ: this.dimensions.hasZ,
+        hasM: this.dimensions.hasM,
+        polygons,
+      },
+      errors: this.errors,
+      warnings: this.warnings,
+    };
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.kind !== 'eof') this.position++;
+    return token;
+  }
+
+  private expect(kind: TokenKind, value?: string): Token {
+    const token = this.next();
+    if (token.kind !== kind || (value !== undefined && token.value !== value)) {
+      const expected = value ? `"${value}"` : TOKEN_LABELS[kind];
+      throw new WktSyntaxError(`Expected ${expected} but found ${describeToken(token)}`, token.line, token.column);
+    }
+    return token;
+  }
+
+  private addIssue(target: GeometryParseError[], message: string, token: Token) {
+    target.push({ featureIndex: this.featureIndex, message, line: token.line, column: token.column });
+  }
+
+  private parseSrid() {
+    const token = this.peek();
+    if (token.kind !== 'word' || token.value !== 'SRID') return;
+
+    this.next();
+    this.expect('equals');
+    const sridToken = this.expect('number');
+    this.expect('semicolon');
+
+    const srid = Number(sridToken.value);
+    if (!Number.isInteger(srid)) {
+      throw new WktSyntaxError(`Invalid SRID "${sridToken.value}"`, sridToken.line, sridToken.column);
+    }
+    if (srid !== 4326 && !WEB_MERCATOR_SRIDS.has(srid)) {
+      throw new WktSyntaxError(
+        `Unsupported SRID ${srid}. Coordinates must be WGS84 (4326) or Web Mercator (3857).`,
+        sridToken.line,
+        sridToken.column
+      );
+    }
+    this.srid = srid;
+  }
+
+  private parseDimensions() {
+    const token = this.peek();
+    if (token.kind !== 'word') return;
+
+    if (token.value === 'Z' || token.value === 'M' || token.value === 'ZM') {
+      this.next();
+      if (token.value.includes('Z')) this.dimensions.hasZ = true;
+      if (token.value.includes('M')) this.dimensions.hasM = true;
+    }
+  }
+
+  private isEmpty(): boolean {
+    const token = this.peek();
+    if (token.kind === 'word' && token.value === 'EMPTY') {
+      this.next();
+      return true;
+    }
+    return false;
+  }
+
+  private parseGeometry(): MultiPolygonCoordinates {
+    const typeToken = this.expect('word');
+    let type = typeToken.value;
+
+    // Tolerate the compact "POLYGONZ" / "MULTIPOLYGONZM" spellings
+    const compactDimension = type.match(/^(POLYGON|MULTIPOLYGON|GEOMETRYCOLLECTION)(ZM|Z|M)$/);
+    if (compactDimension) {
+      type = compactDimension[1];
+      if (compactDimension[2].includes('Z')) this.dimensions.hasZ = true;
+      if (compactDimension[2].includes('M')) this.dimensions.hasM = true;
+    }
+
+    if (!KNOWN_TYPES.has(type)) {
+      throw new WktSyntaxError(`Unknown geometry type "${typeToken.value}"`, typeToken.line, typeToken.column);
+    }
+
+    this.parseDimensions();
+    if (this.isEmpty()) return [];
+
+    switch (type) {
+      case 'POLYGON': {
+        const polygon = this.parsePolygonText();
+        return polygon ? [polygon] : [];
+      }
+      case 'MULTIPOLYGON':
+        return this.parseMultiPolygonText();
+      case 'GEOMETRYCOLLECTION':
+        return this.parseCollectionText();
+      default:
+        // Non-polygonal geometry: consume it so the caller can continue, but flag it
+        this.skipBalanced();
+        this.addIssue(this.warnings, `Ignored ${type}: only polygonal geometries produce hexagons`, typeToken);
+        return [];
+    }
+  }
+
+  private skipBalanced() {
+    const open = this.expect('lparen');
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.next();
+      if (token.kind === 'eof') {
+        throw new WktSyntaxError('Unclosed "("', open.line, open.column);
+      }
+      if (token.kind === 'lparen') depth++;
+      if (token.kind === 'rparen') depth--;
+    }
+  }
+
+  private parseCollectionText(): MultiPolygonCoordinates {
+    const polygons: MultiPolygonCoordinates = [];
+    this.expect('lparen');
+    do {
+      polygons.push(...this.parseGeometry());
+    } while (this.peek().kind === 'comma' && this.next());
+    this.expect('rparen');
+    return polygons;
+  }
+
+  private parseMultiPolygonText(): MultiPolygonCoordinates {
+    const polygons: MultiPolygonCoordinates = [];
+    this.expect('lparen');
+    do {
+      if (this.isEmpty()) continue;
+      const polygon = this.parsePolygonText();
+      if (polygon) polygons.push(polygon);
+    } while (this.peek().kind === 'comma' && this.next());
+    this.expect('rparen');
+    return polygons;
+  }
+
+  private parsePolygonText(): PolygonCoordinates | null {
+    const start = this.expect('lparen');
+    const rings: PolygonCoordinates = [];
+    let valid = true;
+
+    do {
+      const ringStart = this.peek();
+      const ring = this.parseRing();
+      const closed = this.closeRing(ring);
+      if (closed.length < 4) {
+        const label = rings.length === 0 ? 'Outer ring' : `Hole #${rings.length}`;
+        this.addIssue(this.errors, `${label} must have at least 3 distinct coordinates to form an area`, ringStart);
+        valid = false;
+      }
+      rings.push(closed);
+    } while (this.peek().kind === 'comma' && this.next());
+
+    this.expect('rparen');
+
+    if (rings.length === 0) {
+      this.addIssue(this.errors, 'Polygon has no rings', start);
+      return null;
+    }
+    return valid ? rings : null;
+  }
+
+  private closeRing(ring: LinearRing): LinearRing {
+    if (ring.length === 0) return ring;
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    if (first[0] !== last[0] || first[1] !== last[1]) {
+      return [...ring, first];
+    }
+    return ring;
+  }
+
+  private parseRing(): LinearRing {
+    this.expect('lparen');
+    const ring: LinearRing = [];
+    do {
+      ring.push(this.parseCoordinate());
+    } while (this.peek().kind === 'comma' && this.next());
+    this.expect('rparen');
+    return ring;
+  }
+
+  private parseCoordinate(): Position {
+    const first = this.peek();
+    const values: number[] = [];
+
+    while (this.peek().kind === 'number') {
+      values.push(Number(this.next().value));
+    }
+
+    const declared = 2 + (this.dimensions.hasZ ? 1 : 0) + (this.dimensions.hasM ? 1 : 0);
+    const explicitDimensions = this.dimensions.hasZ || this.dimensions.hasM;
+
+    if (values.length < 2) {
+      const unexpected = this.peek();
+      throw new WktSyntaxError(
+        `Invalid coordinate: expected a number but found ${describeToken(unexpected)}`,
+        unexpected.line,
+        unexpected.column
+      );
+    }
+    if ((explicitDimensions && values.length !== declared) || values.length > 4) {
+      throw new WktSyntaxError(
+        `Invalid coordinate: expected ${explicitDimensions ? declared : '2 to 4'} numbers, found ${values.length}`,
+        first.line,
+        first.column
+      );
+    }
+    if (!explicitDimensions && values.length === 3) this.dimensions.hasZ = true;
+    if (!explicitDimensions && values.length === 4) {
+      this.dimensions.hasZ = true;
+      this.dimensions.hasM = true;
+    }
+
+    let [lng, lat] = values;
+    if (this.srid !== null && WEB_MERCATOR_SRIDS.has(this.srid)) {
+      lng = (lng / EARTH_RADIUS) * (180 / Math.PI);
+      lat = (2 * Math.atan(Math.exp(lat / EARTH_RADIUS)) - Math.PI / 2) * (180 / Math.PI);
+    }
+
+    if (lng < -180 || lng > 180 || lat < -90 || lat > 90) {
+      this.addIssue(
+        this.errors,
+        `Coordinate (${values[0]} ${values[1]}) is outside the valid longitude/latitude range`,
+        first
+      );
+    }
+
+    return [lng, lat];
+  }
+}
+
+/**
+ * Parse a single WKT or EWKT string into polygons with holes.
+ * Supports POLYGON, MULTIPOLYGON and GEOMETRYCOLLECTION with optional SRID prefix and Z/M coordinates.
+ */
+export const parseWkt = (text: string, featureIndex = 0): GeometryParseResult => {
+  try {
+    const parser = new WktParser(tokenize(text), featureIndex);
+    const result = parser.parse();
+
+    if (result.errors.length === 0 && result.geometry && result.geometry.polygons.length === 0) {
+      result.errors.push({ featureIndex, message: 'Geometry contains no polygons', line: 1, column: 1 });
+    }
+    if (result.errors.length > 0) {
+      return { ...result, geometry: null };
+    }
+    return result;
+  } catch (error) {
+    if (error instanceof WktSyntaxError) {
+      return {
+        featureIndex,
+        geometry: null,
+        errors: [{ featureIndex, message: error.message, line: error.line, column: error.column }],
+        warnings: [],
+      };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Parse a list of WKT strings, one result per feature so a bad row doesn't block the rest
+ */
+export const parseWktFeatures = (texts: string[]): GeometryParseResult[] => {
+  return texts.map((text, index) => parseWkt(text.trim(), index));
+};
+
+/**
+ * Format a parse error for display (e.g., "Line 1, column 42: Expected ...")
+ */
+export const formatGeometryParseError = (error: GeometryParseError): string => {
+  return `Line ${error.line}, column ${error.column}: ${error.message}`;
+};
@@ -0,0 +1,44 @@
+import type { StorageConfig } from './storage';
+
+export type DataSourceRole = 'polygons' | 'routes';
+
+export type DataEnvironment = 'staging' | 'production';
+
+// Canonical column name (as the app reads it) -> header in this sheet; unmapped columns use the canonical name
+export type ColumnMapping = Record<string, string>;
+
+export interface SheetDataSource {
+  url: string; // spreadsheet URL including the tab's gid
+  columns: ColumnMapping;
+}
+
+export interface WriteTarget {
+  webhookUrl: string; // Apps Script web app that writes rows
+  routesUrl?: string; // tab routes are written to; unset = the route source
+  polygonsUrl?: string; // tab polygon edits are written to; unset = the polygon source
+}
+
+export interface DataSourceSet {
+  polygons: SheetDataSource;
+  routes: SheetDataSource;
+  writeTarget: WriteTarget;
+  storage?: StorageConfig; // a local backend replaces the sheets and webhook above
+}
+
+export interface WorkspaceConfig {
+  id: string;
+  name: string;
+  environment: DataEnvironment; // which spreadsheet set is live for this workspace
+  environments: Partial<Record<DataEnvironment, DataSourceSet>>;
+}
+
+export interface DataSourceRegistry {
+  defaultWorkspaceId: string;
+  workspaces: WorkspaceConfig[];
+}
+
+// The sources an action should use, after picking the workspace and its environment
+export interface ActiveDataSources extends DataSourceSet {
+  workspaceId: string;
+  environment: DataEnvironment;
+}
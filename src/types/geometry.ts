@@ -0,0 +1,82 @@
+import type { LatLngLiteral } from 'leaflet';
+
+export type Position = [number, number]; // [lng, lat]
+
+export type LinearRing = Position[];
+
+// First ring is the outer boundary, any following rings are holes
+export type PolygonCoordinates = LinearRing[];
+
+export type MultiPolygonCoordinates = PolygonCoordinates[];
+
+// Leaflet nesting for a multipolygon with holes: polygons -> rings -> points
+export type LeafletPolygon = LatLngLiteral[][][];
+
+export interface ParsedGeometry {
+  srid: number | null;
+  hasZ: boolean;
+  hasM: boolean;
+  polygons: MultiPolygonCoordinates;
+}
+
+export interface GeometryParseError {
+  featureIndex: number;
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface GeometryParseResult {
+  featureIndex: number;
+  geometry: ParsedGeometry | null;
+  errors: GeometryParseError[];
+  warnings: GeometryParseError[];
+}
+
+// Which cells polygonToCells keeps: centroid inside, fully inside, any overlap, or bounding-box overlap
+export type ContainmentMode = 'center' | 'full' | 'overlapping' | 'overlappingBbox';
+
+export interface PolyfillOptions {
+  resolution: number;
+  containmentMode: ContainmentMode;
+  compact: boolean;
+  uncompactResolution: number | null; // only used when compact is on; null keeps the mixed-resolution cells
+}
+
+// A polygon on the map with the cells it was polyfilled to
+export type PolygonData = PolyfillOptions & {
+  id: number;
+  leafletPolygon: LeafletPolygon;
+  geometry: MultiPolygonCoordinates; // [lng, lat] rings, holes included
+  allH3Indexes: string[]; // output cells; mixed resolutions when compacted
+  cellCounts: Record<ContainmentMode, number>; // cells at `resolution` for every containment mode
+  terminalId?: string;
+  timeZone?: string; // IANA zone from the sheet, else looked up at the polygon's centroid
+  sourceWkt?: string; // WKT as it was loaded, used to find the sheet row when saving edits back
+};
+
+// What the map shows; zoom is Leaflet's zoom level
+export interface MapViewport {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+// A one-off move of the map; between requests the user's pan and zoom are left alone
+export type ViewportRequest =
+  | { type: 'fit-all' }                       // every polygon and hexagon shown
+  | { type: 'fit-polygon'; polygonId: number }
+  | { type: 'fit-cells'; cells: string[] }    // a route's stops, or a single hexagon
+  | { type: 'view'; viewport: MapViewport };  // e.g. from a shared link or the terminal's last view
+
+// Map tools that pick many cells at once; a rectangle is also drawn by shift-dragging with no tool active
+export type SelectionTool = 'rectangle' | 'lasso' | 'ring' | 'line';
+
+// How a tool's cells combine with what is already selected
+export type SelectionMode = 'add' | 'subtract' | 'intersect';
+
+// What a selection tool was drawn as; rings are [lng, lat] like the rest of the geometry
+export type SelectionShape =
+  | { type: 'rectangle' | 'lasso'; ring: LinearRing }
+  | { type: 'ring'; center: Position }
+  | { type: 'line'; points: Position[] };
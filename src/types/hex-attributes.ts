@@ -0,0 +1,54 @@
+// Data attached to H3 cells (order volume, demand forecast, rider count, ...), imported from a CSV or sheet
+
+export type HexAttributeKind = 'numeric' | 'categorical';
+
+export type HexAttributeValue = number | string;
+
+export interface HexAttribute {
+  name: string; // the column header
+  kind: HexAttributeKind; // numeric when every value in the column parses as a number
+}
+
+// How rows landing on the same cell are combined; categorical values always take the most common one
+export type AttributeAggregation = 'sum' | 'mean' | 'min' | 'max';
+
+export interface HexAttributeLayer {
+  source: string; // file name or sheet URL
+  resolution: number | null; // finer rows were aggregated up to this; null = cells kept as imported
+  aggregation: AttributeAggregation;
+  attributes: HexAttribute[];
+  values: Record<string, Record<string, HexAttributeValue>>; // by H3 index, then attribute name
+}
+
+export type ClassingMethod = 'quantile' | 'equalInterval';
+
+export interface ChoroplethSettings {
+  visible: boolean;
+  attribute: string | null; // null = the layer's first attribute
+  method: ClassingMethod;
+  classCount: number;
+}
+
+export interface ChoroplethClass {
+  min: number;
+  max: number;
+  color: string;
+  count: number; // cells in the class
+}
+
+export interface ChoroplethCategory {
+  value: string; // 'Other' collects the categories past the palette
+  color: string;
+  count: number;
+}
+
+export type ChoroplethLegend =
+  | { attribute: string; kind: 'numeric'; classes: ChoroplethClass[] }
+  | { attribute: string; kind: 'categorical'; categories: ChoroplethCategory[] };
+
+// What the map draws: a fill color per cell, and the hover text for each cell
+export interface Choropleth {
+  colors: Map<string, string>;
+  legend: ChoroplethLegend;
+  describe: (index: string) => string | null;
+}
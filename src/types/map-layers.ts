@@ -0,0 +1,46 @@
+import type { LeafletPolygon, MapViewport } from './geometry';
+
+// Where a basemap's tiles come from
+export type BasemapSource =
+  | { type: 'xyz'; url: string; subdomains?: string; maxZoom?: number } // {z}/{x}/{y} template
+  | { type: 'wmts'; url: string; layer: string; tileMatrixSet: string; format: string; style: string } // KVP GetTile
+  | { type: 'offline'; minZoom: number; maxZoom: number }; // the MBTiles/PMTiles file served by this app
+
+export interface Basemap {
+  id: string;
+  name: string;
+  attribution: string;
+  source: BasemapSource;
+  custom?: boolean; // added in this browser; can be removed again
+}
+
+export type OfflineTilesFormat = 'mbtiles' | 'pmtiles';
+
+// The tile file configured with GEOHEX_OFFLINE_TILES, as reported to the browser
+export interface OfflineTilesInfo {
+  name: string;
+  format: OfflineTilesFormat;
+  minZoom: number;
+  maxZoom: number;
+  attribution: string;
+}
+
+// Map setup that comes from the deployment rather than the browser
+export interface MapSettings {
+  offlineTiles?: OfflineTilesInfo;
+  defaultView?: MapViewport; // shown when there is nothing to fit
+}
+
+export interface MapOverlays {
+  polygonOutlines: boolean;
+  h3Grid: boolean;
+  h3GridResolution: number;
+  neighbouringTerminals: boolean;
+}
+
+// Another terminal's polygon, outlined for context
+export interface TerminalOutline {
+  terminalId: string;
+  name: string;
+  polygon: LeafletPolygon;
+}
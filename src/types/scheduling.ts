@@ -1,6 +1,8 @@
 export interface TimeSlot {
   start: string; // "16:30", "16:45", etc.
   end: string;   // "16:45", "17:00", etc.
+  startDayOffset?: number; // days after the service day; unset = same day, negative only in converted views
+  endDayOffset?: number;   // e.g. 1 for "23:45" - "00:15"
   isAvailable: boolean;
 }
 
@@ -17,11 +19,65 @@ export interface TimeValidationResult {
   error?: string;
 }
 
+// 0 = Sunday ... 6 = Saturday, matching Date.getDay()
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export interface OperatingWindow {
+  id: string;
+  shift: string;              // "Morning", "Lunch", "Evening", ...
+  terminalId?: string;        // unset = applies to every terminal
+  weekdays: Weekday[];        // empty = every day
+  start: string;              // "16:30"
+  end: string;                // "20:00"
+  slotMinutes: number;        // granularity of generated slots
+  minDurationMinutes: number;
+  maxDurationMinutes: number;
+}
+
+// RRULE-style pattern for the days a route runs; dates are "YYYY-MM-DD" in the terminal's zone
+export interface RecurrenceRule {
+  weekdays: Weekday[];     // BYDAY; empty = every day
+  effectiveFrom?: string;  // inclusive; unset = no start
+  effectiveTo?: string;    // inclusive; unset = open-ended
+}
+
+export interface ScheduleException {
+  date: string;            // "2026-12-25"
+  type: 'skip' | 'override'; // skip = holiday, no service; override = runs with changed times
+  note?: string;           // "Christmas"
+  overrides?: Record<string, TimeSlot>; // hexagonId -> time on this date; stops not listed keep their usual time
+}
+
+// A route's stops as saved at one revision; edits are merged against it when someone else saved in between
+export interface RouteRevision {
+  revision: number; // counts saves, from 1
+  hexagons: ScheduledHexagon[];
+  fingerprint?: string; // the saved fields and stops, to tell an unchanged route from an edited one
+}
+
+export type MergeSide = 'mine' | 'theirs';
+
+// One stop of a route in a three-way merge; a side without the stop has no slot
+export interface RouteStopMerge {
+  hexagonId: string;
+  base?: TimeSlot;
+  mine?: TimeSlot;
+  theirs?: TimeSlot;
+  changed: boolean;      // either side changed the stop
+  conflict: boolean;     // both sides changed the stop, differently
+  resolution: MergeSide; // the side taken unless the user picks; 'mine' for conflicts
+}
+
 export interface HexagonSchedule {
   id: string;
   name: string;
   terminalId: string;
+  operatingWindow: OperatingWindow; // window the schedule was built against
+  timeZone?: string; // IANA zone of the terminal; slot times are wall-clock in this zone
+  recurrence: RecurrenceRule;
+  exceptions: ScheduleException[];
   hexagons: ScheduledHexagon[];
+  base?: RouteRevision; // the saved copy this one was loaded from or last saved as; unset = not saved yet
   createdAt: Date;
   updatedAt: Date;
 }
@@ -32,3 +88,23 @@ export interface HexagonSelection {
   polygonId: number;
   isSelected: boolean;
 }
+
+// 'grid' = H3 grid steps between cells, 'haversine' = straight-line km between cell centers
+export type RouteDistanceMetric = 'grid' | 'haversine';
+
+export type RouteStart =
+  | { type: 'cell'; hexagonId: string }           // begin at one of the route's stops
+  | { type: 'location'; lat: number; lng: number }; // begin from a point such as the terminal, not itself a stop
+
+export interface RouteProposal {
+  hexagonIds: string[];   // visiting order
+  distance: number;       // proposed path length in the metric's unit
+  currentDistance: number; // path length of the current (time) order from the same start
+  metric: RouteDistanceMetric;
+}
+
+// Stops picked or dropped at once with the map selection tools; a new object each time
+export interface StopSelectionRequest {
+  add: string[];    // in the order the tool reached them, which becomes the visiting order
+  remove: string[];
+}
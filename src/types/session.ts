@@ -0,0 +1,34 @@
+import type { MapViewport, PolygonData } from './geometry';
+import type { HexAttributeLayer } from './hex-attributes';
+import type { HexagonSchedule, OperatingWindow, RecurrenceRule, ScheduledHexagon, ScheduleException } from './scheduling';
+
+// What the schedule editor holds before Create/Update is pressed
+export interface ScheduleDraft {
+  scheduleId?: string; // the schedule being edited; unset = a new one
+  name: string;
+  hexagons: ScheduledHexagon[];
+  operatingWindow: OperatingWindow;
+  recurrence: RecurrenceRule;
+  exceptions: ScheduleException[];
+}
+
+// Everything needed to put the app back the way it was; sets are stored as arrays
+export interface SessionSnapshot {
+  polygons: PolygonData[];
+  selectedH3Indexes: string[];
+  schedules: HexagonSchedule[];
+  scheduledHexagons: ScheduledHexagon[];
+  selectedTerminalId: string;
+  operatingWindows: OperatingWindow[];
+  draft: ScheduleDraft | null; // unset = the editor was closed
+  terminalViewports?: Record<string, MapViewport>; // last map view per terminal ID; absent in older sessions
+  hexAttributes?: HexAttributeLayer | null; // imported per-hexagon data; absent in older sessions
+}
+
+// A named session as kept in IndexedDB
+export interface SavedSession {
+  id: string;
+  name: string;
+  updatedAt: Date;
+  snapshot: SessionSnapshot;
+}
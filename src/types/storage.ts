@@ -0,0 +1,97 @@
+import type { HexagonSchedule } from './scheduling';
+
+export type StorageBackend = 'google-sheets' | 'sqlite' | 'directory';
+
+// Where a workspace keeps its polygons and routes; unset = the Google Sheets in the data sources
+export type StorageConfig =
+  | { type: 'google-sheets' }
+  | { type: 'sqlite'; path: string }     // database file, created on first use
+  | { type: 'directory'; path: string }; // folder holding polygons.csv and routes.csv
+
+// Cells as read, before headers are matched to columns
+export interface SheetTable {
+  headers: string[];
+  rows: string[][];
+}
+
+// A problem with one cell; rows with a bad required cell are skipped, other bad cells are read as empty
+export interface SheetRowError {
+  row: number; // as numbered in the sheet, the header being row 1
+  column: string;
+  reason: string;
+  rowSkipped: boolean;
+}
+
+export interface WithRowErrors<T> {
+  data: T;
+  errors: SheetRowError[];
+}
+
+// What a repository read returns: the rows as of one read of the backend
+export interface DataSnapshot<T> extends WithRowErrors<T> {
+  fetchedAt: number; // ms since epoch; older than now when served from the cache
+}
+
+export interface PolygonSheetRow {
+  'Terminal ID': string;
+  'PS Name': string;
+  'Pitstop ID': string;
+  'Polygon': string;   // WKT
+  'Time Zone': string; // IANA zone; empty = looked up from the polygon
+}
+
+export interface RouteSheetRow {
+  'Terminal ID': string;
+  'Route Name': string;
+  'hexagon_id': string;
+  'Start Time': string;
+  'End Time': string;
+  'Ordering': string;
+  // Operating window columns, repeated on every row of a route; optional in the sheet
+  'Shift': string;
+  'Weekdays': string;
+  'Window Start': string;
+  'Window End': string;
+  'Slot Minutes': string;
+  'Min Duration': string;
+  'Max Duration': string;
+  'Time Zone': string; // IANA zone the Start/End Time columns are in; optional in the sheet
+  // Recurrence columns, repeated on every row of a route; optional in the sheet
+  'Route Days': string;
+  'Effective From': string;
+  'Effective To': string;
+  'Exceptions': string;     // "2026-12-25 skip Christmas; 2026-12-31 override New Year's Eve"
+  'Override Times': string; // per stop: "2026-12-31 18:00-18:15; ..."
+  'Route ID': string; // stable across renames; empty on rows saved before the column existed
+  'Revision': string;  // counts the route's saves; empty on rows saved before the column existed (read as 1)
+}
+
+// A save based on another revision than the one in storage is rejected and nothing is written
+export type SaveRouteResult =
+  | { status: 'saved'; replaced: boolean; revision: number }
+  | { status: 'conflict'; revision: number }; // the revision in storage; 0 = the route was deleted
+
+export type DeleteRouteResult =
+  | { status: 'deleted'; removedRows: number } // 0 when nothing was saved under the ID
+  | { status: 'conflict'; revision: number }; // the revision in storage, saved by someone else since expectedRevision
+
+/**
+ * Reads and writes polygons, terminals and routes for one workspace.
+ * Methods throw with a user-facing message when the backend fails.
+ */
+export interface GeoHexRepository {
+  backend: StorageBackend;
+  getPolygons(): Promise<DataSnapshot<PolygonSheetRow[]>>;
+  listTerminalIds(): Promise<DataSnapshot<string[]>>;
+  listRoutes(terminalId?: string): Promise<DataSnapshot<HexagonSchedule[]>>;
+  getHexagonsForTerminal(terminalId: string): Promise<DataSnapshot<string[]>>;
+  // Writes the route's rows, replacing the rows saved under its ID (whatever name they have),
+  // when storage still has the revision the schedule is based on
+  saveRoute(schedule: HexagonSchedule): Promise<SaveRouteResult>;
+  // Removes every row saved under the route's ID, unless they are at another revision than expectedRevision
+  deleteRoute(routeId: string, expectedRevision: number): Promise<DeleteRouteResult>;
+  // Replaces the row loaded with previousWkt, or adds a new one
+  savePolygon(terminalId: string, wkt: string, previousWkt?: string): Promise<{ updated: boolean }>;
+  // Drops cached reads so the next read goes to the backend
+  refresh(): void;
+}